@@ -1,56 +1,276 @@
 import { Textarea } from "@/components/ui/textarea";
 import { Label } from "@/components/ui/label";
-import { ClipboardList, CalendarCheck } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Switch } from "@/components/ui/switch";
+import { ClipboardList, CalendarCheck, Plus, Trash2 } from "lucide-react";
+import ReviewComments from "./ReviewComments";
+import { ActivityItem, ActivityMode, ReviewComment } from "@/types/report";
+import {
+  ACTIVITY_ROWS,
+  activityItemsToText,
+  newActivityItem,
+  textToActivityItems,
+  wrapActivityText,
+} from "@/lib/activityLog";
 
 interface ActivitySectionProps {
   activityToday: string;
   setActivityToday: (activity: string) => void;
   workPlanNextDay: string;
   setWorkPlanNextDay: (plan: string) => void;
+  activityMode: ActivityMode;
+  setActivityMode: (mode: ActivityMode) => void;
+  activityItems: ActivityItem[];
+  setActivityItems: (items: ActivityItem[]) => void;
+  planItems: ActivityItem[];
+  setPlanItems: (items: ActivityItem[]) => void;
+  reviewComments?: ReviewComment[];
+  readOnly?: boolean;
 }
 
+interface ActivityItemsTableProps {
+  items: ActivityItem[];
+  onChange: (items: ActivityItem[]) => void;
+  percentLabel: string;
+  readOnly: boolean;
+}
+
+const ActivityItemsTable = ({ items, onChange, percentLabel, readOnly }: ActivityItemsTableProps) => {
+  const updateItem = (id: string, changes: Partial<ActivityItem>) =>
+    onChange(items.map((item) => (item.id === id ? { ...item, ...changes } : item)));
+
+  return (
+    <div className="rounded-lg border border-table-border overflow-x-auto">
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="bg-table-header text-muted-foreground">
+            <th className="text-left px-3 py-2 font-medium w-[14%]">WBS / BOQ</th>
+            <th className="text-left px-3 py-2 font-medium w-[18%]">Location</th>
+            <th className="text-left px-3 py-2 font-medium">Description</th>
+            <th className="text-left px-3 py-2 font-medium w-[16%]">Crew</th>
+            <th className="text-center px-3 py-2 font-medium w-[10%]">{percentLabel}</th>
+            <th className="w-[6%]"></th>
+          </tr>
+        </thead>
+        <tbody>
+          {items.length === 0 ? (
+            <tr>
+              <td colSpan={6} className="text-center py-6 text-muted-foreground">
+                No activities yet.
+              </td>
+            </tr>
+          ) : (
+            items.map((item) => (
+              <tr key={item.id} className="border-t border-table-border">
+                <td className="px-2 py-1.5">
+                  <Input
+                    value={item.code}
+                    onChange={(e) => updateItem(item.id, { code: e.target.value })}
+                    placeholder="3.2.1"
+                    aria-label="WBS or BOQ code"
+                  />
+                </td>
+                <td className="px-2 py-1.5">
+                  <Input
+                    value={item.location}
+                    onChange={(e) => updateItem(item.id, { location: e.target.value })}
+                    placeholder="Block A / L2 / C-4"
+                    aria-label="Location"
+                  />
+                </td>
+                <td className="px-2 py-1.5">
+                  <Input
+                    value={item.description}
+                    onChange={(e) => updateItem(item.id, { description: e.target.value })}
+                    aria-label="Description"
+                  />
+                </td>
+                <td className="px-2 py-1.5">
+                  <Input
+                    value={item.crew}
+                    onChange={(e) => updateItem(item.id, { crew: e.target.value })}
+                    placeholder="6 carpenters"
+                    aria-label="Crew"
+                  />
+                </td>
+                <td className="px-2 py-1.5">
+                  <Input
+                    type="number"
+                    min={0}
+                    max={100}
+                    value={item.percentComplete ?? ""}
+                    onChange={(e) =>
+                      updateItem(item.id, {
+                        percentComplete:
+                          e.target.value === "" ? null : Math.min(100, Math.max(0, Number(e.target.value))),
+                      })
+                    }
+                    className="text-center"
+                    aria-label={percentLabel}
+                  />
+                </td>
+                <td className="px-2 py-1.5 text-center">
+                  {!readOnly && (
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => onChange(items.filter((i) => i.id !== item.id))}
+                      className="text-destructive hover:text-destructive"
+                      aria-label="Remove activity"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  )}
+                </td>
+              </tr>
+            ))
+          )}
+        </tbody>
+      </table>
+      {!readOnly && (
+        <div className="border-t border-table-border px-2 py-1.5">
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => onChange([...items, newActivityItem()])}
+            className="text-primary hover:text-primary hover:bg-primary/10"
+          >
+            <Plus className="w-4 h-4 mr-1" />
+            Add Activity
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+// Shown when the text no longer fits the report's ten lines
+const OverflowNote = ({ text }: { text: string }) => {
+  const lines = wrapActivityText(text).length;
+  return lines > ACTIVITY_ROWS ? (
+    <p className="mt-2 text-xs text-warning">
+      {lines} lines — the last {lines - ACTIVITY_ROWS} continue on an extra page in exports.
+    </p>
+  ) : null;
+};
+
 const ActivitySection = ({
   activityToday,
   setActivityToday,
   workPlanNextDay,
   setWorkPlanNextDay,
+  activityMode,
+  setActivityMode,
+  activityItems,
+  setActivityItems,
+  planItems,
+  setPlanItems,
+  reviewComments,
+  readOnly = false,
 }: ActivitySectionProps) => {
+  const structured = activityMode === "structured";
+
+  // The text fields always hold the rendered lines, so exports and summaries read them as before
+  const updateActivityItems = (items: ActivityItem[]) => {
+    setActivityItems(items);
+    setActivityToday(activityItemsToText(items));
+  };
+
+  const updatePlanItems = (items: ActivityItem[]) => {
+    setPlanItems(items);
+    setWorkPlanNextDay(activityItemsToText(items));
+  };
+
+  // Items are rebuilt from the text only when it was edited since the last structured session
+  const handleModeChange = (checked: boolean) => {
+    if (checked) {
+      if (activityItemsToText(activityItems) !== activityToday) {
+        setActivityItems(textToActivityItems(activityToday));
+      }
+      if (activityItemsToText(planItems) !== workPlanNextDay) {
+        setPlanItems(textToActivityItems(workPlanNextDay));
+      }
+    }
+    setActivityMode(checked ? "structured" : "text");
+  };
+
   return (
-    <div className="grid md:grid-cols-2 gap-6 animate-fade-in">
-      <div className="section-card p-6">
-        <div className="flex items-center gap-2 mb-4">
-          <div className="p-2 bg-primary/10 rounded-lg">
-            <ClipboardList className="w-5 h-5 text-primary" />
-          </div>
-          <div>
-            <h2 className="text-lg font-semibold text-foreground">Working Activity Today</h2>
-            <p className="text-sm text-muted-foreground">Describe today's completed work</p>
-          </div>
-        </div>
-        <Textarea
-          value={activityToday}
-          onChange={(e) => setActivityToday(e.target.value)}
-          placeholder="Enter details of work completed today..."
-          className="min-h-[180px] resize-none"
+    <div className="space-y-3 animate-fade-in">
+      <ReviewComments comments={reviewComments} />
+      <div className="flex items-center justify-end gap-2">
+        <Switch
+          id="structured-activities"
+          checked={structured}
+          onCheckedChange={handleModeChange}
+          disabled={readOnly}
         />
+        <Label htmlFor="structured-activities" className="text-sm text-muted-foreground">
+          Structured activity log (WBS code, location, crew, % complete)
+        </Label>
       </div>
-      
-      <div className="section-card p-6">
-        <div className="flex items-center gap-2 mb-4">
-          <div className="p-2 bg-accent/10 rounded-lg">
-            <CalendarCheck className="w-5 h-5 text-accent" />
+      <div className={`grid gap-6 ${structured ? "" : "md:grid-cols-2"}`}>
+        <div className="section-card p-6">
+          <div className="flex items-center gap-2 mb-4">
+            <div className="p-2 bg-primary/10 rounded-lg">
+              <ClipboardList className="w-5 h-5 text-primary" />
+            </div>
+            <div>
+              <h2 className="text-lg font-semibold text-foreground">Working Activity Today</h2>
+              <p className="text-sm text-muted-foreground">Describe today's completed work</p>
+            </div>
           </div>
-          <div>
-            <h2 className="text-lg font-semibold text-foreground">Work Plan for Next Day</h2>
-            <p className="text-sm text-muted-foreground">Plan tomorrow's activities</p>
+          {structured ? (
+            <fieldset disabled={readOnly} className="min-w-0">
+              <ActivityItemsTable
+                items={activityItems}
+                onChange={updateActivityItems}
+                percentLabel="% complete"
+                readOnly={readOnly}
+              />
+            </fieldset>
+          ) : (
+            <Textarea
+              value={activityToday}
+              onChange={(e) => setActivityToday(e.target.value)}
+              readOnly={readOnly}
+              placeholder="Enter details of work completed today..."
+              className="min-h-[180px] resize-none"
+            />
+          )}
+          <OverflowNote text={activityToday} />
+        </div>
+
+        <div className="section-card p-6">
+          <div className="flex items-center gap-2 mb-4">
+            <div className="p-2 bg-accent/10 rounded-lg">
+              <CalendarCheck className="w-5 h-5 text-accent" />
+            </div>
+            <div>
+              <h2 className="text-lg font-semibold text-foreground">Work Plan for Next Day</h2>
+              <p className="text-sm text-muted-foreground">Plan tomorrow's activities</p>
+            </div>
           </div>
+          {structured ? (
+            <fieldset disabled={readOnly} className="min-w-0">
+              <ActivityItemsTable
+                items={planItems}
+                onChange={updatePlanItems}
+                percentLabel="Target %"
+                readOnly={readOnly}
+              />
+            </fieldset>
+          ) : (
+            <Textarea
+              value={workPlanNextDay}
+              onChange={(e) => setWorkPlanNextDay(e.target.value)}
+              readOnly={readOnly}
+              placeholder="Enter planned activities for tomorrow..."
+              className="min-h-[180px] resize-none"
+            />
+          )}
+          <OverflowNote text={workPlanNextDay} />
         </div>
-        <Textarea
-          value={workPlanNextDay}
-          onChange={(e) => setWorkPlanNextDay(e.target.value)}
-          placeholder="Enter planned activities for tomorrow..."
-          className="min-h-[180px] resize-none"
-        />
       </div>
     </div>
   );
@@ -0,0 +1,81 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+
+interface AmendDialogProps {
+  open: boolean;
+  onClose: () => void;
+  nextRevision: number;
+  // Resolves false when the amend failed; the caller has already told the user
+  onConfirm: (reason: string) => Promise<boolean>;
+}
+
+const AmendDialog = ({
+  open,
+  onClose,
+  nextRevision,
+  onConfirm,
+}: AmendDialogProps) => {
+  const [reason, setReason] = useState("");
+  const [isAmending, setIsAmending] = useState(false);
+
+  useEffect(() => {
+    if (open) setReason("");
+  }, [open]);
+
+  const handleConfirm = async () => {
+    if (!reason.trim()) return;
+    setIsAmending(true);
+    try {
+      if (await onConfirm(reason.trim())) onClose();
+    } finally {
+      setIsAmending(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-[480px]">
+        <DialogHeader>
+          <DialogTitle>Amend Report (Rev. {nextRevision})</DialogTitle>
+          <DialogDescription>
+            The submitted report is kept as it was. Your changes go into a new
+            revision that has to be submitted again.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="grid gap-2 py-2">
+          <Label htmlFor="amend-reason">Reason for amendment *</Label>
+          <Textarea
+            id="amend-reason"
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            placeholder="e.g. Corrected manpower count for the working team"
+            className="min-h-[100px]"
+          />
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleConfirm}
+            disabled={!reason.trim() || isAmending}
+          >
+            {isAmending ? "Amending..." : "Amend Report"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default AmendDialog;
@@ -0,0 +1,157 @@
+import { KeyboardEvent, useMemo, useState } from "react";
+import { BookmarkPlus } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import {
+  Popover,
+  PopoverAnchor,
+  PopoverContent,
+} from "@/components/ui/popover";
+import { findCatalogItem } from "@/lib/resourceCatalog";
+import { cn } from "@/lib/utils";
+import { CatalogItem } from "@/types/catalog";
+
+interface CatalogAutocompleteProps {
+  value: string;
+  items: CatalogItem[];
+  onChange: (value: string) => void;
+  onSelect: (item: CatalogItem) => void;
+  onAddToCatalog?: (description: string) => void;
+  placeholder?: string;
+  className?: string;
+}
+
+const MAX_SUGGESTIONS = 8;
+
+// Free-text input that suggests matching catalog entries while typing
+const CatalogAutocomplete = ({
+  value,
+  items,
+  onChange,
+  onSelect,
+  onAddToCatalog,
+  placeholder,
+  className,
+}: CatalogAutocompleteProps) => {
+  const [open, setOpen] = useState(false);
+  const [highlighted, setHighlighted] = useState(0);
+
+  const query = value.trim().toLowerCase();
+  const matches = useMemo(
+    () =>
+      items
+        .filter(
+          (item) =>
+            !query ||
+            item.description.toLowerCase().includes(query) ||
+            item.category?.toLowerCase().includes(query)
+        )
+        .slice(0, MAX_SUGGESTIONS),
+    [items, query]
+  );
+  const canAdd =
+    !!onAddToCatalog && !!value.trim() && !findCatalogItem(items, value);
+  const optionCount = matches.length + (canAdd ? 1 : 0);
+
+  const choose = (index: number) => {
+    if (index < matches.length) {
+      onSelect(matches[index]);
+    } else if (canAdd) {
+      onAddToCatalog?.(value.trim());
+    }
+    setOpen(false);
+  };
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === "ArrowDown") {
+      e.preventDefault();
+      setOpen(true);
+      setHighlighted((i) => (optionCount ? (i + 1) % optionCount : 0));
+    } else if (e.key === "ArrowUp") {
+      e.preventDefault();
+      setHighlighted((i) =>
+        optionCount ? (i - 1 + optionCount) % optionCount : 0
+      );
+    } else if (e.key === "Enter" && open && optionCount > 0) {
+      e.preventDefault();
+      choose(highlighted);
+    } else if (e.key === "Escape") {
+      setOpen(false);
+    }
+  };
+
+  return (
+    <Popover open={open && optionCount > 0} onOpenChange={setOpen}>
+      <PopoverAnchor asChild>
+        <Input
+          value={value}
+          onChange={(e) => {
+            onChange(e.target.value);
+            setHighlighted(0);
+            setOpen(true);
+          }}
+          onFocus={() => setOpen(true)}
+          onBlur={() => setOpen(false)}
+          onKeyDown={handleKeyDown}
+          placeholder={placeholder}
+          className={className}
+          role="combobox"
+          aria-expanded={open}
+          aria-autocomplete="list"
+        />
+      </PopoverAnchor>
+      <PopoverContent
+        align="start"
+        className="w-[var(--radix-popover-trigger-width)] min-w-[220px] p-1"
+        // Keep typing in the input while the list is shown
+        onOpenAutoFocus={(e) => e.preventDefault()}
+        onCloseAutoFocus={(e) => e.preventDefault()}
+      >
+        <ul role="listbox" className="max-h-64 overflow-y-auto text-sm">
+          {matches.map((item, idx) => (
+            <li
+              key={item.id}
+              role="option"
+              aria-selected={idx === highlighted}
+              // mousedown fires before the input's blur closes the list
+              onMouseDown={(e) => {
+                e.preventDefault();
+                choose(idx);
+              }}
+              onMouseEnter={() => setHighlighted(idx)}
+              className={cn(
+                "flex cursor-pointer items-center justify-between gap-2 rounded-sm px-2 py-1.5",
+                idx === highlighted && "bg-accent text-accent-foreground"
+              )}
+            >
+              <span className="truncate">{item.description}</span>
+              <span className="shrink-0 text-xs text-muted-foreground">
+                {[item.unit, item.category].filter(Boolean).join(" · ")}
+              </span>
+            </li>
+          ))}
+          {canAdd && (
+            <li
+              role="option"
+              aria-selected={highlighted === matches.length}
+              onMouseDown={(e) => {
+                e.preventDefault();
+                choose(matches.length);
+              }}
+              onMouseEnter={() => setHighlighted(matches.length)}
+              className={cn(
+                "flex cursor-pointer items-center gap-2 rounded-sm px-2 py-1.5 text-primary",
+                matches.length > 0 && "mt-1 border-t",
+                highlighted === matches.length && "bg-accent"
+              )}
+            >
+              <BookmarkPlus className="w-4 h-4" />
+              Add "{value.trim()}" to catalog
+            </li>
+          )}
+        </ul>
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default CatalogAutocomplete;
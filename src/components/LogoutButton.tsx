@@ -16,6 +16,7 @@ import {
 } from "@/components/ui/alert-dialog";
 import { useToast } from "@/hooks/use-toast";
 import { API_ENDPOINTS } from "@/config/api";
+import { clearCurrentUser } from "@/lib/currentUser";
 
 const LogoutButton = () => {
   const [isLoading, setIsLoading] = useState(false);
@@ -45,6 +46,7 @@ const LogoutButton = () => {
       // Clear local storage
       localStorage.removeItem("token");
       localStorage.removeItem("rememberMe");
+      clearCurrentUser();
 
       toast({
         title: "Logged out successfully",
@@ -57,6 +59,7 @@ const LogoutButton = () => {
       // Still clear local storage and redirect even if API call fails
       localStorage.removeItem("token");
       localStorage.removeItem("rememberMe");
+      clearCurrentUser();
       navigate("/login");
     } finally {
       setIsLoading(false);
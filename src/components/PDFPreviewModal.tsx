@@ -1,17 +1,30 @@
 import { Dialog, DialogContent, DialogClose } from "@/components/ui/dialog";
-import { X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Download, X } from "lucide-react";
 
 interface PDFPreviewModalProps {
   open: boolean;
   onClose: () => void;
   pdfUrl: string | null;
+  onDownload?: () => void;
 }
 
-const PDFPreviewModal = ({ open, onClose, pdfUrl }: PDFPreviewModalProps) => {
+const PDFPreviewModal = ({
+  open,
+  onClose,
+  pdfUrl,
+  onDownload,
+}: PDFPreviewModalProps) => {
   return (
     <Dialog open={open} onOpenChange={onClose}>
       <DialogContent className="max-w-7xl max-h-[95vh] w-[95vw] h-[95vh] flex flex-col p-0">
-        <div className="flex justify-end p-2">
+        <div className="flex items-center justify-end gap-2 p-2">
+          {onDownload && (
+            <Button variant="outline" size="sm" onClick={onDownload}>
+              <Download className="w-4 h-4 mr-2" />
+              Download PDF
+            </Button>
+          )}
           <DialogClose className="text-gray-500 hover:text-gray-700">
             <X className="w-6 h-6" />
           </DialogClose>
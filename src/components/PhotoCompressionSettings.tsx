@@ -0,0 +1,125 @@
+import { useState } from "react";
+import { Settings2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Slider } from "@/components/ui/slider";
+import { Switch } from "@/components/ui/switch";
+import {
+  COMPRESSION_FORMAT_LABELS,
+  CompressionFormat,
+  getCompressionSettings,
+  ImageCompressionSettings,
+  setCompressionSettings,
+} from "@/lib/imageCompression";
+
+const MAX_DIMENSIONS = [1280, 1600, 1920, 2560];
+
+// Applies to photos picked from now on; already attached photos are kept as they are
+const PhotoCompressionSettings = () => {
+  const [settings, setSettings] = useState<ImageCompressionSettings>(getCompressionSettings);
+
+  const update = (changes: Partial<ImageCompressionSettings>) => {
+    const next = { ...settings, ...changes };
+    setSettings(next);
+    setCompressionSettings(next);
+  };
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="outline" size="icon" title="Photo compression" aria-label="Photo compression settings">
+          <Settings2 className="w-4 h-4" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-72 space-y-4">
+        <div>
+          <h4 className="font-medium text-foreground">Photo Compression</h4>
+          <p className="text-xs text-muted-foreground">
+            Photos are resized, rotated upright and stripped of metadata when
+            they are added.
+          </p>
+        </div>
+
+        <div className="flex items-center justify-between">
+          <Label htmlFor="compression-enabled">Compress photos</Label>
+          <Switch
+            id="compression-enabled"
+            checked={settings.enabled}
+            onCheckedChange={(enabled) => update({ enabled })}
+          />
+        </div>
+
+        <div className="grid gap-2">
+          <Label>Longest side</Label>
+          <Select
+            value={String(settings.maxDimension)}
+            onValueChange={(v) => update({ maxDimension: Number(v) })}
+            disabled={!settings.enabled}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {MAX_DIMENSIONS.map((size) => (
+                <SelectItem key={size} value={String(size)}>
+                  {size} px
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="grid gap-2">
+          <Label>Format</Label>
+          <Select
+            value={settings.format}
+            onValueChange={(v) => update({ format: v as CompressionFormat })}
+            disabled={!settings.enabled}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(COMPRESSION_FORMAT_LABELS) as CompressionFormat[]).map((format) => (
+                <SelectItem key={format} value={format}>
+                  {COMPRESSION_FORMAT_LABELS[format]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="grid gap-2">
+          <div className="flex items-center justify-between">
+            <Label>Quality</Label>
+            <span className="text-xs text-muted-foreground">
+              {Math.round(settings.quality * 100)}%
+            </span>
+          </div>
+          <Slider
+            min={50}
+            max={95}
+            step={5}
+            value={[Math.round(settings.quality * 100)]}
+            onValueChange={([quality]) => update({ quality: quality / 100 })}
+            disabled={!settings.enabled}
+          />
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default PhotoCompressionSettings;
@@ -0,0 +1,108 @@
+import { format } from "date-fns";
+import { ListChecks } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import {
+  mergePlanChecks,
+  PLAN_STATUS_LABELS,
+  PLAN_STATUSES,
+  PreviousPlan,
+} from "@/lib/planTracking";
+import { PlanCheck, PlanStatus } from "@/types/report";
+
+interface PlanReviewSectionProps {
+  previousPlan: PreviousPlan | null;
+  planChecks: PlanCheck[];
+  setPlanChecks: (checks: PlanCheck[]) => void;
+  readOnly?: boolean;
+}
+
+const STATUS_CLASSES: Record<PlanStatus, string> = {
+  done: "data-[state=on]:bg-success/15 data-[state=on]:text-success",
+  partial: "data-[state=on]:bg-warning/15 data-[state=on]:text-warning",
+  slipped: "data-[state=on]:bg-destructive/15 data-[state=on]:text-destructive",
+};
+
+const PlanReviewSection = ({
+  previousPlan,
+  planChecks,
+  setPlanChecks,
+  readOnly = false,
+}: PlanReviewSectionProps) => {
+  // Submitted reports show what was checked at the time
+  const checks = readOnly
+    ? planChecks
+    : mergePlanChecks(previousPlan?.items ?? [], planChecks);
+  if (checks.length === 0) return null;
+
+  const updateCheck = (id: string, changes: Partial<PlanCheck>) =>
+    setPlanChecks(checks.map((c) => (c.id === id ? { ...c, ...changes } : c)));
+
+  const assessed = checks.filter((c) => c.status).length;
+  const done = checks.filter((c) => c.status === "done").length;
+
+  return (
+    <div className="section-card p-6 animate-fade-in">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-2">
+          <div className="p-2 bg-primary/10 rounded-lg">
+            <ListChecks className="w-5 h-5 text-primary" />
+          </div>
+          <div>
+            <h2 className="text-lg font-semibold text-foreground">Planned vs Actual</h2>
+            <p className="text-sm text-muted-foreground">
+              {previousPlan
+                ? `Work plan from ${format(new Date(`${previousPlan.date}T00:00:00`), "PPP")}`
+                : "Work plan from the previous report"}
+            </p>
+          </div>
+        </div>
+        <p className="text-sm text-muted-foreground">
+          {done} of {checks.length} done
+          {assessed < checks.length && ` · ${checks.length - assessed} to check`}
+        </p>
+      </div>
+
+      <fieldset disabled={readOnly} className="min-w-0">
+        <ul className="divide-y divide-table-border rounded-lg border border-table-border">
+          {checks.map((check) => (
+            <li key={check.id} className="px-4 py-3 space-y-2">
+              <div className="flex flex-col sm:flex-row sm:items-center gap-2">
+                <p className="flex-1 text-sm text-foreground">{check.item}</p>
+                <ToggleGroup
+                  type="single"
+                  size="sm"
+                  variant="outline"
+                  value={check.status ?? ""}
+                  onValueChange={(value) =>
+                    updateCheck(check.id, {
+                      status: (value || undefined) as PlanStatus | undefined,
+                      reason: value === "done" ? undefined : check.reason,
+                    })
+                  }
+                  aria-label={`Status of ${check.item}`}
+                >
+                  {PLAN_STATUSES.map((status) => (
+                    <ToggleGroupItem key={status} value={status} className={STATUS_CLASSES[status]}>
+                      {PLAN_STATUS_LABELS[status]}
+                    </ToggleGroupItem>
+                  ))}
+                </ToggleGroup>
+              </div>
+              {(check.status === "partial" || check.status === "slipped") && (
+                <Input
+                  value={check.reason ?? ""}
+                  onChange={(e) => updateCheck(check.id, { reason: e.target.value })}
+                  placeholder="Reason, e.g. rain, materials late, crew short"
+                  aria-label={`Reason for ${check.item}`}
+                />
+              )}
+            </li>
+          ))}
+        </ul>
+      </fieldset>
+    </div>
+  );
+};
+
+export default PlanReviewSection;
@@ -1,5 +1,5 @@
 import { useState } from "react";
-import { CalendarIcon } from "lucide-react";
+import { CalendarIcon, Download } from "lucide-react";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import {
@@ -18,10 +18,17 @@ import {
 } from "@/components/ui/select";
 import { format } from "date-fns";
 import { cn } from "@/lib/utils";
+import ProjectPicker from "@/components/ProjectPicker";
+import WeatherImportDialog from "@/components/WeatherImportDialog";
+import { Project } from "@/types/project";
+import { DailyWeather } from "@/types/weather";
 
 interface ProjectInfoProps {
+  projects: Project[];
+  projectId: string;
   projectName: string;
-  setProjectName: (name: string) => void;
+  onSelectProject: (project: Project) => void;
+  onSaveProject: (project: Omit<Project, "id"> & { id?: string }) => Promise<Project>;
   reportDate: Date | undefined;
   setReportDate: (date: Date | undefined) => void;
   weatherAM: string;
@@ -34,11 +41,15 @@ interface ProjectInfoProps {
   setTempPM: (temp: string) => void;
   currentPeriod: "AM" | "PM";
   setCurrentPeriod: (period: "AM" | "PM") => void;
+  readOnly?: boolean;
 }
 
 const ProjectInfo = ({
+  projects,
+  projectId,
   projectName,
-  setProjectName,
+  onSelectProject,
+  onSaveProject,
   reportDate,
   setReportDate,
   weatherAM,
@@ -51,6 +62,7 @@ const ProjectInfo = ({
   setTempPM,
   currentPeriod,
   setCurrentPeriod,
+  readOnly = false,
 }: ProjectInfoProps) => {
   const weatherOptions = ["Sunny", "Cloudy", "Rainy"];
   
@@ -79,6 +91,17 @@ const ProjectInfo = ({
   const weatherSummary = `Weather      : AM ${weatherAM || ""}  |  PM ${weatherPM || ""}`;
   const tempSummary = `Temperature  : AM ${tempAM ? `${tempAM}°C` : ""}    |  PM ${tempPM ? `${tempPM}°C` : ""}`;
   const [isOpen, setIsOpen] = useState(false);
+  const [showImport, setShowImport] = useState(false);
+
+  const project = projects.find((p) => p.id === projectId);
+
+  // Periods without readings keep what was typed
+  const handleImportWeather = (weather: DailyWeather) => {
+    if (weather.weatherAM) setWeatherAM(weather.weatherAM);
+    if (weather.weatherPM) setWeatherPM(weather.weatherPM);
+    if (weather.tempAM) setTempAM(weather.tempAM);
+    if (weather.tempPM) setTempPM(weather.tempPM);
+  };
 
   // const weatherOptions = [
   //   { value: "Sunny", icon: Sun },
@@ -95,15 +118,19 @@ const ProjectInfo = ({
               htmlFor="projectName"
               className="text-sm font-medium text-foreground"
             >
-              Project Name *
+              Project *
             </Label>
-            <Input
-              id="projectName"
-              value={projectName}
-              onChange={(e) => setProjectName(e.target.value)}
-              placeholder="Enter project name..."
-              className="mt-1.5"
+            <ProjectPicker
+              projects={projects}
+              projectId={projectId}
+              onSelect={onSelectProject}
+              onSaveProject={onSaveProject}
             />
+            {!projectId && projectName && (
+              <p className="text-xs text-muted-foreground mt-1">
+                Saved under "{projectName}" — pick a project to link it.
+              </p>
+            )}
           </div>
 
           <div>
@@ -140,11 +167,25 @@ const ProjectInfo = ({
           </div>
         </div>
 
-        <div className="space-y-4">
+        {/* Project and date stay usable so other reports can be opened */}
+        <fieldset disabled={readOnly} className="space-y-4 min-w-0">
           <div>
-            <Label className="text-sm font-medium text-foreground">
-              Weather
-            </Label>
+            <div className="flex items-center justify-between">
+              <Label className="text-sm font-medium text-foreground">
+                Weather
+              </Label>
+              {!readOnly && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setShowImport(true)}
+                  className="h-7 text-primary hover:text-primary hover:bg-primary/10"
+                >
+                  <Download className="w-4 h-4 mr-1" />
+                  Import
+                </Button>
+              )}
+            </div>
             <div className="space-y-3 mt-1.5">
               {/* Input Row: Period, Weather Condition, Temperature */}
               <div className="flex items-center gap-3">
@@ -206,8 +247,16 @@ const ProjectInfo = ({
               </div>
             </div>
           </div>
-        </div>
+        </fieldset>
       </div>
+
+      <WeatherImportDialog
+        open={showImport}
+        onClose={() => setShowImport(false)}
+        reportDate={reportDate}
+        site={project?.location || project?.name || projectName}
+        onImport={handleImportWeather}
+      />
     </div>
   );
 };
@@ -0,0 +1,232 @@
+import { useEffect, useState } from "react";
+import { Pencil, Plus } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { Project } from "@/types/project";
+
+type ProjectDraft = Omit<Project, "id"> & { id?: string };
+
+const EMPTY_PROJECT: ProjectDraft = {
+  name: "",
+  code: "",
+  client: "",
+  location: "",
+  cacpmLogo: null,
+  koicaLogo: null,
+};
+
+interface ProjectDialogProps {
+  open: boolean;
+  onClose: () => void;
+  project: ProjectDraft;
+  onSave: (project: ProjectDraft) => Promise<void>;
+}
+
+const ProjectDialog = ({ open, onClose, project, onSave }: ProjectDialogProps) => {
+  const [draft, setDraft] = useState<ProjectDraft>(project);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (open) setDraft(project);
+  }, [open, project]);
+
+  const update = (field: keyof ProjectDraft, value: string | null) =>
+    setDraft((prev) => ({ ...prev, [field]: value }));
+
+  const handleLogoChange = (
+    e: React.ChangeEvent<HTMLInputElement>,
+    field: "cacpmLogo" | "koicaLogo"
+  ) => {
+    const file = e.target.files?.[0];
+    if (!file || !file.type.startsWith("image/")) return;
+    const reader = new FileReader();
+    reader.onload = () => update(field, String(reader.result));
+    reader.readAsDataURL(file);
+  };
+
+  const handleSave = async () => {
+    if (!draft.name.trim()) return;
+    setIsSaving(true);
+    try {
+      await onSave({ ...draft, name: draft.name.trim() });
+      onClose();
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const textFields: { field: "name" | "code" | "client" | "location"; label: string }[] = [
+    { field: "name", label: "Name *" },
+    { field: "code", label: "Code" },
+    { field: "client", label: "Client" },
+    { field: "location", label: "Location" },
+  ];
+
+  return (
+    <Dialog open={open} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-[480px]">
+        <DialogHeader>
+          <DialogTitle>{project.id ? "Edit Project" : "New Project"}</DialogTitle>
+          <DialogDescription>
+            Reports, drafts and running totals are kept separately per project.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="grid gap-4 py-2">
+          {textFields.map(({ field, label }) => (
+            <div key={field} className="grid grid-cols-4 items-center gap-4">
+              <Label htmlFor={`project-${field}`} className="text-right">
+                {label}
+              </Label>
+              <Input
+                id={`project-${field}`}
+                value={draft[field]}
+                onChange={(e) => update(field, e.target.value)}
+                className="col-span-3"
+              />
+            </div>
+          ))}
+          {(["cacpmLogo", "koicaLogo"] as const).map((field) => (
+            <div key={field} className="grid grid-cols-4 items-center gap-4">
+              <Label htmlFor={`project-${field}`} className="text-right">
+                {field === "cacpmLogo" ? "Left logo" : "Right logo"}
+              </Label>
+              <div className="col-span-3 flex items-center gap-2">
+                {draft[field] && (
+                  <img
+                    src={draft[field]!}
+                    alt=""
+                    className="h-8 w-16 object-contain border rounded"
+                  />
+                )}
+                <Input
+                  id={`project-${field}`}
+                  type="file"
+                  accept="image/*"
+                  onChange={(e) => handleLogoChange(e, field)}
+                />
+              </div>
+            </div>
+          ))}
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={!draft.name.trim() || isSaving}>
+            {isSaving ? "Saving..." : "Save Project"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+interface ProjectPickerProps {
+  projects: Project[];
+  projectId: string;
+  onSelect: (project: Project) => void;
+  onSaveProject: (project: ProjectDraft) => Promise<Project>;
+}
+
+const ProjectPicker = ({
+  projects,
+  projectId,
+  onSelect,
+  onSaveProject,
+}: ProjectPickerProps) => {
+  const { toast } = useToast();
+  const [dialogProject, setDialogProject] = useState<ProjectDraft | null>(null);
+  const selected = projects.find((p) => p.id === projectId);
+
+  const handleSave = async (draft: ProjectDraft) => {
+    try {
+      const saved = await onSaveProject(draft);
+      onSelect(saved);
+      toast({
+        title: "Project Saved",
+        description: `${saved.name} is now selected.`,
+      });
+    } catch (e) {
+      toast({
+        title: "Save Failed",
+        description: e instanceof Error ? e.message : "Could not save project.",
+        variant: "destructive",
+      });
+      throw e;
+    }
+  };
+
+  return (
+    <div>
+      <div className="flex items-center gap-2 mt-1.5">
+        <Select
+          value={projectId || undefined}
+          onValueChange={(id) => {
+            const project = projects.find((p) => p.id === id);
+            if (project) onSelect(project);
+          }}
+        >
+          <SelectTrigger id="projectName" className="flex-1">
+            <SelectValue placeholder="Select project..." />
+          </SelectTrigger>
+          <SelectContent>
+            {projects.map((p) => (
+              <SelectItem key={p.id} value={p.id}>
+                {p.code ? `${p.code} — ${p.name}` : p.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {selected && (
+          <Button
+            variant="outline"
+            size="icon"
+            onClick={() => setDialogProject(selected)}
+            aria-label="Edit project"
+          >
+            <Pencil className="w-4 h-4" />
+          </Button>
+        )}
+        <Button
+          variant="outline"
+          size="icon"
+          onClick={() => setDialogProject(EMPTY_PROJECT)}
+          aria-label="New project"
+        >
+          <Plus className="w-4 h-4" />
+        </Button>
+      </div>
+      {selected && (selected.client || selected.location) && (
+        <p className="text-xs text-muted-foreground mt-1">
+          {[selected.client, selected.location].filter(Boolean).join(" · ")}
+        </p>
+      )}
+
+      <ProjectDialog
+        open={dialogProject !== null}
+        onClose={() => setDialogProject(null)}
+        project={dialogProject ?? EMPTY_PROJECT}
+        onSave={handleSave}
+      />
+    </div>
+  );
+};
+
+export default ProjectPicker;
@@ -1,6 +1,7 @@
 import { useEffect, useState } from "react";
 import { Navigate } from "react-router-dom";
 import { API_ENDPOINTS } from "@/config/api";
+import { storeCurrentUser } from "@/lib/currentUser";
 
 interface ProtectedRouteProps {
   children: React.ReactNode;
@@ -26,6 +27,12 @@ const ProtectedRoute = ({ children }: ProtectedRouteProps) => {
           },
         });
 
+        // Keep the cached user (and role) in sync with the backend
+        if (response.ok) {
+          const result = await response.json().catch(() => null);
+          storeCurrentUser(result?.user);
+        }
+
         setIsAuthenticated(response.ok);
       } catch (err) {
         console.error("Auth verification failed:", err);
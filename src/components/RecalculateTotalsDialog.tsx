@@ -0,0 +1,200 @@
+import { useEffect, useState } from "react";
+import { format } from "date-fns";
+import { Loader2, Lock } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { useToast } from "@/hooks/use-toast";
+import { REVIEW_TARGET_LABELS } from "@/lib/reviewWorkflow";
+import {
+  applyRunningTotals,
+  loadLaterReports,
+  recomputeRunningTotals,
+  ReportRecalc,
+} from "@/lib/runningTotals";
+import { ReportData } from "@/types/report";
+
+interface RecalculateTotalsDialogProps {
+  onClose: () => void;
+  // The edited report as saved when the dialog was opened
+  startReport: ReportData | null;
+  startDate: string; // YYYY-MM-DD
+  projectId?: string;
+  projectName?: string;
+}
+
+const RecalculateTotalsDialog = ({
+  onClose,
+  startReport,
+  startDate,
+  projectId,
+  projectName,
+}: RecalculateTotalsDialogProps) => {
+  const { toast } = useToast();
+  const [recalcs, setRecalcs] = useState<ReportRecalc[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isApplying, setIsApplying] = useState(false);
+
+  useEffect(() => {
+    if (!startReport) return;
+
+    let cancelled = false;
+    setIsLoading(true);
+    setRecalcs([]);
+    loadLaterReports(startDate, projectId, projectName)
+      .then((later) => {
+        if (!cancelled) setRecalcs(recomputeRunningTotals(startReport, later));
+      })
+      .catch((e) => {
+        if (cancelled) return;
+        toast({
+          title: "Could not load later reports",
+          description: e instanceof Error ? e.message : "Please try again later.",
+          variant: "destructive",
+        });
+      })
+      .finally(() => !cancelled && setIsLoading(false));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [startReport, startDate, projectId, projectName, toast]);
+
+  const lockedCount = recalcs.filter((r) => r.locked).length;
+
+  const handleApply = async () => {
+    setIsApplying(true);
+    try {
+      const { saved, queued, skipped } = await applyRunningTotals(recalcs, projectId);
+      toast({
+        title: "Running Totals Updated",
+        description: [
+          `${saved} report(s) updated`,
+          queued && `${queued} queued until you reconnect`,
+          skipped.length && `${skipped.length} locked report(s) need an amendment`,
+        ]
+          .filter(Boolean)
+          .join(", ") + ".",
+      });
+      onClose();
+    } catch (e) {
+      toast({
+        title: "Recalculation Failed",
+        description: e instanceof Error ? e.message : "Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsApplying(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!startReport} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-[720px]">
+        <DialogHeader>
+          <DialogTitle>Recalculate Running Totals</DialogTitle>
+          <DialogDescription>
+            Carries this report's totals forward through every later report of
+            the project. Review the changes before applying them.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex justify-center py-12">
+            <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : recalcs.length === 0 ? (
+          <p className="py-8 text-center text-sm text-muted-foreground">
+            All later reports already match this report's totals.
+          </p>
+        ) : (
+          <ScrollArea className="h-[400px] pr-3">
+            <div className="space-y-4">
+              {recalcs.map((recalc) => (
+                <div key={recalc.date} className="rounded-md border">
+                  <div className="flex items-center justify-between bg-muted/50 px-3 py-2 text-sm">
+                    <span className="font-medium">
+                      {format(new Date(`${recalc.date}T00:00:00`), "PPP")}
+                    </span>
+                    <span className="flex items-center gap-1 text-xs text-muted-foreground">
+                      {recalc.locked ? (
+                        <>
+                          <Lock className="w-3 h-3" />
+                          Locked — later days continue from its totals
+                        </>
+                      ) : recalc.source === "local" ? (
+                        "Local draft"
+                      ) : (
+                        "Saved report"
+                      )}
+                    </span>
+                  </div>
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="text-muted-foreground">
+                        <th className="text-left px-3 py-1.5 font-medium">Table</th>
+                        <th className="text-left px-3 py-1.5 font-medium">Description</th>
+                        <th className="text-center px-3 py-1.5 font-medium">Prev</th>
+                        <th className="text-center px-3 py-1.5 font-medium">Accum</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {recalc.changes.map((change, idx) => (
+                        <tr key={idx} className="border-t">
+                          <td className="px-3 py-1.5 text-muted-foreground">
+                            {REVIEW_TARGET_LABELS[change.table]}
+                          </td>
+                          <td className="px-3 py-1.5">
+                            {change.description}
+                            {change.unit && (
+                              <span className="text-muted-foreground"> ({change.unit})</span>
+                            )}
+                          </td>
+                          <td className="px-3 py-1.5 text-center font-mono text-xs">
+                            {change.before.prev} → {change.after.prev}
+                          </td>
+                          <td className="px-3 py-1.5 text-center font-mono text-xs">
+                            {change.before.accumulated} → {change.after.accumulated}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              ))}
+            </div>
+          </ScrollArea>
+        )}
+
+        {lockedCount > 0 && (
+          <p className="text-sm text-warning">
+            {lockedCount} locked report(s) will not be changed, and the days
+            after each one continue from the totals it was submitted with. Amend
+            them, then recalculate again, to carry the correction through.
+          </p>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleApply}
+            disabled={isLoading || isApplying || recalcs.length === lockedCount}
+          >
+            {isApplying ? "Applying..." : "Apply Changes"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default RecalculateTotalsDialog;
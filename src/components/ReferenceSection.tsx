@@ -1,26 +1,48 @@
-import React from "react";
+import React, { useState } from "react";
 import SectionList from "./reference/SectionList";
-import { createReferenceSection } from "@/utils/referenceHelpers";
+import { createReferenceSection, moveItem, swapSlots } from "@/utils/referenceHelpers";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
-import { Image, PlusCircle, Image as ImageIcon, FileDown, FileText, FileSpreadsheet, FileType } from "lucide-react";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Image, PlusCircle, Image as ImageIcon, FileDown, FileText, FileSpreadsheet, FileType, Move } from "lucide-react";
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
+import ReviewComments from "./ReviewComments";
+import PhotoCompressionSettings from "./PhotoCompressionSettings";
+import { ReviewComment } from "@/types/report";
 
 interface Props {
   sections: any[];
-  setSections: (s: any[]) => void;
+  setSections: React.Dispatch<React.SetStateAction<any[]>>;
   onExportReference?: () => void;
   isExporting?: boolean;
   tableTitle?: string;
   setTableTitle?: (title: string) => void;
+  reviewComments?: ReviewComment[];
+  readOnly?: boolean;
+  // Used to flag photos taken on another day
+  reportDate?: Date;
+  photoMetadataInCaptions?: boolean;
+  setPhotoMetadataInCaptions?: (value: boolean) => void;
 }
 
-export default function ReferenceSection({ sections, setSections, onExportReference, isExporting = false, tableTitle, setTableTitle }: Props) {
-  const addSection = () => setSections([...sections, createReferenceSection()]);
+export default function ReferenceSection({ sections, setSections, onExportReference, isExporting = false, tableTitle, setTableTitle, reviewComments, readOnly = false, reportDate, photoMetadataInCaptions = false, setPhotoMetadataInCaptions }: Props) {
+  // Updaters work on the latest list, so a slow photo import doesn't undo edits made meanwhile
+  const addSection = () => setSections((prev) => [...prev, createReferenceSection()]);
 
-  const updateSection = (updated: any) => setSections(sections.map((s) => (s.id === updated.id ? updated : s)));
+  const updateSection = (updated: any) => setSections((prev) => prev.map((s) => (s.id === updated.id ? updated : s)));
 
-  const deleteSection = (id: string) => setSections(sections.filter((s) => s.id !== id));
+  const deleteSection = (id: string) => setSections((prev) => prev.filter((s) => s.id !== id));
+
+  const moveSection = (id: string, toIndex: number) => setSections((prev) => moveItem(prev, id, toIndex));
+
+  // Slot whose photo was picked up with the keyboard, waiting for a destination
+  const [movingSlotId, setMovingSlotId] = useState<string | null>(null);
+
+  const moveSlot = (fromId: string, toId: string) => {
+    setSections((prev) => swapSlots(prev, fromId, toId));
+    setMovingSlotId(null);
+  };
 
   return (
     <div className="section-card p-6">
@@ -47,10 +69,13 @@ export default function ReferenceSection({ sections, setSections, onExportRefere
            
           </div>
 
-          <Button onClick={addSection} className="bg-primary hover:bg-primary/90 inline-flex items-center gap-2"><PlusCircle className="w-4 h-4" />Add Section</Button>
+          {!readOnly && <PhotoCompressionSettings />}
+          {!readOnly && <Button onClick={addSection} className="bg-primary hover:bg-primary/90 inline-flex items-center gap-2"><PlusCircle className="w-4 h-4" />Add Section</Button>}
         </div>
       </div>
 
+      <ReviewComments comments={reviewComments} />
+
       <div className="mt-4">
         {/* Visual-only Table Title (UI placeholder only; no state/wiring) */}
         <div className="mb-6">
@@ -59,12 +84,40 @@ export default function ReferenceSection({ sections, setSections, onExportRefere
             placeholder="Enter table title (visual only)" 
             value={tableTitle || ""}
             onChange={(e) => setTableTitle?.(e.target.value)}
+            readOnly={readOnly}
           />
         </div>
 
+        {setPhotoMetadataInCaptions && (
+          <div className="mb-6 flex items-center gap-3">
+            <Switch
+              id="photo-metadata-captions"
+              checked={photoMetadataInCaptions}
+              onCheckedChange={setPhotoMetadataInCaptions}
+              disabled={readOnly}
+            />
+            <Label htmlFor="photo-metadata-captions" className="text-sm text-muted-foreground">
+              Print photo time and location next to captions in exports
+            </Label>
+          </div>
+        )}
+
         <div className="border-t border-muted-foreground/20 mb-4" />
 
-        <SectionList sections={sections} onUpdate={updateSection} onDelete={deleteSection} onAdd={addSection} />
+        <p className="sr-only" aria-live="polite">
+          {movingSlotId ? "Photo picked up. Go to another photo's move button and press Enter to swap them, or Escape to cancel." : ""}
+        </p>
+        {movingSlotId && (
+          <div className="mb-4 flex items-center justify-between gap-3 rounded-md border border-primary/30 bg-primary/5 px-4 py-2 text-sm">
+            <span className="flex items-center gap-2 text-foreground">
+              <Move className="w-4 h-4 text-primary" />
+              Choose where to move the photo using the move button of another slot.
+            </span>
+            <Button variant="ghost" size="sm" onClick={() => setMovingSlotId(null)}>Cancel</Button>
+          </div>
+        )}
+
+        <SectionList sections={sections} onUpdate={updateSection} onDelete={deleteSection} onAdd={addSection} onMove={moveSection} movingSlotId={movingSlotId} onPickSlot={setMovingSlotId} onMoveSlot={moveSlot} readOnly={readOnly} reportDate={reportDate} />
       </div>
     </div>
   );
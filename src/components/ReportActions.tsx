@@ -4,6 +4,9 @@ import {
   FileSpreadsheet,
   FileText,
   FileType,
+  FilePen,
+  History,
+  ListRestart,
   Send,
   Trash2,
 } from "lucide-react";
@@ -38,6 +41,11 @@ interface ReportActionsProps {
   isPreviewing?: boolean;
   isExporting?: boolean;
   isSubmitting?: boolean;
+  // Submitted reports are read-only until amended
+  isLocked?: boolean;
+  onAmend?: () => void;
+  onShowHistory?: () => void;
+  onRecalculateTotals?: () => void;
 }
 
 const ReportActions = ({
@@ -52,6 +60,10 @@ const ReportActions = ({
   isPreviewing,
   isExporting,
   isSubmitting,
+  isLocked = false,
+  onAmend,
+  onShowHistory,
+  onRecalculateTotals,
 }: ReportActionsProps) => {
   return (
     <div className="flex items-center justify-between py-6 border-t border-border mt-6">
@@ -87,7 +99,6 @@ const ReportActions = ({
         </AlertDialog>
         */}
 
-        {/* DISABLED: Preview button - commented out to disable
         <Button
           variant="outline"
           onClick={onPreview}
@@ -97,20 +108,48 @@ const ReportActions = ({
           <Eye className="w-4 h-4 mr-2" />
           {isPreviewing ? "Loading..." : "Preview"}
         </Button>
-        */}
 
-      
+        {onRecalculateTotals && (
+          <Button
+            variant="outline"
+            onClick={onRecalculateTotals}
+            className="min-w-[120px]"
+          >
+            <ListRestart className="w-4 h-4 mr-2" />
+            Recalculate Totals
+          </Button>
+        )}
 
-        {/* DISABLED: Submit button - commented out to disable
-        <Button
-          onClick={onSubmit}
-          disabled={isSubmitting}
-          className="min-w-[120px] bg-green-600 hover:bg-green-700"
-        >
-          <Send className="w-4 h-4 mr-2" />
-          {isSubmitting ? "Submitting..." : "Submit"}
-        </Button>
-        */}
+        {onShowHistory && (
+          <Button
+            variant="outline"
+            onClick={onShowHistory}
+            className="min-w-[120px]"
+          >
+            <History className="w-4 h-4 mr-2" />
+            Versions
+          </Button>
+        )}
+
+        {isLocked ? (
+          <Button
+            variant="outline"
+            onClick={onAmend}
+            className="min-w-[120px]"
+          >
+            <FilePen className="w-4 h-4 mr-2" />
+            Amend
+          </Button>
+        ) : (
+          <Button
+            onClick={onSubmit}
+            disabled={isSubmitting}
+            className="min-w-[120px] bg-green-600 hover:bg-green-700"
+          >
+            <Send className="w-4 h-4 mr-2" />
+            {isSubmitting ? "Submitting..." : "Submit"}
+          </Button>
+        )}
       </div>
     </div>
   );
@@ -1,11 +1,25 @@
 import { useState, useEffect, useRef } from "react";
+import { Link, useLocation } from "react-router-dom";
+import { BarChart3, ClipboardCheck, FilePlus, History } from "lucide-react";
+import { Button } from "@/components/ui/button";
 import LogoutButton from "./LogoutButton";
+import SyncStatusIndicator from "./SyncStatusIndicator";
+import { Project } from "@/types/project";
+import { getCurrentUser } from "@/lib/currentUser";
+import { REVIEW_STEPS } from "@/lib/reviewWorkflow";
 
-const ReportHeader = () => {
+interface ReportHeaderProps {
+  // Project logos take precedence over the uploaded header logos
+  project?: Project | null;
+}
+
+const ReportHeader = ({ project }: ReportHeaderProps) => {
   const [cacpmLogo, setCacpmLogo] = useState<string>("/cacpm_logo.png");
   const [koicaLogo, setKoicaLogo] = useState<string>("/koica_logo.png");
   const cacpmInputRef = useRef<HTMLInputElement>(null);
   const koicaInputRef = useRef<HTMLInputElement>(null);
+  const { pathname } = useLocation();
+  const role = getCurrentUser()?.role;
 
   // Load custom logos from localStorage on mount
   useEffect(() => {
@@ -67,7 +81,7 @@ const ReportHeader = () => {
           title="Click to replace CACPM logo"
         >
           <img
-            src={cacpmLogo}
+            src={project?.cacpmLogo || cacpmLogo}
             alt="CACPM"
             className="object-contain w-full h-full"
             crossOrigin="anonymous"
@@ -83,6 +97,42 @@ const ReportHeader = () => {
         </div>
 
         <div className="flex items-center space-x-4">
+          <SyncStatusIndicator />
+          {role && REVIEW_STEPS[role] && pathname !== "/review" && (
+            <Button variant="secondary" size="sm" asChild>
+              <Link to="/review">
+                <ClipboardCheck className="mr-2 h-4 w-4" />
+                Review
+              </Link>
+            </Button>
+          )}
+          {pathname !== "/dashboard" && (
+            <Button variant="secondary" size="sm" asChild>
+              <Link
+                to={`/dashboard${
+                  project ? `?project=${encodeURIComponent(project.id)}` : ""
+                }`}
+              >
+                <BarChart3 className="mr-2 h-4 w-4" />
+                Dashboard
+              </Link>
+            </Button>
+          )}
+          {pathname === "/reports" ? (
+            <Button variant="secondary" size="sm" asChild>
+              <Link to="/">
+                <FilePlus className="mr-2 h-4 w-4" />
+                Report
+              </Link>
+            </Button>
+          ) : (
+            <Button variant="secondary" size="sm" asChild>
+              <Link to="/reports">
+                <History className="mr-2 h-4 w-4" />
+                History
+              </Link>
+            </Button>
+          )}
           <LogoutButton />
           <div
             className="p-0 rounded-lg overflow-hidden cursor-pointer hover:opacity-80 transition-opacity"
@@ -91,7 +141,7 @@ const ReportHeader = () => {
             title="Click to replace KOICA logo"
           >
             <img
-              src={koicaLogo}
+              src={project?.koicaLogo || koicaLogo}
               alt="KOICA"
               className="object-contain w-full h-full"
               crossOrigin="anonymous"
@@ -0,0 +1,159 @@
+import { ReactNode } from "react";
+import { format } from "date-fns";
+import { CalendarCheck, ClipboardList, Image, Package, Truck, Users, Wrench } from "lucide-react";
+import { ResourceRow } from "./ResourceTable";
+import SignatureSection from "./SignatureSection";
+import { ReportData, ReviewTarget } from "@/types/report";
+import { toReportDay } from "@/lib/storageUtils";
+
+interface ReportReadOnlyProps {
+  report: ReportData;
+  // Extra content (e.g. reviewer comment boxes) rendered under each part
+  renderFooter?: (target: ReviewTarget) => ReactNode;
+}
+
+const RESOURCE_TABLES: {
+  target: "managementTeam" | "workingTeam" | "materials" | "machinery";
+  title: string;
+  icon: ReactNode;
+  showUnit?: boolean;
+}[] = [
+  { target: "managementTeam", title: "Site Management Team", icon: <Users className="w-5 h-5 text-primary" /> },
+  { target: "workingTeam", title: "Site Working Team", icon: <Wrench className="w-5 h-5 text-accent" /> },
+  { target: "materials", title: "Materials Deliveries", icon: <Package className="w-5 h-5 text-warning" />, showUnit: true },
+  { target: "machinery", title: "Machinery & Equipment", icon: <Truck className="w-5 h-5 text-success" />, showUnit: true },
+];
+
+const ReadOnlyTable = ({ rows, showUnit }: { rows: ResourceRow[]; showUnit?: boolean }) => (
+  <table className="w-full text-sm">
+    <thead>
+      <tr className="bg-muted/50 text-muted-foreground">
+        <th className="text-left px-4 py-2 font-medium">Description</th>
+        {showUnit && <th className="text-center px-4 py-2 font-medium">Unit</th>}
+        <th className="text-center px-4 py-2 font-medium">Prev</th>
+        <th className="text-center px-4 py-2 font-medium">Today</th>
+        <th className="text-center px-4 py-2 font-medium">Accum</th>
+      </tr>
+    </thead>
+    <tbody>
+      {rows.length === 0 ? (
+        <tr>
+          <td colSpan={showUnit ? 5 : 4} className="text-center py-6 text-muted-foreground">
+            No entries.
+          </td>
+        </tr>
+      ) : (
+        rows.map((row) => (
+          <tr key={row.id} className="border-t border-table-border">
+            <td className="px-4 py-2">{row.description}</td>
+            {showUnit && <td className="text-center px-4 py-2">{row.unit}</td>}
+            <td className="text-center px-4 py-2">{row.prev}</td>
+            <td className="text-center px-4 py-2">{row.today}</td>
+            <td className="text-center px-4 py-2 font-medium">{row.accumulated}</td>
+          </tr>
+        ))
+      )}
+    </tbody>
+  </table>
+);
+
+// Submitted report as reviewers see it: same layout as the form, nothing editable
+const ReportReadOnly = ({ report, renderFooter }: ReportReadOnlyProps) => {
+  const weather = [
+    report.weatherAM && `AM: ${report.weatherAM}${report.tempAM ? ` (${report.tempAM}°C)` : ""}`,
+    report.weatherPM && `PM: ${report.weatherPM}${report.tempPM ? ` (${report.tempPM}°C)` : ""}`,
+  ].filter(Boolean);
+
+  const photos = (report.referenceSections ?? []).map((section) => ({
+    title: section.title,
+    slots: section.entries
+      .flatMap((entry) => entry.slots ?? [])
+      .filter((slot) => typeof slot.image === "string" || slot.caption),
+  }));
+
+  return (
+    <div className="space-y-6">
+      <div className="section-card p-6 grid sm:grid-cols-3 gap-4 text-sm">
+        <div>
+          <p className="text-muted-foreground">Project</p>
+          <p className="font-medium">{report.projectName || "—"}</p>
+        </div>
+        <div>
+          <p className="text-muted-foreground">Date</p>
+          <p className="font-medium">
+            {report.reportDate
+              ? format(new Date(`${toReportDay(report.reportDate)}T00:00:00`), "PPP")
+              : "—"}
+          </p>
+        </div>
+        <div>
+          <p className="text-muted-foreground">Weather</p>
+          <p className="font-medium">{weather.length ? weather.join(", ") : "—"}</p>
+        </div>
+        {renderFooter && <div className="sm:col-span-3">{renderFooter("general")}</div>}
+      </div>
+
+      <div className="space-y-3">
+        <div className="grid md:grid-cols-2 gap-6">
+          {[
+            { title: "Working Activity Today", text: report.activityToday, icon: <ClipboardList className="w-5 h-5 text-primary" /> },
+            { title: "Work Plan for Next Day", text: report.workPlanNextDay, icon: <CalendarCheck className="w-5 h-5 text-accent" /> },
+          ].map(({ title, text, icon }) => (
+            <div key={title} className="section-card p-6">
+              <div className="flex items-center gap-2 mb-3">
+                {icon}
+                <h2 className="text-lg font-semibold text-foreground">{title}</h2>
+              </div>
+              <p className="whitespace-pre-wrap text-sm">{text || "—"}</p>
+            </div>
+          ))}
+        </div>
+        {renderFooter?.("activities")}
+      </div>
+
+      <div className="grid lg:grid-cols-2 gap-4">
+        {RESOURCE_TABLES.map(({ target, title, icon, showUnit }) => (
+          <div key={target} className="section-card overflow-hidden">
+            <div className="bg-table-header px-4 py-3 border-b border-table-border flex items-center gap-2">
+              {icon}
+              <h3 className="font-semibold text-foreground">{title}</h3>
+            </div>
+            <ReadOnlyTable rows={report[target] ?? []} showUnit={showUnit} />
+            {renderFooter && <div className="p-3 border-t">{renderFooter(target)}</div>}
+          </div>
+        ))}
+      </div>
+
+      <div className="section-card p-6 space-y-4">
+        <div className="flex items-center gap-2">
+          <Image className="w-5 h-5 text-primary" />
+          <h2 className="text-lg font-semibold text-foreground">Reference</h2>
+        </div>
+        {photos.every((s) => s.slots.length === 0) ? (
+          <p className="text-sm text-muted-foreground">No reference photos.</p>
+        ) : (
+          photos.map((section, idx) => (
+            <div key={idx}>
+              <h3 className="font-medium mb-2">{section.title}</h3>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                {section.slots.map((slot, i) => (
+                  <figure key={slot.id ?? i}>
+                    {typeof slot.image === "string" && (
+                      <img src={slot.image} alt={slot.caption || ""} className="w-full aspect-[4/3] object-cover rounded-lg border" />
+                    )}
+                    <figcaption className="text-xs text-center mt-1 text-muted-foreground">{slot.caption}</figcaption>
+                  </figure>
+                ))}
+              </div>
+            </div>
+          ))
+        )}
+        {renderFooter?.("reference")}
+      </div>
+
+      <SignatureSection signatures={report.signatures ?? []} readOnly />
+    </div>
+  );
+};
+
+export default ReportReadOnly;
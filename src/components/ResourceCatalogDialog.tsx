@@ -0,0 +1,217 @@
+import { useEffect, useState } from "react";
+import { Plus, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { RESOURCE_TABLE_KEYS } from "@/lib/reportDiff";
+import { REVIEW_TARGET_LABELS } from "@/lib/reviewWorkflow";
+import { CatalogItem, ResourceCatalog } from "@/types/catalog";
+import { ResourceTableKey } from "@/types/report";
+
+interface ResourceCatalogDialogProps {
+  open: boolean;
+  onClose: () => void;
+  projectName?: string;
+  catalog: ResourceCatalog;
+  onSave: (catalog: ResourceCatalog) => Promise<void>;
+}
+
+const ResourceCatalogDialog = ({
+  open,
+  onClose,
+  projectName,
+  catalog,
+  onSave,
+}: ResourceCatalogDialogProps) => {
+  const [draft, setDraft] = useState<ResourceCatalog>(catalog);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (open) setDraft(catalog);
+  }, [open, catalog]);
+
+  const updateItems = (
+    key: ResourceTableKey,
+    update: (items: CatalogItem[]) => CatalogItem[]
+  ) => setDraft((prev) => ({ ...prev, [key]: update(prev[key]) }));
+
+  const updateItem = (
+    key: ResourceTableKey,
+    id: string,
+    field: keyof Omit<CatalogItem, "id">,
+    value: string
+  ) =>
+    updateItems(key, (items) =>
+      items.map((item) => (item.id === id ? { ...item, [field]: value } : item))
+    );
+
+  const handleSave = async () => {
+    // Entries without a description are dropped rather than saved blank
+    const cleaned = Object.fromEntries(
+      RESOURCE_TABLE_KEYS.map((key) => [
+        key,
+        draft[key]
+          .map((item) => ({
+            ...item,
+            description: item.description.trim(),
+            unit: item.unit?.trim() || undefined,
+            category: item.category?.trim() || undefined,
+          }))
+          .filter((item) => item.description),
+      ])
+    ) as ResourceCatalog;
+
+    setIsSaving(true);
+    try {
+      await onSave(cleaned);
+      onClose();
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-[720px]">
+        <DialogHeader>
+          <DialogTitle>Resource Catalog</DialogTitle>
+          <DialogDescription>
+            Trades, materials and equipment suggested while filling in the
+            resource tables{projectName ? ` for ${projectName}` : ""}.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Tabs defaultValue={RESOURCE_TABLE_KEYS[0]}>
+          <TabsList className="grid w-full grid-cols-4">
+            {RESOURCE_TABLE_KEYS.map((key) => (
+              <TabsTrigger key={key} value={key} className="text-xs sm:text-sm">
+                {REVIEW_TARGET_LABELS[key].replace(/^Site /, "")}
+                <span className="ml-1 text-muted-foreground">
+                  ({draft[key].length})
+                </span>
+              </TabsTrigger>
+            ))}
+          </TabsList>
+
+          {RESOURCE_TABLE_KEYS.map((key) => (
+            <TabsContent key={key} value={key}>
+              <ScrollArea className="h-[320px] rounded-md border">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="bg-muted/50 text-muted-foreground">
+                      <th className="text-left px-3 py-2 font-medium w-[50%]">
+                        Description
+                      </th>
+                      <th className="text-left px-3 py-2 font-medium w-[18%]">
+                        Default Unit
+                      </th>
+                      <th className="text-left px-3 py-2 font-medium">
+                        Category
+                      </th>
+                      <th className="w-10"></th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {draft[key].length === 0 ? (
+                      <tr>
+                        <td
+                          colSpan={4}
+                          className="text-center py-8 text-muted-foreground"
+                        >
+                          No catalog entries yet.
+                        </td>
+                      </tr>
+                    ) : (
+                      draft[key].map((item) => (
+                        <tr key={item.id} className="border-t">
+                          <td className="px-2 py-1">
+                            <Input
+                              value={item.description}
+                              onChange={(e) =>
+                                updateItem(key, item.id, "description", e.target.value)
+                              }
+                              placeholder="Description"
+                              className="h-8"
+                            />
+                          </td>
+                          <td className="px-2 py-1">
+                            <Input
+                              value={item.unit || ""}
+                              onChange={(e) =>
+                                updateItem(key, item.id, "unit", e.target.value)
+                              }
+                              placeholder="Unit"
+                              className="h-8"
+                            />
+                          </td>
+                          <td className="px-2 py-1">
+                            <Input
+                              value={item.category || ""}
+                              onChange={(e) =>
+                                updateItem(key, item.id, "category", e.target.value)
+                              }
+                              placeholder="Category"
+                              className="h-8"
+                            />
+                          </td>
+                          <td className="px-1 py-1">
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              onClick={() =>
+                                updateItems(key, (items) =>
+                                  items.filter((i) => i.id !== item.id)
+                                )
+                              }
+                              className="h-8 w-8 text-muted-foreground hover:text-destructive hover:bg-destructive/10"
+                            >
+                              <Trash2 className="w-4 h-4" />
+                            </Button>
+                          </td>
+                        </tr>
+                      ))
+                    )}
+                  </tbody>
+                </table>
+              </ScrollArea>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() =>
+                  updateItems(key, (items) => [
+                    ...items,
+                    { id: crypto.randomUUID(), description: "" },
+                  ])
+                }
+                className="mt-2 text-primary hover:text-primary hover:bg-primary/10"
+              >
+                <Plus className="w-4 h-4 mr-1" />
+                Add Entry
+              </Button>
+            </TabsContent>
+          ))}
+        </Tabs>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={isSaving}>
+            {isSaving ? "Saving..." : "Save Catalog"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ResourceCatalogDialog;
@@ -1,15 +1,28 @@
-import { Plus, Trash2, ChevronLeft, X } from "lucide-react";
+import { Plus, Trash2, ChevronLeft, ArrowLeftRight } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import {
-  Select,
-  SelectContent,
-  SelectItem,
-  SelectTrigger,
-  SelectValue,
-} from "@/components/ui/select";
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
 import { useEffect } from "react";
 import { Cancel } from "@radix-ui/react-alert-dialog";
+import ReviewComments from "./ReviewComments";
+import CatalogAutocomplete from "./CatalogAutocomplete";
+import { ResourceTableKey, ReviewComment } from "@/types/report";
+import { CatalogItem } from "@/types/catalog";
+import {
+  compatibleUnits,
+  convertRow,
+  isCountTable,
+  parseQuantity,
+  resourceRowId,
+  roundQuantity,
+  validateResourceRow,
+} from "@/lib/resourceValidation";
 
 export interface ResourceRow {
   id: string;
@@ -22,22 +35,28 @@ export interface ResourceRow {
 
 interface ResourceTableProps {
   title: string;
+  table: ResourceTableKey; // Picks the validation rules and row ids
   icon: React.ReactNode;
   rows: ResourceRow[];
   setRows: (rows: ResourceRow[]) => void;
   showUnit?: boolean;
-  useDropdown?: boolean; // New prop to enable dropdown
-  dropdownOptions?: string[]; // Options for dropdown
+  catalog?: CatalogItem[]; // Suggestions for the description column
+  onAddToCatalog?: (item: Omit<CatalogItem, "id">) => void;
+  comments?: ReviewComment[]; // Reviewer comments pinned to this table
+  readOnly?: boolean; // Submitted reports can't be edited
 }
 
 const ResourceTable = ({
   title,
+  table,
   icon,
   rows,
   setRows,
   showUnit = false,
-  useDropdown = false,
-  dropdownOptions = [],
+  catalog = [],
+  onAddToCatalog,
+  comments,
+  readOnly = false,
 }: ResourceTableProps) => {
   const addRow = () => {
     const newRow: ResourceRow = {
@@ -63,16 +82,12 @@ const ResourceTable = ({
     setRows(
       rows.map((row) => {
         if (row.id === id) {
-          // Handle custom entry selection
-          if (field === "description" && value === "__custom__") {
-            return { ...row, description: "" }; // Clear to allow typing
-          }
-
           const updatedRow = { ...row, [field]: value };
           if (field === "prev" || field === "today") {
-            const prev = field === "prev" ? Number(value) : row.prev;
-            const today = field === "today" ? Number(value) : row.today;
-            updatedRow.accumulated = prev + today;
+            const prev = field === "prev" ? parseQuantity(value) : row.prev;
+            const today = field === "today" ? parseQuantity(value) : row.today;
+            updatedRow[field] = field === "prev" ? prev : today;
+            updatedRow.accumulated = roundQuantity(prev + today);
           }
           return updatedRow;
         }
@@ -81,6 +96,27 @@ const ResourceTable = ({
     );
   };
 
+  // Quantities follow the unit, e.g. 2.5 t becomes 2500 kg. Units that would
+  // round a quantity away are disabled in the menu.
+  const changeUnit = (id: string, unit: string) => {
+    setRows(rows.map((row) => (row.id === id ? convertRow(row, unit) ?? row : row)));
+  };
+
+  // Picking a catalog entry also fills in its default unit
+  const selectCatalogItem = (id: string, item: CatalogItem) => {
+    setRows(
+      rows.map((row) =>
+        row.id === id
+          ? {
+              ...row,
+              description: item.description,
+              unit: showUnit && item.unit ? item.unit : row.unit,
+            }
+          : row
+      )
+    );
+  };
+
   useEffect(() => {
     // 🔹 Check row IDs
     if (rows && rows.length > 0) {
@@ -91,16 +127,21 @@ const ResourceTable = ({
       }
     }
 
-    // 🔹 Check dropdown options
-    if (dropdownOptions && dropdownOptions.length > 0) {
-      const duplicates = dropdownOptions.filter(
-        (item, index) => dropdownOptions.indexOf(item) !== index
+    // 🔹 Check catalog entries
+    if (catalog.length > 0) {
+      const names = catalog.map((item) => item.description.toLowerCase());
+      const duplicates = names.filter(
+        (name, index) => names.indexOf(name) !== index
       );
       if (duplicates.length > 0) {
-        console.warn("Duplicate dropdown options found!", duplicates);
+        console.warn("Duplicate catalog entries found!", duplicates);
       }
     }
-  }, [rows, dropdownOptions]);
+  }, [rows, catalog]);
+
+  const wholeNumbers = isCountTable(table);
+  const errorText = (message?: string) =>
+    message ? <p className="mt-1 text-xs text-destructive text-center">{message}</p> : null;
 
   const ids = rows.map((r) => r.id);
   const hasDuplicates = new Set(ids).size !== ids.length;
@@ -115,18 +156,22 @@ const ResourceTable = ({
           {icon}
           <h3 className="font-semibold text-foreground">{title}</h3>
         </div>
-        <Button
-          variant="ghost"
-          size="sm"
-          onClick={addRow}
-          className="text-primary hover:text-primary hover:bg-primary/10"
-        >
-          <Plus className="w-4 h-4 mr-1" />
-          Add Row
-        </Button>
+        {!readOnly && (
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={addRow}
+            className="text-primary hover:text-primary hover:bg-primary/10"
+          >
+            <Plus className="w-4 h-4 mr-1" />
+            Add Row
+          </Button>
+        )}
       </div>
 
-      <div className="overflow-x-auto">
+      <ReviewComments comments={comments} className="m-3" />
+
+      <fieldset disabled={readOnly} className="overflow-x-auto min-w-0">
         <table className="w-full">
           <thead>
             <tr className="bg-muted/50">
@@ -157,7 +202,9 @@ const ResourceTable = ({
                   colSpan={showUnit ? 6 : 5}
                   className="text-center py-8 text-muted-foreground"
                 >
-                  No entries yet. Click "Add Row" to begin.
+                  {readOnly
+                    ? "No entries."
+                    : 'No entries yet. Click "Add Row" to begin.'}
                 </td>
               </tr>
             ) : (
@@ -165,136 +212,141 @@ const ResourceTable = ({
                 {rows.map(
                   (
                     row // 1. Update the row map key
-                  ) => (
-                    <tr
-                      key={`${title}-${row.id}`} // Change from key={row.id}
-                      className="border-t border-table-border hover:bg-muted/30 transition-colors"
-                    >
-                      <td className="px-3 py-2">
-                        {useDropdown && dropdownOptions.length > 0 ? (
-                          !row.description ||
-                          !dropdownOptions.includes(row.description) ? (
-                            // If empty or custom value, show input field with back button
-                            <div className="flex items-center gap-1">
+                  ) => {
+                    const errors = readOnly ? {} : validateResourceRow(table, row);
+                    const units = readOnly ? [] : compatibleUnits(row.unit);
+                    return (
+                      <tr
+                        key={`${title}-${row.id}`} // Change from key={row.id}
+                        id={resourceRowId(table, row.id)}
+                        className="border-t border-table-border hover:bg-muted/30 transition-colors align-top"
+                      >
+                        <td className="px-3 py-2">
+                          {readOnly ? (
+                            <Input
+                              value={row.description}
+                              readOnly
+                              className="border-0 bg-transparent focus-visible:ring-1"
+                            />
+                          ) : (
+                            <CatalogAutocomplete
+                              value={row.description}
+                              items={catalog}
+                              onChange={(value) =>
+                                updateRow(row.id, "description", value)
+                              }
+                              onSelect={(item) => selectCatalogItem(row.id, item)}
+                              onAddToCatalog={
+                                onAddToCatalog &&
+                                ((description) =>
+                                  onAddToCatalog({
+                                    description,
+                                    unit: row.unit || undefined,
+                                  }))
+                              }
+                              placeholder="Enter description..."
+                              className="border-0 bg-transparent focus-visible:ring-1"
+                            />
+                          )}
+                          {errors.description && (
+                            <p className="mt-1 text-xs text-destructive">{errors.description}</p>
+                          )}
+                        </td>
+                        {showUnit && (
+                          <td className="px-3 py-2">
+                            <div className="flex items-center">
                               <Input
-                                value={row.description}
+                                value={row.unit || ""}
                                 onChange={(e) =>
-                                  updateRow(
-                                    row.id,
-                                    "description",
-                                    e.target.value
-                                  )
+                                  updateRow(row.id, "unit", e.target.value)
                                 }
-                                placeholder="Enter custom position..."
-                                className="border-0 bg-transparent focus-visible:ring-1"
-                                autoFocus
+                                placeholder="Unit"
+                                aria-invalid={!!errors.unit}
+                                className={`border-0 bg-transparent text-center focus-visible:ring-1 ${
+                                  errors.unit ? "ring-1 ring-destructive" : ""
+                                }`}
                               />
-                              <Button
-                                variant="ghost"
-                                size="icon"
-                                onClick={() =>
-                                  updateRow(
-                                    row.id,
-                                    "description",
-                                    dropdownOptions[0] || ""
-                                  )
-                                }
-                                className="h-8 w-8 text-muted-foreground hover:text-primary hover:bg-primary/10 flex-shrink-0"
-                              >
-                                <X className="w-4 h-4" />
-                              </Button>
+                              {units.length > 0 && (
+                                <DropdownMenu>
+                                  <DropdownMenuTrigger asChild>
+                                    <Button
+                                      variant="ghost"
+                                      size="icon"
+                                      className="h-7 w-7 shrink-0 text-muted-foreground"
+                                      aria-label="Convert unit"
+                                    >
+                                      <ArrowLeftRight className="w-3.5 h-3.5" />
+                                    </Button>
+                                  </DropdownMenuTrigger>
+                                  <DropdownMenuContent align="end">
+                                    <DropdownMenuLabel>Convert quantities to</DropdownMenuLabel>
+                                    {units.map((unit) => {
+                                      const lossy = convertRow(row, unit) === null;
+                                      return (
+                                        <DropdownMenuItem
+                                          key={unit}
+                                          disabled={lossy}
+                                          onSelect={() => changeUnit(row.id, unit)}
+                                        >
+                                          {unit}
+                                          {lossy && (
+                                            <span className="ml-2 text-xs text-muted-foreground">
+                                              needs more than 3 decimals
+                                            </span>
+                                          )}
+                                        </DropdownMenuItem>
+                                      );
+                                    })}
+                                  </DropdownMenuContent>
+                                </DropdownMenu>
+                              )}
                             </div>
-                          ) : (
-                            // Otherwise show dropdown
-                            <Select
-                              value={row.description}
-                              onValueChange={(value) =>
-                                updateRow(row.id, "description", value)
-                              }
-                            >
-                              <SelectTrigger className="border-0 bg-transparent focus:ring-1">
-                                <SelectValue placeholder="Select position..." />
-                              </SelectTrigger>
-                              <SelectContent>
-                                {dropdownOptions.map((option, index) => (
-                                  <SelectItem
-                                    key={`${title}-opt-${option}-${index}`} // Adds table title and index for safety
-                                    value={option}
-                                  >
-                                    {option}
-                                  </SelectItem>
-                                ))}
-                                <SelectItem
-                                  key="custom-entry"
-                                  value="__custom__"
-                                >
-                                  <span className="text-primary">
-                                    + Custom Entry
-                                  </span>
-                                </SelectItem>
-                              </SelectContent>
-                            </Select>
-                          )
-                        ) : (
-                          // Regular input for materials and machinery
-                          <Input
-                            value={row.description}
-                            onChange={(e) =>
-                              updateRow(row.id, "description", e.target.value)
-                            }
-                            placeholder="Enter description..."
-                            className="border-0 bg-transparent focus-visible:ring-1"
-                          />
+                            {errorText(errors.unit)}
+                          </td>
                         )}
-                      </td>
-                      {showUnit && (
+                        <td className="px-3 py-2">
+                          <div className="text-center text-muted-foreground font-medium">
+                            {row.prev || 0}
+                          </div>
+                          {errorText(errors.prev)}
+                        </td>
                         <td className="px-3 py-2">
                           <Input
-                            value={row.unit || ""}
+                            type="number"
+                            min={0}
+                            step={wholeNumbers ? 1 : "any"}
+                            inputMode={wholeNumbers ? "numeric" : "decimal"}
+                            value={row.today || ""}
                             onChange={(e) =>
-                              updateRow(row.id, "unit", e.target.value)
+                              updateRow(row.id, "today", e.target.value)
                             }
-                            placeholder="Unit"
-                            className="border-0 bg-transparent text-center focus-visible:ring-1"
+                            aria-invalid={!!errors.today}
+                            className={`border-0 bg-transparent text-center focus-visible:ring-1 ${
+                              errors.today ? "ring-1 ring-destructive" : ""
+                            }`}
                           />
+                          {errorText(errors.today)}
                         </td>
-                      )}
-                      <td className="px-3 py-2">
-                        <div className="text-center text-muted-foreground font-medium">
-                          {row.prev || 0}
-                        </div>
-                      </td>
-                      <td className="px-3 py-2">
-                        <Input
-                          type="number"
-                          value={row.today || ""}
-                          onChange={(e) =>
-                            updateRow(
-                              row.id,
-                              "today",
-                              Number(e.target.value) || 0
-                            )
-                          }
-                          className="border-0 bg-transparent text-center focus-visible:ring-1"
-                        />
-                      </td>
-                      <td className="px-3 py-2">
-                        <div className="text-center font-semibold text-primary">
-                          {row.accumulated}
-                        </div>
-                      </td>
-                      <td className="px-2 py-2">
-                        <Button
-                          variant="ghost"
-                          size="icon"
-                          onClick={() => removeRow(row.id)}
-                          className="h-8 w-8 text-muted-foreground hover:text-destructive hover:bg-destructive/10"
-                        >
-                          <Trash2 className="w-4 h-4" />
-                        </Button>
-                      </td>
-                    </tr>
-                  )
+                        <td className="px-3 py-2">
+                          <div className="text-center font-semibold text-primary">
+                            {row.accumulated}
+                          </div>
+                        </td>
+                        <td className="px-2 py-2">
+                          {!readOnly && (
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              onClick={() => removeRow(row.id)}
+                              className="h-8 w-8 text-muted-foreground hover:text-destructive hover:bg-destructive/10"
+                            >
+                              <Trash2 className="w-4 h-4" />
+                            </Button>
+                          )}
+                        </td>
+                      </tr>
+                    );
+                  }
                 )}
                 {/* 2. Update the Total Row key */}
                 <tr
@@ -306,13 +358,13 @@ const ResourceTable = ({
                   </td>
                   {showUnit && <td></td>}
                   <td className="px-3 py-3 text-center font-bold text-foreground">
-                    {rows.reduce((sum, row) => sum + row.prev, 0)}
+                    {roundQuantity(rows.reduce((sum, row) => sum + row.prev, 0))}
                   </td>
                   <td className="px-3 py-3 text-center font-bold text-foreground">
-                    {rows.reduce((sum, row) => sum + row.today, 0)}
+                    {roundQuantity(rows.reduce((sum, row) => sum + row.today, 0))}
                   </td>
                   <td className="px-3 py-3 text-center font-bold text-primary">
-                    {rows.reduce((sum, row) => sum + row.accumulated, 0)}
+                    {roundQuantity(rows.reduce((sum, row) => sum + row.accumulated, 0))}
                   </td>
                   <td></td>
                 </tr>
@@ -320,7 +372,7 @@ const ResourceTable = ({
             )}
           </tbody>
         </table>
-      </div>
+      </fieldset>
     </div>
   );
 };
@@ -1,5 +1,12 @@
-import { Users, Wrench, Package, Truck } from "lucide-react";
+import { useState } from "react";
+import { Users, Wrench, Package, Truck, BookOpen } from "lucide-react";
 import ResourceTable, { ResourceRow } from "./ResourceTable";
+import ResourceCatalogDialog from "./ResourceCatalogDialog";
+import { Button } from "@/components/ui/button";
+import { commentsFor } from "@/lib/reviewWorkflow";
+import { DEFAULT_CATALOG } from "@/lib/resourceCatalog";
+import { ResourceTableKey, ReviewComment } from "@/types/report";
+import { CatalogItem, ResourceCatalog } from "@/types/catalog";
 
 interface ResourcesSectionProps {
   managementTeam: ResourceRow[];
@@ -10,18 +17,15 @@ interface ResourcesSectionProps {
   setMaterials: (rows: ResourceRow[]) => void;
   machinery: ResourceRow[];
   setMachinery: (rows: ResourceRow[]) => void;
+  reviewComments?: ReviewComment[];
+  readOnly?: boolean;
+  projectName?: string;
+  catalog?: ResourceCatalog;
+  // Both catalog callbacks are left out when no project is selected
+  onAddToCatalog?: (key: ResourceTableKey, item: Omit<CatalogItem, "id">) => void;
+  onSaveCatalog?: (catalog: ResourceCatalog) => Promise<void>;
 }
-// add more options as needed
-const MANAGEMENT_OPTIONS = [
-  "Project Manager",
-  "Construction Manager",
-  "QS Engineer",
-  "Architect Engineer",
-  "MEP Engineer",
-  "Site Engineer",
-];
 
-const WORKING_TEAM_OPTIONS = ["Foreman", "Skill Workers", "General Workers"];
 const ResourcesSection = ({
   managementTeam,
   setManagementTeam,
@@ -31,49 +35,98 @@ const ResourcesSection = ({
   setMaterials,
   machinery,
   setMachinery,
+  reviewComments,
+  readOnly = false,
+  projectName,
+  catalog = DEFAULT_CATALOG,
+  onAddToCatalog,
+  onSaveCatalog,
 }: ResourcesSectionProps) => {
+  const [isCatalogOpen, setIsCatalogOpen] = useState(false);
+
+  const addToCatalog = (key: ResourceTableKey) =>
+    onAddToCatalog && ((item: Omit<CatalogItem, "id">) => onAddToCatalog(key, item));
+
   return (
     <div className="space-y-4">
-      <h2 className="text-lg font-semibold text-foreground flex items-center gap-2">
-        <div className="w-1 h-5 bg-accent rounded-full" />
-        Resources Employed
-      </h2>
+      <div className="flex items-center justify-between">
+        <h2 className="text-lg font-semibold text-foreground flex items-center gap-2">
+          <div className="w-1 h-5 bg-accent rounded-full" />
+          Resources Employed
+        </h2>
+        {onSaveCatalog && !readOnly && (
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setIsCatalogOpen(true)}
+          >
+            <BookOpen className="w-4 h-4 mr-2" />
+            Catalog
+          </Button>
+        )}
+      </div>
 
       <div className="grid lg:grid-cols-2 gap-4">
         <ResourceTable
           title="Site Management Team"
+          table="managementTeam"
           icon={<Users className="w-5 h-5 text-primary" />}
           rows={managementTeam}
           setRows={setManagementTeam}
-          useDropdown={true}
-          dropdownOptions={MANAGEMENT_OPTIONS}
+          catalog={catalog.managementTeam}
+          onAddToCatalog={addToCatalog("managementTeam")}
+          comments={commentsFor(reviewComments, "managementTeam")}
+          readOnly={readOnly}
         />
 
         <ResourceTable
           title="Site Working Team"
+          table="workingTeam"
           icon={<Wrench className="w-5 h-5 text-accent" />}
           rows={workingTeam}
           setRows={setWorkingTeam}
-          useDropdown={true}
-          dropdownOptions={WORKING_TEAM_OPTIONS}
+          catalog={catalog.workingTeam}
+          onAddToCatalog={addToCatalog("workingTeam")}
+          comments={commentsFor(reviewComments, "workingTeam")}
+          readOnly={readOnly}
         />
 
         <ResourceTable
           title="Materials Deliveries"
+          table="materials"
           icon={<Package className="w-5 h-5 text-warning" />}
           rows={materials}
           setRows={setMaterials}
           showUnit
+          catalog={catalog.materials}
+          onAddToCatalog={addToCatalog("materials")}
+          comments={commentsFor(reviewComments, "materials")}
+          readOnly={readOnly}
         />
 
         <ResourceTable
           title="Machinery & Equipment"
+          table="machinery"
           icon={<Truck className="w-5 h-5 text-success" />}
           rows={machinery}
           setRows={setMachinery}
           showUnit
+          catalog={catalog.machinery}
+          onAddToCatalog={addToCatalog("machinery")}
+          comments={commentsFor(reviewComments, "machinery")}
+          readOnly={readOnly}
         />
       </div>
+
+      {onSaveCatalog && (
+        <ResourceCatalogDialog
+          open={isCatalogOpen}
+          onClose={() => setIsCatalogOpen(false)}
+          projectName={projectName}
+          catalog={catalog}
+          onSave={onSaveCatalog}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,42 @@
+import { format } from "date-fns";
+import { MessageSquareWarning } from "lucide-react";
+import { ReviewComment } from "@/types/report";
+
+interface ReviewCommentsProps {
+  comments?: ReviewComment[];
+  className?: string;
+}
+
+// Reviewer feedback pinned next to the part of the report it refers to
+const ReviewComments = ({ comments = [], className = "" }: ReviewCommentsProps) => {
+  if (comments.length === 0) return null;
+
+  return (
+    <div
+      className={`rounded-lg border border-warning/40 bg-warning/10 p-3 space-y-2 ${className}`}
+    >
+      {comments.map((comment, idx) => (
+        <div key={comment.id ?? idx} className="flex gap-2 text-sm">
+          <MessageSquareWarning className="w-4 h-4 mt-0.5 shrink-0 text-warning" />
+          <div>
+            <p className="whitespace-pre-wrap text-foreground">{comment.text}</p>
+            {(comment.authorName || comment.createdAt) && (
+              <p className="text-xs text-muted-foreground mt-0.5">
+                {[
+                  comment.authorName,
+                  comment.role,
+                  comment.createdAt &&
+                    format(new Date(comment.createdAt), "PPp"),
+                ]
+                  .filter(Boolean)
+                  .join(" · ")}
+              </p>
+            )}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default ReviewComments;
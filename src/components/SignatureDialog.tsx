@@ -0,0 +1,216 @@
+import { useEffect, useRef, useState } from "react";
+import { Eraser, Upload } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { SIGNATURE_ROLE_LABELS } from "@/lib/signatures";
+import { ReportSignature, SignatureRole } from "@/types/report";
+
+interface SignatureDialogProps {
+  // Role being signed; the dialog is open while set
+  role: SignatureRole | null;
+  onClose: () => void;
+  defaultName?: string;
+  defaultPosition?: string;
+  onSave: (signature: ReportSignature) => void;
+}
+
+const PAD_WIDTH = 560;
+const PAD_HEIGHT = 180;
+
+const SignatureDialog = ({
+  role,
+  onClose,
+  defaultName = "",
+  defaultPosition = "",
+  onSave,
+}: SignatureDialogProps) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const drawingRef = useRef(false);
+  const [name, setName] = useState("");
+  const [position, setPosition] = useState("");
+  const [hasInk, setHasInk] = useState(false);
+
+  useEffect(() => {
+    if (!role) return;
+    setName(defaultName);
+    setPosition(defaultPosition);
+    setHasInk(false);
+  }, [role, defaultName, defaultPosition]);
+
+  const getContext = () => {
+    const ctx = canvasRef.current?.getContext("2d");
+    if (ctx) {
+      ctx.lineWidth = 2.5;
+      ctx.lineCap = "round";
+      ctx.lineJoin = "round";
+      ctx.strokeStyle = "#111827";
+    }
+    return ctx;
+  };
+
+  // Pointer position in canvas pixels (the canvas is scaled by CSS)
+  const pointFrom = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return {
+      x: ((e.clientX - rect.left) / rect.width) * PAD_WIDTH,
+      y: ((e.clientY - rect.top) / rect.height) * PAD_HEIGHT,
+    };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const ctx = getContext();
+    if (!ctx) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    drawingRef.current = true;
+    const { x, y } = pointFrom(e);
+    ctx.beginPath();
+    ctx.moveTo(x, y);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!drawingRef.current) return;
+    const ctx = getContext();
+    if (!ctx) return;
+    const { x, y } = pointFrom(e);
+    ctx.lineTo(x, y);
+    ctx.stroke();
+    setHasInk(true);
+  };
+
+  const handlePointerUp = () => {
+    drawingRef.current = false;
+  };
+
+  const clearPad = () => {
+    getContext()?.clearRect(0, 0, PAD_WIDTH, PAD_HEIGHT);
+    setHasInk(false);
+  };
+
+  // Scanned signatures are drawn onto the pad so every signature is stored as PNG
+  const handleUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    const url = URL.createObjectURL(file);
+    const img = new Image();
+    img.onload = () => {
+      const ctx = getContext();
+      if (ctx) {
+        ctx.clearRect(0, 0, PAD_WIDTH, PAD_HEIGHT);
+        const scale = Math.min(PAD_WIDTH / img.width, PAD_HEIGHT / img.height, 1);
+        const w = img.width * scale;
+        const h = img.height * scale;
+        ctx.drawImage(img, (PAD_WIDTH - w) / 2, (PAD_HEIGHT - h) / 2, w, h);
+        setHasInk(true);
+      }
+      URL.revokeObjectURL(url);
+    };
+    img.onerror = () => URL.revokeObjectURL(url);
+    img.src = url;
+  };
+
+  const handleSave = () => {
+    if (!role || !canvasRef.current || !name.trim() || !hasInk) return;
+    onSave({
+      role,
+      name: name.trim(),
+      position: position.trim() || undefined,
+      image: canvasRef.current.toDataURL("image/png"),
+      signedAt: new Date().toISOString(),
+    });
+    onClose();
+  };
+
+  return (
+    <Dialog open={!!role} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-[620px]">
+        <DialogHeader>
+          <DialogTitle>
+            Sign as {role ? SIGNATURE_ROLE_LABELS[role] : ""}
+          </DialogTitle>
+          <DialogDescription>
+            Draw the signature below or upload a scanned image. The time of
+            signing is recorded with it.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid sm:grid-cols-2 gap-4 py-2">
+          <div className="grid gap-2">
+            <Label htmlFor="signature-name">Name *</Label>
+            <Input
+              id="signature-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="Full name"
+            />
+          </div>
+          <div className="grid gap-2">
+            <Label htmlFor="signature-position">Position</Label>
+            <Input
+              id="signature-position"
+              value={position}
+              onChange={(e) => setPosition(e.target.value)}
+              placeholder="e.g. Resident Engineer"
+            />
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <canvas
+            ref={canvasRef}
+            width={PAD_WIDTH}
+            height={PAD_HEIGHT}
+            className="w-full h-[180px] rounded-md border border-dashed bg-white touch-none cursor-crosshair"
+            onPointerDown={handlePointerDown}
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+            onPointerLeave={handlePointerUp}
+          />
+          <div className="flex justify-between">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => fileInputRef.current?.click()}
+            >
+              <Upload className="w-4 h-4 mr-2" />
+              Upload Image
+            </Button>
+            <Button variant="ghost" size="sm" onClick={clearPad} disabled={!hasInk}>
+              <Eraser className="w-4 h-4 mr-2" />
+              Clear
+            </Button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept="image/*"
+              className="hidden"
+              onChange={handleUpload}
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={!name.trim() || !hasInk}>
+            Save Signature
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default SignatureDialog;
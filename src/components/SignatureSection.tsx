@@ -0,0 +1,137 @@
+import { useState } from "react";
+import { CheckCircle2, PenLine, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import SignatureDialog from "./SignatureDialog";
+import {
+  formatSignedAt,
+  REQUIRED_SIGNATURES,
+  SIGNATURE_ROLE_LABELS,
+  SIGNATURE_ROLES,
+  signatureFor,
+} from "@/lib/signatures";
+import { ReportSignature, SignatureRole } from "@/types/report";
+
+interface SignatureSectionProps {
+  signatures: ReportSignature[];
+  // Not needed when read-only
+  setSignatures?: (signatures: ReportSignature[]) => void;
+  // Prefilled name for the site engineer (the signed-in user)
+  defaultName?: string;
+  readOnly?: boolean;
+}
+
+const SignatureSection = ({
+  signatures,
+  setSignatures,
+  defaultName,
+  readOnly = false,
+}: SignatureSectionProps) => {
+  const [signingRole, setSigningRole] = useState<SignatureRole | null>(null);
+  const current = signingRole ? signatureFor(signatures, signingRole) : undefined;
+
+  const handleSave = (signature: ReportSignature) => {
+    setSignatures?.([
+      ...signatures.filter((s) => s.role !== signature.role),
+      signature,
+    ]);
+  };
+
+  const handleRemove = (role: SignatureRole) => {
+    setSignatures?.(signatures.filter((s) => s.role !== role));
+  };
+
+  return (
+    <div className="section-card p-6 animate-fade-in">
+      <div className="flex items-center gap-2 mb-4">
+        <div className="p-2 bg-primary/10 rounded-lg">
+          <PenLine className="w-5 h-5 text-primary" />
+        </div>
+        <div>
+          <h2 className="text-lg font-semibold text-foreground">Sign-off</h2>
+          <p className="text-sm text-muted-foreground">
+            Required signatures must be captured before the report can be submitted
+          </p>
+        </div>
+      </div>
+
+      <div className="grid md:grid-cols-2 gap-4">
+        {SIGNATURE_ROLES.map((role) => {
+          const signature = signatureFor(signatures, role);
+          return (
+            <div key={role} className="rounded-lg border border-table-border p-4 space-y-3">
+              <div className="flex items-center justify-between">
+                <h3 className="font-medium text-foreground">
+                  {SIGNATURE_ROLE_LABELS[role]}
+                  {REQUIRED_SIGNATURES.includes(role) && (
+                    <span className="text-destructive"> *</span>
+                  )}
+                </h3>
+                {signature && (
+                  <span className="flex items-center gap-1 text-xs text-success">
+                    <CheckCircle2 className="w-3.5 h-3.5" />
+                    Signed
+                  </span>
+                )}
+              </div>
+
+              {signature ? (
+                <>
+                  <img
+                    src={signature.image}
+                    alt={`Signature of ${signature.name}`}
+                    className="h-20 w-full object-contain rounded-md border bg-white"
+                  />
+                  <div className="text-sm">
+                    <p className="font-medium">{signature.name}</p>
+                    {signature.position && (
+                      <p className="text-muted-foreground">{signature.position}</p>
+                    )}
+                    <p className="text-xs text-muted-foreground">
+                      Signed {formatSignedAt(signature.signedAt)}
+                    </p>
+                  </div>
+                </>
+              ) : (
+                <div className="h-20 flex items-center justify-center rounded-md border border-dashed text-sm text-muted-foreground">
+                  Not signed
+                </div>
+              )}
+
+              {!readOnly && (
+                <div className="flex gap-2">
+                  <Button variant="outline" size="sm" onClick={() => setSigningRole(role)}>
+                    <PenLine className="w-4 h-4 mr-2" />
+                    {signature ? "Re-sign" : "Sign"}
+                  </Button>
+                  {signature && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="text-destructive hover:text-destructive"
+                      onClick={() => handleRemove(role)}
+                    >
+                      <Trash2 className="w-4 h-4 mr-2" />
+                      Remove
+                    </Button>
+                  )}
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      <SignatureDialog
+        role={signingRole}
+        onClose={() => setSigningRole(null)}
+        defaultName={
+          current?.name ?? (signingRole === "siteEngineer" ? defaultName : "")
+        }
+        defaultPosition={current?.position}
+        onSave={handleSave}
+      />
+    </div>
+  );
+};
+
+export default SignatureSection;
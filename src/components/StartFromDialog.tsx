@@ -0,0 +1,256 @@
+import { useEffect, useState } from "react";
+import { format } from "date-fns";
+import { CalendarIcon, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Calendar } from "@/components/ui/calendar";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import {
+  COPY_PART_LABELS,
+  COPY_PARTS,
+  deleteTemplate,
+  getTemplates,
+  loadLastSubmittedReport,
+  loadReportForDate,
+  saveTemplate,
+} from "@/lib/reportTemplates";
+import { localDateString } from "@/lib/storageUtils";
+import { CopyPart, ReportData, ReportTemplate } from "@/types/report";
+
+type Source = "last" | "date" | "template";
+
+interface StartFromDialogProps {
+  open: boolean;
+  onClose: () => void;
+  reportDate?: Date;
+  projectId?: string;
+  projectName?: string;
+  // Current form contents, saved when creating a template
+  getCurrentReport: () => ReportData;
+  onApply: (source: Partial<ReportData>, parts: CopyPart[], from: string) => void;
+}
+
+const StartFromDialog = ({
+  open,
+  onClose,
+  reportDate,
+  projectId,
+  projectName,
+  getCurrentReport,
+  onApply,
+}: StartFromDialogProps) => {
+  const { toast } = useToast();
+  const [source, setSource] = useState<Source>("last");
+  const [parts, setParts] = useState<CopyPart[]>(COPY_PARTS);
+  const [date, setDate] = useState<Date | undefined>();
+  const [templates, setTemplates] = useState<ReportTemplate[]>([]);
+  const [templateId, setTemplateId] = useState("");
+  const [templateName, setTemplateName] = useState("");
+  const [isLoading, setIsLoading] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setParts(COPY_PARTS);
+    setDate(reportDate ? new Date(reportDate.getTime() - 86400000) : undefined);
+    setTemplates(getTemplates());
+    setTemplateId("");
+    setTemplateName("");
+  }, [open, reportDate]);
+
+  const togglePart = (part: CopyPart, checked: boolean) =>
+    setParts((current) =>
+      checked ? COPY_PARTS.filter((p) => p === part || current.includes(p)) : current.filter((p) => p !== part)
+    );
+
+  const handleSaveTemplate = () => {
+    if (!templateName.trim()) return;
+    const saved = saveTemplate(templateName, getCurrentReport());
+    setTemplates(saved);
+    setTemplateId(saved.find((t) => t.name === templateName.trim())?.id ?? "");
+    setTemplateName("");
+    toast({ title: "Template Saved", description: `"${templateName.trim()}" can now be used to start new reports.` });
+  };
+
+  const handleDeleteTemplate = (id: string) => {
+    setTemplates(deleteTemplate(id));
+    if (templateId === id) setTemplateId("");
+  };
+
+  const canApply =
+    parts.length > 0 &&
+    (source === "last" || (source === "date" && !!date) || (source === "template" && !!templateId));
+
+  const handleApply = async () => {
+    setIsLoading(true);
+    try {
+      let report: Partial<ReportData> | null = null;
+      let from = "";
+      if (source === "last") {
+        report = await loadLastSubmittedReport(
+          reportDate ? localDateString(reportDate) : localDateString(new Date()),
+          projectId,
+          projectName
+        );
+        from = report?.reportDate ? `the report of ${format(new Date(report.reportDate), "PPP")}` : "";
+      } else if (source === "date" && date) {
+        report = await loadReportForDate(date, projectId);
+        from = `the report of ${format(date, "PPP")}`;
+      } else {
+        const template = templates.find((t) => t.id === templateId);
+        report = template?.data ?? null;
+        from = `template "${template?.name}"`;
+      }
+
+      if (!report) {
+        toast({
+          title: "Nothing to Copy",
+          description:
+            source === "last"
+              ? "No earlier submitted report was found for this project."
+              : "No report was found for the chosen date.",
+          variant: "destructive",
+        });
+        return;
+      }
+
+      onApply(report, parts, from);
+      onClose();
+    } catch (e) {
+      toast({
+        title: "Could Not Copy",
+        description: e instanceof Error ? e.message : "Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-[560px]">
+        <DialogHeader>
+          <DialogTitle>Start From…</DialogTitle>
+          <DialogDescription>
+            Copy parts of an earlier report or a saved template into this one.
+            The chosen parts replace what is currently in the form.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Tabs value={source} onValueChange={(v) => setSource(v as Source)}>
+          <TabsList className="grid w-full grid-cols-3">
+            <TabsTrigger value="last">Last submitted</TabsTrigger>
+            <TabsTrigger value="date">Chosen date</TabsTrigger>
+            <TabsTrigger value="template">Template</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="last" className="text-sm text-muted-foreground">
+            Uses the most recent submitted report of this project before the
+            report date.
+          </TabsContent>
+
+          <TabsContent value="date">
+            <Popover>
+              <PopoverTrigger asChild>
+                <Button variant="outline" className="w-full justify-start text-left font-normal">
+                  <CalendarIcon className="mr-2 h-4 w-4" />
+                  {date ? format(date, "PPP") : "Select date"}
+                </Button>
+              </PopoverTrigger>
+              <PopoverContent className="w-auto p-0" align="start">
+                <Calendar mode="single" selected={date} onSelect={setDate} initialFocus />
+              </PopoverContent>
+            </Popover>
+          </TabsContent>
+
+          <TabsContent value="template" className="space-y-3">
+            {templates.length > 0 ? (
+              <RadioGroup value={templateId} onValueChange={setTemplateId} className="max-h-48 overflow-y-auto">
+                {templates.map((template) => (
+                  <div key={template.id} className="flex items-center justify-between gap-2 rounded-md border border-table-border px-3 py-2">
+                    <div className="flex items-center gap-2">
+                      <RadioGroupItem value={template.id} id={`template-${template.id}`} />
+                      <Label htmlFor={`template-${template.id}`} className="font-normal">
+                        {template.name}
+                        {template.projectName && (
+                          <span className="ml-2 text-xs text-muted-foreground">{template.projectName}</span>
+                        )}
+                      </Label>
+                    </div>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8 text-destructive hover:text-destructive"
+                      onClick={() => handleDeleteTemplate(template.id)}
+                      aria-label={`Delete template ${template.name}`}
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                ))}
+              </RadioGroup>
+            ) : (
+              <p className="text-sm text-muted-foreground">No templates saved yet.</p>
+            )}
+
+            <div className="flex gap-2">
+              <Input
+                value={templateName}
+                onChange={(e) => setTemplateName(e.target.value)}
+                placeholder="Template name"
+                aria-label="Template name"
+              />
+              <Button variant="outline" onClick={handleSaveTemplate} disabled={!templateName.trim()}>
+                Save current report
+              </Button>
+            </div>
+          </TabsContent>
+        </Tabs>
+
+        <div className="grid gap-2 pt-2">
+          <Label>Copy</Label>
+          {COPY_PARTS.map((part) => (
+            <div key={part} className="flex items-center gap-2">
+              <Checkbox
+                id={`copy-${part}`}
+                checked={parts.includes(part)}
+                onCheckedChange={(checked) => togglePart(part, checked === true)}
+              />
+              <Label htmlFor={`copy-${part}`} className="font-normal">
+                {COPY_PART_LABELS[part]}
+              </Label>
+            </div>
+          ))}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button onClick={handleApply} disabled={!canApply || isLoading}>
+            {isLoading ? "Copying..." : "Copy Into Report"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default StartFromDialog;
@@ -0,0 +1,194 @@
+import { Cloud, CloudOff, RefreshCw, TriangleAlert } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import { useToast } from "@/hooks/use-toast";
+import { useSyncStatus } from "@/hooks/useSyncStatus";
+import { OutboxEntry } from "@/integrations/syncQueue";
+import { toReportDay } from "@/lib/storageUtils";
+
+const describeEntry = ({ op }: OutboxEntry) => {
+  if (op.type === "submit") return `Submit ${op.projectName} — ${op.reportDate}`;
+  const { projectName, reportDate } = op.report as {
+    projectName?: string;
+    reportDate?: string | null;
+  };
+  return `Save ${projectName || "report"} — ${toReportDay(reportDate)}`;
+};
+
+const SyncStatusIndicator = () => {
+  const { toast } = useToast();
+  const {
+    isOnline,
+    isSyncing,
+    pending,
+    conflicts,
+    failed,
+    retry,
+    retryFailed,
+    discardFailed,
+    keepServer,
+    overwriteServer,
+  } = useSyncStatus();
+
+  const resolve = async (entry: OutboxEntry, keep: "server" | "mine") => {
+    try {
+      if (keep === "server") {
+        await keepServer(entry.id!);
+        toast({
+          title: "Kept Server Version",
+          description: "Reopen the report to load the server copy.",
+        });
+      } else {
+        await overwriteServer(entry.id!);
+      }
+    } catch (e) {
+      toast({
+        title: "Sync Failed",
+        description: e instanceof Error ? e.message : "Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const settle = async (entry: OutboxEntry, action: "retry" | "discard") => {
+    try {
+      if (action === "retry") {
+        await retryFailed(entry.id!);
+      } else {
+        await discardFailed(entry.id!);
+      }
+    } catch (e) {
+      toast({
+        title: "Sync Failed",
+        description: e instanceof Error ? e.message : "Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  let icon = <Cloud className="mr-2 h-4 w-4" />;
+  let label = "Synced";
+  if (conflicts.length > 0) {
+    icon = <TriangleAlert className="mr-2 h-4 w-4 text-warning" />;
+    label = `${conflicts.length} conflict${conflicts.length > 1 ? "s" : ""}`;
+  } else if (failed.length > 0) {
+    icon = <TriangleAlert className="mr-2 h-4 w-4 text-destructive" />;
+    label = `${failed.length} failed`;
+  } else if (!isOnline) {
+    icon = <CloudOff className="mr-2 h-4 w-4" />;
+    label = pending.length ? `Offline · ${pending.length} pending` : "Offline";
+  } else if (isSyncing) {
+    icon = <RefreshCw className="mr-2 h-4 w-4 animate-spin" />;
+    label = "Syncing...";
+  } else if (pending.length > 0) {
+    icon = <RefreshCw className="mr-2 h-4 w-4" />;
+    label = `${pending.length} pending`;
+  }
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="secondary" size="sm" aria-label="Sync status">
+          {icon}
+          {label}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 space-y-3">
+        <div>
+          <h3 className="font-semibold text-sm">Sync Status</h3>
+          <p className="text-xs text-muted-foreground">
+            {isOnline
+              ? "Changes made offline are sent to the server in order."
+              : "You are offline. Saves and submits will be sent when you reconnect."}
+          </p>
+        </div>
+
+        {conflicts.map((entry) => (
+          <div
+            key={entry.id}
+            className="rounded-md border border-warning/40 bg-warning/10 p-2 space-y-2"
+          >
+            <p className="text-sm font-medium">{describeEntry(entry)}</p>
+            <p className="text-xs text-muted-foreground">
+              {entry.error ||
+                "The server copy changed while you were offline."}
+            </p>
+            <div className="flex gap-2">
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => resolve(entry, "server")}
+              >
+                Keep server
+              </Button>
+              <Button size="sm" onClick={() => resolve(entry, "mine")}>
+                Overwrite with mine
+              </Button>
+            </div>
+          </div>
+        ))}
+
+        {failed.map((entry) => (
+          <div
+            key={entry.id}
+            className="rounded-md border border-destructive/40 bg-destructive/10 p-2 space-y-2"
+          >
+            <p className="text-sm font-medium">{describeEntry(entry)}</p>
+            <p className="text-xs text-destructive">
+              {entry.error || "The server rejected this change."}
+            </p>
+            <div className="flex gap-2">
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => settle(entry, "discard")}
+              >
+                Discard
+              </Button>
+              <Button
+                size="sm"
+                disabled={!isOnline || isSyncing}
+                onClick={() => settle(entry, "retry")}
+              >
+                Retry
+              </Button>
+            </div>
+          </div>
+        ))}
+
+        {pending.length > 0 && (
+          <div className="space-y-1">
+            {pending.map((entry) => (
+              <div key={entry.id} className="text-xs">
+                <span>{describeEntry(entry)}</span>
+                {entry.error && (
+                  <span className="block text-destructive">{entry.error}</span>
+                )}
+              </div>
+            ))}
+            <Button
+              size="sm"
+              variant="outline"
+              className="w-full"
+              disabled={!isOnline || isSyncing}
+              onClick={() => retry()}
+            >
+              <RefreshCw className="mr-2 h-4 w-4" />
+              Retry now
+            </Button>
+          </div>
+        )}
+
+        {pending.length === 0 && conflicts.length === 0 && failed.length === 0 && (
+          <p className="text-xs text-muted-foreground">Nothing waiting to sync.</p>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default SyncStatusIndicator;
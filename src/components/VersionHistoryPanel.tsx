@@ -0,0 +1,254 @@
+import { useEffect, useMemo, useState } from "react";
+import { format } from "date-fns";
+import { History, Loader2 } from "lucide-react";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from "@/components/ui/sheet";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { useToast } from "@/hooks/use-toast";
+import { listReportVersions } from "@/integrations/reportsApi";
+import {
+  diffReports,
+  LineChange,
+  RESOURCE_TABLE_KEYS,
+  RowChange,
+} from "@/lib/reportDiff";
+import { REVIEW_TARGET_LABELS } from "@/lib/reviewWorkflow";
+import { localDateString } from "@/lib/storageUtils";
+import { ReportVersion } from "@/types/report";
+
+interface VersionHistoryPanelProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  reportDate: Date | undefined;
+  projectId?: string;
+}
+
+const LINE_CLASSES: Record<LineChange["type"], string> = {
+  same: "text-muted-foreground",
+  added: "bg-success/15 text-success",
+  removed: "bg-destructive/10 text-destructive line-through",
+};
+
+const LINE_PREFIX: Record<LineChange["type"], string> = {
+  same: "  ",
+  added: "+ ",
+  removed: "- ",
+};
+
+const formatDelta = (n: number) => (n > 0 ? `+${n}` : String(n));
+
+const TextDiff = ({ title, lines }: { title: string; lines: LineChange[] }) => (
+  <div>
+    <h4 className="text-sm font-semibold mb-1">{title}</h4>
+    <pre className="text-xs font-mono whitespace-pre-wrap rounded-md border bg-muted/30 p-2">
+      {lines.map((line, idx) => (
+        <div key={idx} className={LINE_CLASSES[line.type]}>
+          {LINE_PREFIX[line.type]}
+          {line.text}
+        </div>
+      ))}
+    </pre>
+  </div>
+);
+
+const RowDiff = ({ change }: { change: RowChange }) => {
+  if (change.type === "added") {
+    return (
+      <li className="text-success">
+        Added <strong>{change.description || "(no description)"}</strong> —
+        today {change.after?.today ?? 0}, accum {change.after?.accumulated ?? 0}
+      </li>
+    );
+  }
+  if (change.type === "removed") {
+    return (
+      <li className="text-destructive">
+        Removed <strong>{change.description || "(no description)"}</strong>
+      </li>
+    );
+  }
+
+  const { deltas, fields = [], before, after } = change;
+  return (
+    <li>
+      Changed <strong>{change.description || "(no description)"}</strong>
+      {fields.includes("description") && (
+        <span className="text-muted-foreground">
+          {" "}
+          (was "{before?.description}")
+        </span>
+      )}
+      {fields.includes("unit") && (
+        <span className="text-muted-foreground">
+          {" "}
+          unit {before?.unit || "—"} → {after?.unit || "—"}
+        </span>
+      )}
+      {deltas &&
+        (["prev", "today", "accumulated"] as const)
+          .filter((k) => deltas[k] !== 0)
+          .map((k) => (
+            <span key={k} className="ml-2 font-mono text-xs">
+              {k} {before?.[k] ?? 0} → {after?.[k] ?? 0} ({formatDelta(deltas[k])})
+            </span>
+          ))}
+    </li>
+  );
+};
+
+const VersionHistoryPanel = ({
+  open,
+  onOpenChange,
+  reportDate,
+  projectId,
+}: VersionHistoryPanelProps) => {
+  const { toast } = useToast();
+  const [versions, setVersions] = useState<ReportVersion[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  useEffect(() => {
+    if (!open || !reportDate) return;
+
+    let cancelled = false;
+    setIsLoading(true);
+    listReportVersions(localDateString(reportDate), projectId)
+      .then((loaded) => {
+        if (cancelled) return;
+        setVersions(loaded);
+        setSelectedId(loaded[0]?.id ?? null);
+      })
+      .catch((e) => {
+        if (cancelled) return;
+        toast({
+          title: "Could not load history",
+          description: e instanceof Error ? e.message : "Please try again later.",
+          variant: "destructive",
+        });
+      })
+      .finally(() => !cancelled && setIsLoading(false));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [open, reportDate, projectId, toast]);
+
+  // Compare the selected version with the one saved just before it
+  const diff = useMemo(() => {
+    const idx = versions.findIndex((v) => v.id === selectedId);
+    if (idx === -1) return null;
+    return diffReports(versions[idx + 1]?.snapshot ?? null, versions[idx].snapshot);
+  }, [versions, selectedId]);
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent className="w-full sm:max-w-3xl">
+        <SheetHeader>
+          <SheetTitle className="flex items-center gap-2">
+            <History className="w-5 h-5" />
+            Version History
+          </SheetTitle>
+          <SheetDescription>
+            Every save is kept. Select a version to see what changed since the
+            one before it.
+          </SheetDescription>
+        </SheetHeader>
+
+        {isLoading ? (
+          <div className="flex justify-center py-12">
+            <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : versions.length === 0 ? (
+          <p className="py-8 text-center text-sm text-muted-foreground">
+            This report has not been saved to the server yet.
+          </p>
+        ) : (
+          <div className="grid grid-cols-[200px_1fr] gap-4 mt-4 h-[calc(100vh-10rem)]">
+            <ScrollArea className="border-r pr-2">
+              <ul className="space-y-1">
+                {versions.map((v) => (
+                  <li key={v.id}>
+                    <button
+                      type="button"
+                      onClick={() => setSelectedId(v.id)}
+                      className={`w-full text-left rounded-md px-2 py-1.5 text-sm transition-colors ${
+                        v.id === selectedId
+                          ? "bg-primary/10 text-primary"
+                          : "hover:bg-muted"
+                      }`}
+                    >
+                      <span className="font-medium">
+                        v{v.version}
+                        {v.revision ? ` · Rev. ${v.revision}` : ""}
+                      </span>
+                      <span className="block text-xs text-muted-foreground">
+                        {v.savedAt ? format(new Date(v.savedAt), "PPp") : "—"}
+                      </span>
+                      {v.savedBy && (
+                        <span className="block text-xs text-muted-foreground">
+                          {v.savedBy}
+                        </span>
+                      )}
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            </ScrollArea>
+
+            <ScrollArea>
+              {diff && (
+                <div className="space-y-4 pr-3">
+                  {diff.isEmpty && (
+                    <p className="text-sm text-muted-foreground">
+                      No changes to report fields in this version.
+                    </p>
+                  )}
+
+                  {diff.fields.length > 0 && (
+                    <ul className="text-sm space-y-1">
+                      {diff.fields.map((f) => (
+                        <li key={f.field}>
+                          <strong>{f.field}</strong>: {f.before || "—"} →{" "}
+                          {f.after || "—"}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+
+                  {diff.activityToday && (
+                    <TextDiff title="Working Activity Today" lines={diff.activityToday} />
+                  )}
+                  {diff.workPlanNextDay && (
+                    <TextDiff title="Work Plan for Next Day" lines={diff.workPlanNextDay} />
+                  )}
+
+                  {RESOURCE_TABLE_KEYS.filter((key) => diff.tables[key].length > 0).map(
+                    (key) => (
+                      <div key={key}>
+                        <h4 className="text-sm font-semibold mb-1">
+                          {REVIEW_TARGET_LABELS[key]}
+                        </h4>
+                        <ul className="text-sm space-y-1 list-disc pl-5">
+                          {diff.tables[key].map((change, idx) => (
+                            <RowDiff key={idx} change={change} />
+                          ))}
+                        </ul>
+                      </div>
+                    )
+                  )}
+                </div>
+              )}
+            </ScrollArea>
+          </div>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+};
+
+export default VersionHistoryPanel;
@@ -0,0 +1,170 @@
+import { useEffect, useState } from "react";
+import { format } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { localDateString } from "@/lib/storageUtils";
+import {
+  createHttpWeatherSource,
+  createStationFileSource,
+  getWeatherProviderUrl,
+  setWeatherProviderUrl,
+} from "@/lib/weatherSources";
+import { DailyWeather, WeatherSource } from "@/types/weather";
+
+type SourceKind = "file" | "service";
+
+interface WeatherImportDialogProps {
+  open: boolean;
+  onClose: () => void;
+  reportDate?: Date;
+  // Project location, sent to the weather service
+  site: string;
+  onImport: (weather: DailyWeather) => void;
+}
+
+const WeatherImportDialog = ({
+  open,
+  onClose,
+  reportDate,
+  site: projectSite,
+  onImport,
+}: WeatherImportDialogProps) => {
+  const { toast } = useToast();
+  const [kind, setKind] = useState<SourceKind>("file");
+  const [file, setFile] = useState<File | null>(null);
+  const [baseUrl, setBaseUrl] = useState("");
+  const [site, setSite] = useState("");
+  const [isImporting, setIsImporting] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setFile(null);
+    setBaseUrl(getWeatherProviderUrl());
+    setSite(projectSite);
+  }, [open, projectSite]);
+
+  const canImport =
+    !!reportDate && (kind === "file" ? !!file : !!baseUrl.trim() && !!site.trim());
+
+  const handleImport = async () => {
+    if (!reportDate) return;
+    let source: WeatherSource;
+    if (kind === "file") {
+      source = createStationFileSource(file!);
+    } else {
+      setWeatherProviderUrl(baseUrl);
+      source = createHttpWeatherSource(baseUrl.trim());
+    }
+
+    setIsImporting(true);
+    try {
+      const weather = await source.fetchDay({
+        date: localDateString(reportDate),
+        site: site.trim(),
+      });
+      if (!weather) {
+        toast({
+          title: "No Readings",
+          description: `${source.label} has no readings for ${format(reportDate, "PPP")}.`,
+          variant: "destructive",
+        });
+        return;
+      }
+      onImport(weather);
+      toast({
+        title: "Weather Imported",
+        description: `AM ${weather.weatherAM || "–"} ${weather.tempAM ? `${weather.tempAM}°C` : ""} · PM ${
+          weather.weatherPM || "–"
+        } ${weather.tempPM ? `${weather.tempPM}°C` : ""}`,
+      });
+      onClose();
+    } catch (e) {
+      toast({
+        title: "Import Failed",
+        description: e instanceof Error ? e.message : "Could not read the weather.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-[480px]">
+        <DialogHeader>
+          <DialogTitle>Import Weather</DialogTitle>
+          <DialogDescription>
+            Fill the AM and PM weather and temperature of{" "}
+            {reportDate ? format(reportDate, "PPP") : "the report date"} from
+            recorded readings. Readings before noon count as AM.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Tabs value={kind} onValueChange={(v) => setKind(v as SourceKind)}>
+          <TabsList className="grid w-full grid-cols-2">
+            <TabsTrigger value="file">Station logger file</TabsTrigger>
+            <TabsTrigger value="service">Weather service</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="file" className="space-y-2">
+            <Label htmlFor="weather-file">CSV or JSON file</Label>
+            <Input
+              id="weather-file"
+              type="file"
+              accept=".csv,.json,text/csv,application/json"
+              onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+            />
+            <p className="text-xs text-muted-foreground">
+              Needs a time or timestamp column; temperature, condition and
+              rainfall columns are used when present.
+            </p>
+          </TabsContent>
+
+          <TabsContent value="service" className="space-y-3">
+            <div className="space-y-2">
+              <Label htmlFor="weather-url">Service URL</Label>
+              <Input
+                id="weather-url"
+                value={baseUrl}
+                onChange={(e) => setBaseUrl(e.target.value)}
+                placeholder="http://localhost:5002/weather"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="weather-site">Site</Label>
+              <Input
+                id="weather-site"
+                value={site}
+                onChange={(e) => setSite(e.target.value)}
+                placeholder="Site name or station id"
+              />
+            </div>
+          </TabsContent>
+        </Tabs>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button onClick={handleImport} disabled={!canImport || isImporting}>
+            {isImporting ? "Importing..." : "Import"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default WeatherImportDialog;
@@ -0,0 +1,306 @@
+import { CloudRain, Plus, Timer, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  DELAY_CAUSES,
+  formatHours,
+  hoursBetween,
+  lostHours,
+  newDelay,
+  newObservation,
+  totalRainfall,
+  WEATHER_CONDITIONS,
+  WIND_LEVELS,
+} from "@/lib/weatherLog";
+import { WeatherDelay, WeatherObservation } from "@/types/report";
+
+interface WeatherLogSectionProps {
+  weatherLog: WeatherObservation[];
+  setWeatherLog: (log: WeatherObservation[]) => void;
+  weatherDelays: WeatherDelay[];
+  setWeatherDelays: (delays: WeatherDelay[]) => void;
+  readOnly?: boolean;
+}
+
+// Empty number inputs are stored as null rather than 0
+const toNumber = (value: string) => (value === "" ? null : Number(value));
+
+const nowTime = () => new Date().toTimeString().slice(0, 5);
+
+const WeatherLogSection = ({
+  weatherLog,
+  setWeatherLog,
+  weatherDelays,
+  setWeatherDelays,
+  readOnly = false,
+}: WeatherLogSectionProps) => {
+  const updateObservation = (id: string, changes: Partial<WeatherObservation>) =>
+    setWeatherLog(weatherLog.map((o) => (o.id === id ? { ...o, ...changes } : o)));
+
+  const updateDelay = (id: string, changes: Partial<WeatherDelay>) =>
+    setWeatherDelays(
+      weatherDelays.map((d) => {
+        if (d.id !== id) return d;
+        const updated = { ...d, ...changes };
+        // Changing the time span recalculates the hours; they can still be typed in
+        if (("from" in changes || "to" in changes) && hoursBetween(updated.from, updated.to)) {
+          updated.hours = hoursBetween(updated.from, updated.to);
+        }
+        return updated;
+      })
+    );
+
+  const rainfall = totalRainfall(weatherLog);
+  const hoursLost = lostHours(weatherDelays);
+
+  return (
+    <div className="section-card p-6 animate-fade-in">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-2">
+          <div className="p-2 bg-primary/10 rounded-lg">
+            <CloudRain className="w-5 h-5 text-primary" />
+          </div>
+          <div>
+            <h2 className="text-lg font-semibold text-foreground">Weather Log</h2>
+            <p className="text-sm text-muted-foreground">
+              Readings through the day and hours lost to the weather
+            </p>
+          </div>
+        </div>
+        <div className="text-right text-sm">
+          <p className="text-muted-foreground">
+            Rainfall <span className="font-medium text-foreground">{rainfall} mm</span>
+          </p>
+          <p className="text-muted-foreground">
+            Lost{" "}
+            <span className={`font-medium ${hoursLost > 0 ? "text-warning" : "text-foreground"}`}>
+              {formatHours(hoursLost)}
+            </span>
+          </p>
+        </div>
+      </div>
+
+      <fieldset disabled={readOnly} className="space-y-6 min-w-0">
+        <div className="rounded-lg border border-table-border overflow-x-auto">
+          <div className="bg-table-header px-4 py-2 border-b border-table-border flex items-center justify-between">
+            <h3 className="font-medium text-foreground">Observations</h3>
+            {!readOnly && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => setWeatherLog([...weatherLog, newObservation(nowTime())])}
+                className="text-primary hover:text-primary hover:bg-primary/10"
+              >
+                <Plus className="w-4 h-4 mr-1" />
+                Add Reading
+              </Button>
+            )}
+          </div>
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="bg-muted/50 text-muted-foreground">
+                <th className="text-left px-3 py-2 font-medium w-[16%]">Time</th>
+                <th className="text-left px-3 py-2 font-medium w-[26%]">Condition</th>
+                <th className="text-center px-3 py-2 font-medium w-[14%]">Temp °C</th>
+                <th className="text-center px-3 py-2 font-medium w-[14%]">Rain mm</th>
+                <th className="text-left px-3 py-2 font-medium w-[22%]">Wind</th>
+                <th className="w-[8%]"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {weatherLog.length === 0 ? (
+                <tr>
+                  <td colSpan={6} className="text-center py-6 text-muted-foreground">
+                    No readings logged.
+                  </td>
+                </tr>
+              ) : (
+                weatherLog.map((o) => (
+                  <tr key={o.id} className="border-t border-table-border">
+                    <td className="px-3 py-2">
+                      <Input
+                        type="time"
+                        value={o.time}
+                        onChange={(e) => updateObservation(o.id, { time: e.target.value })}
+                        aria-label="Reading time"
+                      />
+                    </td>
+                    <td className="px-3 py-2">
+                      <Select value={o.condition} onValueChange={(condition) => updateObservation(o.id, { condition })}>
+                        <SelectTrigger aria-label="Condition">
+                          <SelectValue placeholder="Select" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {WEATHER_CONDITIONS.map((c) => (
+                            <SelectItem key={c} value={c}>
+                              {c}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </td>
+                    <td className="px-3 py-2">
+                      <Input
+                        type="number"
+                        value={o.temperature ?? ""}
+                        onChange={(e) => updateObservation(o.id, { temperature: toNumber(e.target.value) })}
+                        className="text-center"
+                        aria-label="Temperature in °C"
+                      />
+                    </td>
+                    <td className="px-3 py-2">
+                      <Input
+                        type="number"
+                        min={0}
+                        step="0.1"
+                        value={o.rainfall ?? ""}
+                        onChange={(e) => updateObservation(o.id, { rainfall: toNumber(e.target.value) })}
+                        className="text-center"
+                        aria-label="Rainfall in mm"
+                      />
+                    </td>
+                    <td className="px-3 py-2">
+                      <Select value={o.wind || ""} onValueChange={(wind) => updateObservation(o.id, { wind })}>
+                        <SelectTrigger aria-label="Wind">
+                          <SelectValue placeholder="Select" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {WIND_LEVELS.map((w) => (
+                            <SelectItem key={w} value={w}>
+                              {w}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </td>
+                    <td className="px-3 py-2 text-center">
+                      {!readOnly && (
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => setWeatherLog(weatherLog.filter((r) => r.id !== o.id))}
+                          className="text-destructive hover:text-destructive"
+                          aria-label="Remove reading"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </Button>
+                      )}
+                    </td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="rounded-lg border border-table-border overflow-x-auto">
+          <div className="bg-table-header px-4 py-2 border-b border-table-border flex items-center justify-between">
+            <h3 className="font-medium text-foreground flex items-center gap-2">
+              <Timer className="w-4 h-4 text-warning" />
+              Weather Delays
+            </h3>
+            {!readOnly && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => setWeatherDelays([...weatherDelays, newDelay()])}
+                className="text-primary hover:text-primary hover:bg-primary/10"
+              >
+                <Plus className="w-4 h-4 mr-1" />
+                Add Delay
+              </Button>
+            )}
+          </div>
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="bg-muted/50 text-muted-foreground">
+                <th className="text-left px-3 py-2 font-medium w-[36%]">Cause</th>
+                <th className="text-left px-3 py-2 font-medium w-[18%]">From</th>
+                <th className="text-left px-3 py-2 font-medium w-[18%]">To</th>
+                <th className="text-center px-3 py-2 font-medium w-[20%]">Hours lost</th>
+                <th className="w-[8%]"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {weatherDelays.length === 0 ? (
+                <tr>
+                  <td colSpan={5} className="text-center py-6 text-muted-foreground">
+                    No work stopped by the weather.
+                  </td>
+                </tr>
+              ) : (
+                weatherDelays.map((d) => (
+                  <tr key={d.id} className="border-t border-table-border">
+                    <td className="px-3 py-2">
+                      <Select value={d.cause} onValueChange={(cause) => updateDelay(d.id, { cause })}>
+                        <SelectTrigger aria-label="Delay cause">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {DELAY_CAUSES.map((c) => (
+                            <SelectItem key={c} value={c}>
+                              {c}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </td>
+                    <td className="px-3 py-2">
+                      <Input
+                        type="time"
+                        value={d.from || ""}
+                        onChange={(e) => updateDelay(d.id, { from: e.target.value })}
+                        aria-label="Stopped from"
+                      />
+                    </td>
+                    <td className="px-3 py-2">
+                      <Input
+                        type="time"
+                        value={d.to || ""}
+                        onChange={(e) => updateDelay(d.id, { to: e.target.value })}
+                        aria-label="Stopped until"
+                      />
+                    </td>
+                    <td className="px-3 py-2">
+                      <Input
+                        type="number"
+                        min={0}
+                        step="0.25"
+                        value={d.hours}
+                        onChange={(e) => updateDelay(d.id, { hours: Number(e.target.value) || 0 })}
+                        className="text-center"
+                        aria-label="Hours lost"
+                      />
+                    </td>
+                    <td className="px-3 py-2 text-center">
+                      {!readOnly && (
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => setWeatherDelays(weatherDelays.filter((r) => r.id !== d.id))}
+                          className="text-destructive hover:text-destructive"
+                          aria-label="Remove delay"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </Button>
+                      )}
+                    </td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+      </fieldset>
+    </div>
+  );
+};
+
+export default WeatherLogSection;
@@ -2,8 +2,21 @@ import React, { useEffect, useRef } from "react";
 import Slot from "./Slot";
 import { Button } from "@/components/ui/button";
 import { Trash2, Plus } from "lucide-react";
+import ReorderHandle from "./ReorderHandle";
+import { useReorderDrop } from "@/hooks/useReorderDrop";
+import { REFERENCE_DRAG_TYPES } from "@/utils/referenceHelpers";
+import { REFERENCE_LAYOUTS } from "@/lib/referenceLayouts";
+
+const GRID_COLUMNS: Record<number, string> = {
+  1: "grid-cols-1",
+  2: "grid-cols-1 md:grid-cols-2",
+  3: "grid-cols-1 md:grid-cols-3",
+};
+
+export default function Entry({ entry, layout = REFERENCE_LAYOUTS["2-up"], onUpdate, onDelete, onMove, entryNumber, entryCount, onBulkUpload, movingSlotId, onPickSlot, onMoveSlot, readOnly = false, reportDate, sectionTitle }: any) {
+  // Entries only move within their own section; the drop target takes the dragged entry's place
+  const { isOver, dropProps } = useReorderDrop(REFERENCE_DRAG_TYPES.entry, (id) => onMove(id, entryNumber - 1));
 
-export default function Entry({ entry, onUpdate, onDelete, entryNumber, onBulkUpload }: any) {
   // Normalize slots if missing (migration from older shape)
   const normalizedSlots = entry.slots && Array.isArray(entry.slots)
     ? entry.slots
@@ -33,30 +46,37 @@ export default function Entry({ entry, onUpdate, onDelete, entryNumber, onBulkUp
   };
 
   const addSlot = () => {
-    if (entry.slots.length >= 2) return;
+    if (entry.slots.length >= layout.slots) return;
     const slots = [...entry.slots, { id: crypto.randomUUID(), image: null, caption: "" }];
     onUpdate({ ...entry, slots });
   };
 
   return (
-    <div className="relative mb-12 last:mb-0">
+    <div {...(readOnly ? {} : dropProps)} className={`relative mb-12 last:mb-0 rounded-lg ${isOver ? "ring-2 ring-primary ring-offset-4" : ""}`}>
       <div className="flex justify-between items-center mb-4">
-        <h3 className="text-lg font-semibold text-gray-700">Entry {entryNumber}</h3>
-        <div className="flex items-center gap-2">
-          <Button variant="ghost" onClick={() => onDelete(entry.id)} className="text-red-500 hover:text-red-600">
-            <Trash2 className="w-4 h-4" />
-          </Button>
-          {entry.slots.length < 2 ? (
-            <Button variant="outline" onClick={addSlot} className="text-sm">
-              <Plus className="w-4 h-4 mr-2" />Add Slot
-            </Button>
-          ) : null}
+        <div className="flex items-center gap-1">
+          {!readOnly && entryCount > 1 && (
+            <ReorderHandle id={entry.id} type={REFERENCE_DRAG_TYPES.entry} label={`Entry ${entryNumber}`} index={entryNumber - 1} count={entryCount} onMove={onMove} />
+          )}
+          <h3 className="text-lg font-semibold text-gray-700">Entry {entryNumber}</h3>
         </div>
+        {!readOnly && (
+          <div className="flex items-center gap-2">
+            <Button variant="ghost" onClick={() => onDelete(entry.id)} className="text-red-500 hover:text-red-600">
+              <Trash2 className="w-4 h-4" />
+            </Button>
+            {entry.slots.length < layout.slots ? (
+              <Button variant="outline" onClick={addSlot} className="text-sm">
+                <Plus className="w-4 h-4 mr-2" />Add Slot
+              </Button>
+            ) : null}
+          </div>
+        )}
       </div>
 
-      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+      <div className={`grid ${GRID_COLUMNS[layout.columns]} gap-6`}>
         {entry.slots.map((slot: any, idx: number) => (
-          <Slot key={slot.id} slot={slot} entryId={entry.id} slotIndex={idx} onUpdateSlot={updateSlot} onDeleteSlot={deleteSlot} onBulkUpload={onBulkUpload} />
+          <Slot key={slot.id} slot={slot} entryId={entry.id} slotIndex={idx} onUpdateSlot={updateSlot} onDeleteSlot={deleteSlot} onBulkUpload={onBulkUpload} movingSlotId={movingSlotId} onPickSlot={onPickSlot} onMoveSlot={onMoveSlot} readOnly={readOnly} reportDate={reportDate} sectionTitle={sectionTitle} />
         ))}
       </div>
     </div>
@@ -0,0 +1,314 @@
+import React, { useEffect, useRef, useState } from "react";
+import {
+  Circle,
+  Crop,
+  EyeOff,
+  Loader2,
+  MoveUpRight,
+  Pencil,
+  RotateCcw,
+  RotateCw,
+  Square,
+  Trash2,
+  Type,
+  Undo2,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import {
+  ANNOTATION_COLORS,
+  defaultStrokeWidth,
+  drawEdits,
+  EMPTY_EDITS,
+  loadImage,
+  rectFrom,
+  renderAnnotatedPhoto,
+  rotatedSize,
+  rotateEdits,
+} from "@/lib/photoAnnotation";
+import {
+  Annotation,
+  AnnotationPoint,
+  AnnotationTool,
+  PhotoCrop,
+  PhotoEdits,
+} from "@/types/annotation";
+
+interface Props {
+  open: boolean;
+  onClose: () => void;
+  // The unannotated photo; edits are always re-applied to it
+  source: File | string | null;
+  edits?: PhotoEdits;
+  onSave: (annotated: File, edits: PhotoEdits) => void;
+  // Offered when the slot already holds an annotated copy
+  onRevert?: () => void;
+}
+
+const TOOLS: { tool: AnnotationTool; label: string; icon: React.ReactNode }[] = [
+  { tool: "arrow", label: "Arrow", icon: <MoveUpRight className="w-4 h-4" /> },
+  { tool: "circle", label: "Circle", icon: <Circle className="w-4 h-4" /> },
+  { tool: "rect", label: "Rectangle", icon: <Square className="w-4 h-4" /> },
+  { tool: "freehand", label: "Freehand", icon: <Pencil className="w-4 h-4" /> },
+  { tool: "text", label: "Text", icon: <Type className="w-4 h-4" /> },
+  { tool: "blur", label: "Blur", icon: <EyeOff className="w-4 h-4" /> },
+  { tool: "crop", label: "Crop", icon: <Crop className="w-4 h-4" /> },
+];
+
+export default function PhotoAnnotationDialog({ open, onClose, source, edits: initialEdits, onSave, onRevert }: Props) {
+  const { toast } = useToast();
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const startRef = useRef<AnnotationPoint | null>(null);
+  const [image, setImage] = useState<HTMLImageElement | null>(null);
+  const [edits, setEdits] = useState<PhotoEdits>(EMPTY_EDITS);
+  const [tool, setTool] = useState<AnnotationTool>("arrow");
+  const [color, setColor] = useState(ANNOTATION_COLORS[0]);
+  const [text, setText] = useState("");
+  const [draft, setDraft] = useState<Annotation | null>(null);
+  const [draftCrop, setDraftCrop] = useState<PhotoCrop | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (!open || !source) return;
+
+    let cancelled = false;
+    setImage(null);
+    setEdits(initialEdits ?? EMPTY_EDITS);
+    setDraft(null);
+    setDraftCrop(null);
+    loadImage(source)
+      .then((img) => !cancelled && setImage(img))
+      .catch(() => {
+        if (cancelled) return;
+        toast({
+          title: "Could not open photo",
+          description: "The photo could not be loaded for editing.",
+          variant: "destructive",
+        });
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [open, source, initialEdits, toast]);
+
+  // Redraw the working view: full photo with annotations, crop shown as a dimmed frame
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || !image) return;
+    const ctx = drawEdits(canvas, image, draft ? { ...edits, annotations: [...edits.annotations, draft] } : edits);
+    const crop = draftCrop ?? edits.crop;
+    if (crop) {
+      ctx.save();
+      ctx.fillStyle = "rgba(0, 0, 0, 0.5)";
+      ctx.beginPath();
+      ctx.rect(0, 0, canvas.width, canvas.height);
+      ctx.rect(crop.x, crop.y, crop.width, crop.height);
+      ctx.fill("evenodd");
+      ctx.strokeStyle = "#ffffff";
+      ctx.lineWidth = defaultStrokeWidth(canvas) / 2;
+      ctx.setLineDash([12, 8]);
+      ctx.strokeRect(crop.x, crop.y, crop.width, crop.height);
+      ctx.restore();
+    }
+  }, [image, edits, draft, draftCrop]);
+
+  const size = image ? rotatedSize(image, edits.rotation) : { width: 0, height: 0 };
+  const strokeWidth = defaultStrokeWidth(size);
+
+  // Pointer position in photo pixels (the canvas is scaled down by CSS)
+  const pointFrom = (e: React.PointerEvent<HTMLCanvasElement>): AnnotationPoint => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return {
+      x: Math.min(Math.max(((e.clientX - rect.left) / rect.width) * size.width, 0), size.width),
+      y: Math.min(Math.max(((e.clientY - rect.top) / rect.height) * size.height, 0), size.height),
+    };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!image) return;
+    const p = pointFrom(e);
+
+    if (tool === "text") {
+      if (!text.trim()) {
+        toast({ description: "Type the label text first, then click where it should go." });
+        return;
+      }
+      setEdits({ ...edits, annotations: [...edits.annotations, { kind: "text", at: p, text: text.trim(), color, size: strokeWidth * 6 }] });
+      return;
+    }
+
+    e.currentTarget.setPointerCapture(e.pointerId);
+    startRef.current = p;
+    if (tool === "crop") setDraftCrop(rectFrom(p, p));
+    else if (tool === "freehand") setDraft({ kind: "freehand", points: [p], color, width: strokeWidth });
+    else if (tool === "blur") setDraft({ kind: "blur", from: p, to: p });
+    else setDraft({ kind: tool, from: p, to: p, color, width: strokeWidth });
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!startRef.current) return;
+    const p = pointFrom(e);
+    if (tool === "crop") {
+      setDraftCrop(rectFrom(startRef.current, p));
+      return;
+    }
+    setDraft((current) => {
+      if (!current) return current;
+      if (current.kind === "freehand") return { ...current, points: [...current.points, p] };
+      if (current.kind === "text") return current;
+      return { ...current, to: p };
+    });
+  };
+
+  const handlePointerUp = () => {
+    if (!startRef.current) return;
+    startRef.current = null;
+    // Ignore clicks that didn't drag far enough to mean anything
+    const minSize = strokeWidth * 2;
+
+    if (tool === "crop") {
+      if (draftCrop && draftCrop.width > minSize && draftCrop.height > minSize) {
+        setEdits({ ...edits, crop: draftCrop });
+      }
+      setDraftCrop(null);
+      return;
+    }
+
+    if (draft) {
+      const big =
+        draft.kind === "freehand"
+          ? draft.points.length > 1
+          : draft.kind !== "text" && (Math.abs(draft.to.x - draft.from.x) > minSize || Math.abs(draft.to.y - draft.from.y) > minSize);
+      if (big) setEdits({ ...edits, annotations: [...edits.annotations, draft] });
+    }
+    setDraft(null);
+  };
+
+  const rotate = (direction: 1 | -1) => {
+    if (image) setEdits(rotateEdits(edits, direction, size));
+  };
+
+  const handleSave = async () => {
+    if (!image) return;
+    setIsSaving(true);
+    try {
+      const blob = await renderAnnotatedPhoto(image, edits);
+      const baseName = source instanceof File ? source.name.replace(/\.[^.]+$/, "") : "photo";
+      onSave(new File([blob], `${baseName}-annotated.jpg`, { type: "image/jpeg" }), edits);
+      onClose();
+    } catch (e) {
+      toast({
+        title: "Could not save annotations",
+        description: e instanceof Error ? e.message : "Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-[960px]">
+        <DialogHeader>
+          <DialogTitle>Annotate Photo</DialogTitle>
+          <DialogDescription>
+            Mark up the photo for the report. The original is kept and can be restored at any time.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex flex-wrap items-center gap-2">
+          {TOOLS.map(({ tool: t, label, icon }) => (
+            <Button key={t} variant={tool === t ? "default" : "outline"} size="icon" onClick={() => setTool(t)} title={label} aria-label={label} aria-pressed={tool === t}>
+              {icon}
+            </Button>
+          ))}
+          <div className="mx-1 h-6 w-px bg-border" />
+          {ANNOTATION_COLORS.map((c) => (
+            <button
+              key={c}
+              type="button"
+              onClick={() => setColor(c)}
+              className={`h-6 w-6 rounded-full border ${color === c ? "ring-2 ring-primary ring-offset-2" : ""}`}
+              style={{ backgroundColor: c }}
+              aria-label={`Color ${c}`}
+              aria-pressed={color === c}
+            />
+          ))}
+          <div className="mx-1 h-6 w-px bg-border" />
+          <Button variant="outline" size="icon" onClick={() => rotate(-1)} title="Rotate left" aria-label="Rotate left">
+            <RotateCcw className="w-4 h-4" />
+          </Button>
+          <Button variant="outline" size="icon" onClick={() => rotate(1)} title="Rotate right" aria-label="Rotate right">
+            <RotateCw className="w-4 h-4" />
+          </Button>
+          <Button variant="outline" size="icon" onClick={() => setEdits({ ...edits, annotations: edits.annotations.slice(0, -1) })} disabled={edits.annotations.length === 0} title="Undo" aria-label="Undo">
+            <Undo2 className="w-4 h-4" />
+          </Button>
+          <Button variant="outline" size="icon" onClick={() => setEdits(EMPTY_EDITS)} disabled={edits === EMPTY_EDITS} title="Clear all edits" aria-label="Clear all edits">
+            <Trash2 className="w-4 h-4" />
+          </Button>
+          {edits.crop && (
+            <Button variant="ghost" size="sm" onClick={() => setEdits({ ...edits, crop: undefined })}>
+              Remove crop
+            </Button>
+          )}
+        </div>
+
+        {tool === "text" && (
+          <Input value={text} onChange={(e) => setText(e.target.value)} placeholder="Label text, then click on the photo to place it" />
+        )}
+
+        <div className="flex min-h-[300px] items-center justify-center rounded-md bg-muted/50 p-2">
+          {image ? (
+            <canvas
+              ref={canvasRef}
+              className="block touch-none cursor-crosshair"
+              style={{ maxWidth: "100%", maxHeight: "60vh" }}
+              onPointerDown={handlePointerDown}
+              onPointerMove={handlePointerMove}
+              onPointerUp={handlePointerUp}
+              onPointerCancel={handlePointerUp}
+            />
+          ) : (
+            <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+          )}
+        </div>
+
+        <DialogFooter className="gap-2 sm:justify-between">
+          <div>
+            {onRevert && (
+              <Button
+                variant="ghost"
+                onClick={() => {
+                  onRevert();
+                  onClose();
+                }}
+              >
+                Restore Original
+              </Button>
+            )}
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={onClose}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={!image || isSaving}>
+              {isSaving ? "Saving..." : "Save Annotations"}
+            </Button>
+          </div>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,48 @@
+import React from "react";
+import { GripVertical } from "lucide-react";
+
+interface Props {
+  id: string;
+  // dataTransfer type, see REFERENCE_DRAG_TYPES
+  type: string;
+  label: string;
+  index: number;
+  count: number;
+  onMove: (id: string, toIndex: number) => void;
+}
+
+const KEY_OFFSETS: Record<string, number> = { ArrowUp: -1, ArrowLeft: -1, ArrowDown: 1, ArrowRight: 1 };
+
+export default function ReorderHandle({ id, type, label, index, count, onMove }: Props) {
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLButtonElement>) => {
+    let toIndex: number;
+    if (e.key in KEY_OFFSETS) toIndex = index + KEY_OFFSETS[e.key];
+    else if (e.key === "Home") toIndex = 0;
+    else if (e.key === "End") toIndex = count - 1;
+    else return;
+
+    e.preventDefault();
+    if (toIndex < 0 || toIndex >= count || toIndex === index) return;
+    onMove(id, toIndex);
+    // The moved node is re-inserted by React, which drops focus
+    requestAnimationFrame(() => document.querySelector<HTMLElement>(`[data-reorder-id="${id}"]`)?.focus());
+  };
+
+  return (
+    <button
+      type="button"
+      draggable
+      data-reorder-id={id}
+      onDragStart={(e) => {
+        e.dataTransfer.setData(type, id);
+        e.dataTransfer.effectAllowed = "move";
+      }}
+      onKeyDown={handleKeyDown}
+      className="inline-flex items-center p-2 rounded-md text-muted-foreground hover:bg-muted cursor-grab active:cursor-grabbing focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+      title="Drag, or focus and use the arrow keys, to reorder"
+      aria-label={`${label}, position ${index + 1} of ${count}. Use the arrow keys to move.`}
+    >
+      <GripVertical className="w-4 h-4" />
+    </button>
+  );
+}
@@ -4,11 +4,28 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Trash2, Check, X, ImagePlus, Image, UploadCloud } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import { PhotoMetadata, readPhotoMetadata } from "@/lib/photoMetadata";
+import { compressImage, formatBytes } from "@/lib/imageCompression";
+import { ReferenceLayout, ReferenceSlot } from "@/types/report";
+import ReorderHandle from "./ReorderHandle";
+import { useReorderDrop } from "@/hooks/useReorderDrop";
+import { moveItem, REFERENCE_DRAG_TYPES } from "@/utils/referenceHelpers";
+import { DEFAULT_REFERENCE_LAYOUT, emptySlot, fitEntriesToLayout, layoutOf, REFERENCE_LAYOUTS } from "@/lib/referenceLayouts";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 
-export default function Section({ section, onUpdate, onDelete }: any) {
+export default function Section({ section, index, count, onUpdate, onDelete, onMove, movingSlotId, onPickSlot, onMoveSlot, readOnly = false, reportDate }: any) {
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
+  // Dropping another section here moves it to this section's position
+  const { isOver, dropProps } = useReorderDrop(REFERENCE_DRAG_TYPES.section, (id) => onMove(id, index));
 
-  // Add a new entry (single-image entry)
+  const layout = layoutOf(section);
+
+  // Bulk imports compress photo by photo; they merge into the section as it is
+  // once they finish, not as it was when the files were picked
+  const latest = useRef({ section, onUpdate });
+  latest.current = { section, onUpdate };
+
+  // Add a new entry with as many empty slots as the layout holds
   const addEntry = () => {
     onUpdate({
       ...section,
@@ -16,13 +33,16 @@ export default function Section({ section, onUpdate, onDelete }: any) {
         ...section.entries,
         {
           id: crypto.randomUUID(),
-          image: null,
-          caption: "",
+          slots: Array.from({ length: layout.slots }, emptySlot),
         },
       ],
     });
   };
 
+  const changeLayout = (value: ReferenceLayout) => {
+    onUpdate({ ...section, layout: value, entries: fitEntriesToLayout(section.entries, value) });
+  };
+
   const updateEntry = (updatedEntry: any) => {
     onUpdate({ ...section, entries: section.entries.map((e: any) => (e.id === updatedEntry.id ? updatedEntry : e)) });
   };
@@ -31,6 +51,10 @@ export default function Section({ section, onUpdate, onDelete }: any) {
     onUpdate({ ...section, entries: section.entries.filter((e: any) => e.id !== id) });
   };
 
+  const moveEntry = (id: string, toIndex: number) => {
+    onUpdate({ ...section, entries: moveItem(section.entries, id, toIndex) });
+  };
+
   const handleDelete = () => {
     if (showDeleteConfirm) {
       onDelete(section.id);
@@ -42,11 +66,11 @@ export default function Section({ section, onUpdate, onDelete }: any) {
 
   const cancelDelete = () => setShowDeleteConfirm(false);
 
-  // Bulk upload support: create or fill entries (each entry holds up to 2 images)
+  // Bulk upload support: create or fill entries (each entry holds as many images as the layout)
   const fileInputRef = useRef<HTMLInputElement | null>(null);
   const { toast } = useToast();
 
-  const handleBulkUploadFiles = (files: FileList | null, targetEntryId?: string, targetSlotId?: string) => {
+  const handleBulkUploadFiles = async (files: FileList | null, targetEntryId?: string, targetSlotId?: string) => {
     if (!files) return;
     const imageFiles = Array.from(files).filter((f) => f.type.startsWith("image/"));
     if (imageFiles.length === 0) {
@@ -54,20 +78,36 @@ export default function Section({ section, onUpdate, onDelete }: any) {
       return;
     }
 
+    // Capture time and GPS travel with each photo into its slot; read them before
+    // compression re-encodes the file without EXIF. The worker handles one image at a time.
+    const metadata = new Map<File, PhotoMetadata>();
+    const processed: File[] = [];
+    let savedBytes = 0;
+    for (const original of imageFiles) {
+      const meta = await readPhotoMetadata(original);
+      const { file, savedBytes: saved } = await compressImage(original);
+      metadata.set(file, meta);
+      processed.push(file);
+      savedBytes += saved;
+    }
+
     const MAX_SIZE = 10 * 1024 * 1024; // 10MB
-    const allowed = imageFiles.filter((f) => f.size <= MAX_SIZE);
-    const rejectedCount = imageFiles.length - allowed.length;
+    const allowed = processed.filter((f) => f.size <= MAX_SIZE);
+    const rejectedCount = processed.length - allowed.length;
 
     if (allowed.length === 0) {
       toast({ description: "All selected images exceed the 10MB limit and were rejected." });
       return;
     }
+    const fillSlot = (slot: ReferenceSlot, file: File) => Object.assign(slot, { image: file, takenAt: undefined, location: undefined, ...metadata.get(file) });
+    const { section: current, onUpdate: update } = latest.current;
+    const currentLayout = layoutOf(current);
 
     // Convert to mutable array
     let remaining = [...allowed];
 
     // Ensure all entries have slots (migrate from images/footers if necessary)
-    const entries = section.entries.map((e: any) => {
+    const entries = current.entries.map((e: any) => {
       if (e.slots && Array.isArray(e.slots)) return { ...e, slots: e.slots.map((s: any) => ({ ...s })) };
       // migrate old format
       const s1 = { id: crypto.randomUUID(), image: e.images?.image1 ?? null, caption: e.footers?.[0] ?? "" };
@@ -83,7 +123,7 @@ export default function Section({ section, onUpdate, onDelete }: any) {
       if (targetEntry) {
         const targetSlot = targetEntry.slots.find((s: any) => s.id === targetSlotId);
         if (targetSlot && targetSlot.image == null && remaining.length > 0) {
-          targetSlot.image = remaining.shift() as File;
+          fillSlot(targetSlot, remaining.shift() as File);
           filledCount++;
         }
       }
@@ -94,27 +134,29 @@ export default function Section({ section, onUpdate, onDelete }: any) {
       const e = entries[i];
       for (let j = 0; j < e.slots.length && remaining.length > 0; j++) {
         if (e.slots[j].image == null) {
-          e.slots[j].image = remaining.shift() as File;
+          fillSlot(e.slots[j], remaining.shift() as File);
           filledCount++;
         }
       }
     }
 
-    // Group remaining files into pairs to create new entries with up to 2 slots
+    // Group remaining files into new entries filled up to the layout's slot count
     const newEntries: any[] = [];
-    for (let i = 0; i < remaining.length; i += 2) {
-      const first = remaining[i];
-      const second = remaining[i + 1] ?? null;
-      newEntries.push({ id: crypto.randomUUID(), slots: [ { id: crypto.randomUUID(), image: first, caption: "" }, { id: crypto.randomUUID(), image: second, caption: "" } ] });
+    for (let i = 0; i < remaining.length; i += currentLayout.slots) {
+      const slots = Array.from({ length: currentLayout.slots }, (_, j) => {
+        const file = remaining[i + j];
+        return file ? { id: crypto.randomUUID(), image: file, caption: "", ...metadata.get(file) } : emptySlot();
+      });
+      newEntries.push({ id: crypto.randomUUID(), slots });
     }
 
     const addedImages = allowed.length;
 
-    onUpdate({ ...section, entries: [...entries, ...newEntries] });
+    update({ ...current, entries: [...entries, ...newEntries] });
 
     toast({
       title: `${addedImages} image(s) processed. ${filledCount ? `${filledCount} filled into existing entries.` : ""}`,
-      description: `${newEntries.length} new entr${newEntries.length !== 1 ? "ies" : "y"} created.${rejectedCount ? ` ${rejectedCount} file(s) were too large and skipped.` : ""}`,
+      description: `${newEntries.length} new entr${newEntries.length !== 1 ? "ies" : "y"} created.${savedBytes ? ` Compression saved ${formatBytes(savedBytes)}.` : ""}${rejectedCount ? ` ${rejectedCount} file(s) were too large and skipped.` : ""}`,
     });
 
     // clear input if present
@@ -128,10 +170,13 @@ export default function Section({ section, onUpdate, onDelete }: any) {
   };
 
   return (
-    <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden transition-shadow hover:shadow-md">
+    <div {...(readOnly ? {} : dropProps)} className={`bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden transition-shadow hover:shadow-md ${isOver ? "ring-2 ring-primary" : ""}`}>
       {/* Section Header */}
       <div className="bg-gradient-to-r from-indigo-50 to-indigo-100 border-b border-indigo-200 px-6 py-4">
         <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+          {!readOnly && count > 1 && (
+            <ReorderHandle id={section.id} type={REFERENCE_DRAG_TYPES.section} label={`Section ${section.title || index + 1}`} index={index} count={count} onMove={onMove} />
+          )}
           <div className="flex-1">
             <label htmlFor={`section-title-${section.id}`} className="sr-only">Section Title</label>
             <Input
@@ -141,36 +186,52 @@ export default function Section({ section, onUpdate, onDelete }: any) {
               onChange={(e) => onUpdate({ ...section, title: e.target.value })}
               placeholder="Enter section title..."
               className="text-lg font-semibold"
+              readOnly={readOnly}
               aria-label="Section title"
             />
           </div>
-          <div className="flex items-center gap-2">
-            {/* Bulk upload input (hidden) */}
-            <input ref={fileInputRef} onChange={onFileInputChange} type="file" accept="image/*" multiple className="hidden" />
+          {!readOnly && (
+            <div className="flex items-center gap-2">
+              {/* Bulk upload input (hidden) */}
+              <input ref={fileInputRef} onChange={onFileInputChange} type="file" accept="image/*" multiple className="hidden" />
 
-            <Button variant="outline" onClick={() => fileInputRef.current?.click()} className="inline-flex items-center gap-2">
-              <UploadCloud className="w-4 h-4" />
-              Upload Images
-            </Button>
+              <Select value={section.layout ?? DEFAULT_REFERENCE_LAYOUT} onValueChange={(v) => changeLayout(v as ReferenceLayout)}>
+                <SelectTrigger className="w-[190px] bg-white" aria-label="Photo layout">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(REFERENCE_LAYOUTS) as ReferenceLayout[]).map((key) => (
+                    <SelectItem key={key} value={key}>
+                      {REFERENCE_LAYOUTS[key].label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
 
-            {showDeleteConfirm ? (
-              <>
-                <Button variant="destructive" onClick={handleDelete} className="text-sm px-3 py-1.5"><Check className="w-4 h-4 mr-2" />Confirm</Button>
-                <Button variant="ghost" onClick={cancelDelete}><X className="w-4 h-4 mr-2" />Cancel</Button>
-              </>
-            ) : (
-              <Button variant="destructive" onClick={handleDelete} className="text-sm px-3 py-1.5"><Trash2 className="w-4 h-4 mr-2" />Delete Section</Button>
-            )}
-          </div>
+              <Button variant="outline" onClick={() => fileInputRef.current?.click()} className="inline-flex items-center gap-2">
+                <UploadCloud className="w-4 h-4" />
+                Upload Images
+              </Button>
+
+              {showDeleteConfirm ? (
+                <>
+                  <Button variant="destructive" onClick={handleDelete} className="text-sm px-3 py-1.5"><Check className="w-4 h-4 mr-2" />Confirm</Button>
+                  <Button variant="ghost" onClick={cancelDelete}><X className="w-4 h-4 mr-2" />Cancel</Button>
+                </>
+              ) : (
+                <Button variant="destructive" onClick={handleDelete} className="text-sm px-3 py-1.5"><Trash2 className="w-4 h-4 mr-2" />Delete Section</Button>
+              )}
+            </div>
+          )}
         </div>
       </div>
 
       <div className="p-6">
         {section.entries.length > 0 ? (
-          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          <div className="grid grid-cols-1 gap-6">
             {section.entries.map((entry: any, index: number) => (
               <div key={entry.id} className="relative">
-                <Entry entry={entry} onUpdate={updateEntry} onDelete={deleteEntry} entryNumber={index + 1} onBulkUpload={handleBulkUploadFiles} />
+                <Entry entry={entry} layout={layout} onUpdate={updateEntry} onDelete={deleteEntry} onMove={moveEntry} entryNumber={index + 1} entryCount={section.entries.length} onBulkUpload={handleBulkUploadFiles} movingSlotId={movingSlotId} onPickSlot={onPickSlot} onMoveSlot={onMoveSlot} readOnly={readOnly} reportDate={reportDate} sectionTitle={section.title} />
               </div>
             ))}
           </div>
@@ -181,12 +242,14 @@ export default function Section({ section, onUpdate, onDelete }: any) {
           </div>
         )}
 
-        <div className="flex items-center justify-end gap-3 mt-6">
-          <Button onClick={addEntry} className="inline-flex items-center gap-2 bg-primary px-4 py-2 text-sm font-semibold text-white"> 
-            <ImagePlus className="w-4 h-4" />
-            Add Entry
-          </Button>
-        </div>
+        {!readOnly && (
+          <div className="flex items-center justify-end gap-3 mt-6">
+            <Button onClick={addEntry} className="inline-flex items-center gap-2 bg-primary px-4 py-2 text-sm font-semibold text-white"> 
+              <ImagePlus className="w-4 h-4" />
+              Add Entry
+            </Button>
+          </div>
+        )}
       </div>
     </div>
   );
@@ -2,13 +2,15 @@ import React from "react";
 import Section from "./Section";
 import { PlusCircle, Folder } from "lucide-react";
 
-export default function SectionList({ sections, onUpdate, onDelete, onAdd }: any) {
+export default function SectionList({ sections, onUpdate, onDelete, onAdd, onMove, movingSlotId, onPickSlot, onMoveSlot, readOnly = false, reportDate }: any) {
   return (
     <div className="space-y-6 mb-8">
       {sections.length > 0 ? (
-        sections.map((section: any) => (
-          <Section key={section.id} section={section} onUpdate={onUpdate} onDelete={onDelete} />
+        sections.map((section: any, index: number) => (
+          <Section key={section.id} section={section} index={index} count={sections.length} onUpdate={onUpdate} onDelete={onDelete} onMove={onMove} movingSlotId={movingSlotId} onPickSlot={onPickSlot} onMoveSlot={onMoveSlot} readOnly={readOnly} reportDate={reportDate} />
         ))
+      ) : readOnly ? (
+        <p className="text-center py-8 text-gray-500 text-sm">No reference photos.</p>
       ) : (
         <div className="text-center py-12 bg-white rounded-lg border-2 border-dashed border-gray-300">
           <Folder className="w-12 h-12 text-gray-300 mb-4 mx-auto" aria-hidden="true" />
@@ -1,7 +1,11 @@
-import React from "react";
+import React, { useState } from "react";
 import { Input } from "@/components/ui/input";
-import { Image, Trash2, Plus } from "lucide-react";
+import { Image, Trash2, Plus, Clock, MapPin, AlertTriangle, Sparkles, Loader2, PenLine, Move } from "lucide-react";
 import { useSlotLogic } from "@/hooks/useSlotLogic";
+import PhotoAnnotationDialog from "./PhotoAnnotationDialog";
+import { PhotoEdits } from "@/types/annotation";
+import { REFERENCE_DRAG_TYPES } from "@/utils/referenceHelpers";
+import { formatLocation, formatTakenAt, isTakenOnOtherDay, mapLink, suggestCaption } from "@/lib/photoMetadata";
 
 interface Props {
   slot: any;
@@ -10,10 +14,51 @@ interface Props {
   onUpdateSlot: (s: any) => void;
   onDeleteSlot: (slotId: string) => void;
   onBulkUpload?: (files: FileList | File[], entryId?: string, slotId?: string) => void;
+  readOnly?: boolean;
+  reportDate?: Date;
+  sectionTitle?: string;
+  // Keyboard moves: a photo is picked up on one slot and dropped on another
+  movingSlotId?: string | null;
+  onPickSlot?: (slotId: string | null) => void;
+  onMoveSlot?: (fromId: string, toId: string) => void;
 }
 
-export default function Slot({ slot, entryId, slotIndex, onUpdateSlot, onDeleteSlot, onBulkUpload }: Props) {
-  const logic = useSlotLogic(slot, entryId, onUpdateSlot, onBulkUpload);
+export default function Slot({ slot, entryId, slotIndex, onUpdateSlot, onDeleteSlot, onBulkUpload, readOnly = false, reportDate, sectionTitle, movingSlotId, onPickSlot, onMoveSlot }: Props) {
+  const logic = useSlotLogic(slot, entryId, onUpdateSlot, onBulkUpload, readOnly, onMoveSlot);
+  const suggestion = !readOnly && slot.image && !slot.caption?.trim() ? suggestCaption(slot, sectionTitle) : "";
+  const [annotating, setAnnotating] = useState(false);
+  const isAnnotated = !!slot.edits && !!slot.image;
+
+  // Annotations are always redrawn on the untouched photo, which is kept in `original`
+  const handleSaveAnnotations = (annotated: File, edits: PhotoEdits) => {
+    onUpdateSlot({ ...slot, original: slot.original ?? slot.image, image: annotated, edits });
+  };
+
+  const isMoving = movingSlotId === slot.id;
+
+  const handleMoveClick = () => {
+    if (!movingSlotId) onPickSlot?.(slot.id);
+    else if (isMoving) onPickSlot?.(null);
+    else onMoveSlot?.(movingSlotId, slot.id);
+  };
+
+  const moveLabel = isMoving
+    ? `Cancel moving image ${slotIndex + 1}`
+    : movingSlotId
+      ? `Move the picked photo to slot ${slotIndex + 1}`
+      : `Move image ${slotIndex + 1}`;
+
+  const handleRevert = () => {
+    onUpdateSlot({
+      ...slot,
+      image: slot.original,
+      original: null,
+      // An uploaded original is read back from its own local copy
+      photoId: typeof slot.original === "string" ? slot.originalPhotoId : slot.photoId,
+      originalPhotoId: undefined,
+      edits: undefined,
+    });
+  };
 
   return (
     <div className="flex flex-col relative">
@@ -22,7 +67,7 @@ export default function Slot({ slot, entryId, slotIndex, onUpdateSlot, onDeleteS
         onDragLeave={logic.handleDrag}
         onDragOver={logic.handleDrag}
         onDrop={logic.handleDrop}
-        className={`relative w-full aspect-[4/3] overflow-hidden rounded-lg border border-border bg-card transition-all duration-150 ${logic.dragActive ? "scale-[1.02] shadow-md" : "shadow-sm"} cursor-pointer`}
+        className={`relative w-full aspect-[4/3] overflow-hidden rounded-lg border border-border bg-card transition-all duration-150 ${logic.dragActive ? "scale-[1.02] shadow-md" : "shadow-sm"} ${isMoving ? "ring-2 ring-primary" : ""} cursor-pointer`}
         role="button"
         tabIndex={0}
         aria-label={`Upload photo ${slotIndex + 1}`}
@@ -30,11 +75,17 @@ export default function Slot({ slot, entryId, slotIndex, onUpdateSlot, onDeleteS
         {logic.imageUrl ? (
           <div className="relative w-full h-full group/image">
             <img src={logic.imageUrl} alt={`Preview`} className="w-full h-full object-cover rounded-lg" />
-            <div className="absolute inset-0 bg-black/30 opacity-0 group-hover/image:opacity-100 transition-opacity flex items-center justify-center gap-3">
+            {isAnnotated && (
+              <span className="absolute top-2 left-2 z-20 pointer-events-none inline-flex items-center gap-1 rounded-full bg-background/90 px-2 py-0.5 text-xs font-medium text-foreground shadow-sm">
+                <PenLine className="w-3 h-3" />
+                Annotated
+              </span>
+            )}
+            {!readOnly && <div className="absolute inset-0 bg-black/30 opacity-0 group-hover/image:opacity-100 transition-opacity flex items-center justify-center gap-3">
               <button type="button" onClick={(e) => logic.removeImage(e)} className="p-2 bg-red-600 hover:bg-red-700 text-white rounded-full transition-colors" title="Remove Image" aria-label={`Remove image ${slotIndex + 1}`}>
                 <Trash2 className="w-4 h-4" />
               </button>
-            </div>
+            </div>}
           </div>
         ) : (
           <div className="absolute inset-0 flex flex-col justify-center items-center">
@@ -46,15 +97,84 @@ export default function Slot({ slot, entryId, slotIndex, onUpdateSlot, onDeleteS
           </div>
         )}
 
-        <input id={`slot-file-${slot.id}`} ref={logic.fileInputRef} type="file" accept="image/*" multiple onChange={(e) => logic.handleImageChange(e)} className="absolute inset-0 w-full h-full opacity-0 cursor-pointer z-10" aria-label={`Upload image ${slotIndex + 1}`} />
+        {logic.isProcessing && (
+          <div className="absolute inset-0 z-20 flex flex-col items-center justify-center gap-2 bg-background/70 text-xs text-muted-foreground">
+            <Loader2 className="w-5 h-5 animate-spin" />
+            Optimizing photo...
+          </div>
+        )}
+
+        {!readOnly && <input id={`slot-file-${slot.id}`} ref={logic.fileInputRef} type="file" accept="image/*" multiple onChange={(e) => logic.handleImageChange(e)} className="absolute inset-0 w-full h-full opacity-0 cursor-pointer z-10" aria-label={`Upload image ${slotIndex + 1}`} />}
       </div>
 
       <div className="mt-3 flex items-center gap-2">
-        <Input id={`caption-${slot.id}`} type="text" placeholder="Enter caption..." value={slot.caption || ""} onChange={logic.handleCaptionChange} className="flex-1 text-center" aria-label={`Caption for image ${slotIndex + 1}`} />
-        <button type="button" onClick={() => onDeleteSlot(slot.id)} className="inline-flex items-center p-2 rounded-md text-sm text-red-500 hover:bg-red-50" aria-label={`Delete slot ${slotIndex + 1}`}>
+        <Input id={`caption-${slot.id}`} type="text" placeholder="Enter caption..." value={slot.caption || ""} onChange={logic.handleCaptionChange} className="flex-1 text-center" aria-label={`Caption for image ${slotIndex + 1}`} readOnly={readOnly} />
+        {!readOnly && (slot.image || movingSlotId) && <button
+          type="button"
+          draggable={!!slot.image}
+          onDragStart={(e) => {
+            e.dataTransfer.setData(REFERENCE_DRAG_TYPES.slot, slot.id);
+            e.dataTransfer.effectAllowed = "move";
+          }}
+          onClick={handleMoveClick}
+          onKeyDown={(e) => e.key === "Escape" && movingSlotId && onPickSlot?.(null)}
+          className={`inline-flex items-center p-2 rounded-md text-sm cursor-grab ${isMoving ? "bg-primary text-primary-foreground" : "text-muted-foreground hover:bg-muted"}`}
+          title="Drag onto another slot, or press to pick up and then choose a destination"
+          aria-label={moveLabel}
+          aria-pressed={isMoving}
+        >
+          <Move className="w-4 h-4" />
+        </button>}
+        {!readOnly && slot.image && <button type="button" onClick={() => setAnnotating(true)} className="inline-flex items-center p-2 rounded-md text-sm text-primary hover:bg-primary/10" title="Annotate photo" aria-label={`Annotate image ${slotIndex + 1}`}>
+          <PenLine className="w-4 h-4" />
+        </button>}
+        {!readOnly && <button type="button" onClick={() => onDeleteSlot(slot.id)} className="inline-flex items-center p-2 rounded-md text-sm text-red-500 hover:bg-red-50" aria-label={`Delete slot ${slotIndex + 1}`}>
           <Trash2 className="w-4 h-4" />
-        </button>
+        </button>}
       </div>
+
+      {suggestion && (
+        <button type="button" onClick={() => logic.applyCaption(suggestion)} className="mt-1 inline-flex items-center justify-center gap-1 text-xs text-primary hover:underline" aria-label={`Use suggested caption for image ${slotIndex + 1}`}>
+          <Sparkles className="w-3 h-3" />
+          Use "{suggestion}"
+        </button>
+      )}
+
+      {slot.image && (slot.takenAt || slot.location) && (
+        <div className="mt-2 space-y-1 text-xs text-muted-foreground">
+          {slot.takenAt && (
+            <p className="flex items-center gap-1">
+              <Clock className="w-3 h-3" />
+              {formatTakenAt(slot.takenAt)}
+            </p>
+          )}
+          {slot.location && (
+            <p className="flex items-center gap-1">
+              <MapPin className="w-3 h-3" />
+              <a href={mapLink(slot.location)} target="_blank" rel="noreferrer" className="hover:underline">
+                {formatLocation(slot.location)}
+              </a>
+            </p>
+          )}
+          {isTakenOnOtherDay(slot.takenAt, reportDate) && (
+            <p className="flex items-center gap-1 text-warning">
+              <AlertTriangle className="w-3 h-3" />
+              Taken on a different day than this report
+            </p>
+          )}
+        </div>
+      )}
+
+      {!readOnly && (
+        <PhotoAnnotationDialog
+          open={annotating}
+          onClose={() => setAnnotating(false)}
+          source={slot.original ?? slot.image}
+          edits={slot.edits}
+          onSave={handleSaveAnnotations}
+          onRevert={slot.original ? handleRevert : undefined}
+        />
+      )}
     </div>
   );
 }
@@ -31,6 +31,8 @@ const getPythonApiBaseUrl = (): string => {
 
 export const API_BASE_URL = getApiBaseUrl();
 export const PYTHON_API_BASE_URL = getPythonApiBaseUrl();
+// Weather observation provider; empty until configured here or in the app
+export const WEATHER_API_BASE_URL = import.meta.env.VITE_WEATHER_API_BASE_URL || "";
 
 export const API_ENDPOINTS = {
   AUTH: {
@@ -45,6 +47,20 @@ export const API_ENDPOINTS = {
     BASE: `${API_BASE_URL}/daily-reports`,
     SAVE: `${API_BASE_URL}/daily-reports/save`,
     SUBMIT: `${API_BASE_URL}/daily-reports/submit`,
-    GET_BY_DATE: (date: string) => `${API_BASE_URL}/daily-reports/date/${date}`,
+    PHOTOS: `${API_BASE_URL}/daily-reports/photos`,
+    REVIEW: `${API_BASE_URL}/daily-reports/review`,
+    AMEND: `${API_BASE_URL}/daily-reports/amend`,
+    VERSIONS: (date: string, projectId?: string) =>
+      `${API_BASE_URL}/daily-reports/date/${date}/versions${
+        projectId ? `?projectId=${encodeURIComponent(projectId)}` : ""
+      }`,
+    GET_BY_DATE: (date: string, projectId?: string) =>
+      `${API_BASE_URL}/daily-reports/date/${date}${
+        projectId ? `?projectId=${encodeURIComponent(projectId)}` : ""
+      }`,
+  },
+  PROJECTS: {
+    BASE: `${API_BASE_URL}/projects`,
+    BY_ID: (id: string) => `${API_BASE_URL}/projects/${id}`,
   },
 };
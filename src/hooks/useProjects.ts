@@ -0,0 +1,30 @@
+import { useCallback, useEffect, useState } from "react";
+import { fetchProjects, saveProject } from "@/integrations/projectsApi";
+import { Project } from "@/types/project";
+
+export const useProjects = () => {
+  const [projects, setProjects] = useState<Project[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    fetchProjects()
+      .then(setProjects)
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  const upsertProject = useCallback(
+    async (project: Omit<Project, "id"> & { id?: string }) => {
+      const saved = await saveProject(project);
+      setProjects((prev) => [...prev.filter((p) => p.id !== saved.id), saved]);
+      return saved;
+    },
+    []
+  );
+
+  const getProject = useCallback(
+    (id: string | undefined) => projects.find((p) => p.id === id) ?? null,
+    [projects]
+  );
+
+  return { projects, isLoading, upsertProject, getProject };
+};
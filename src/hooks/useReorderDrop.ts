@@ -0,0 +1,32 @@
+import { useState } from "react";
+
+// Drop target for reference items dragged by a handle that sets `type` on dataTransfer.
+// Other drags (files, other item types) pass through untouched.
+export function useReorderDrop(type: string, onDropId: (id: string) => void) {
+  const [isOver, setIsOver] = useState(false);
+
+  const accepts = (e: React.DragEvent) => e.dataTransfer.types.includes(type);
+
+  const dropProps = {
+    onDragOver: (e: React.DragEvent) => {
+      if (!accepts(e)) return;
+      e.preventDefault();
+      e.stopPropagation();
+      e.dataTransfer.dropEffect = "move";
+      setIsOver(true);
+    },
+    onDragLeave: (e: React.DragEvent) => {
+      if (!e.currentTarget.contains(e.relatedTarget as Node | null)) setIsOver(false);
+    },
+    onDrop: (e: React.DragEvent) => {
+      if (!accepts(e)) return;
+      e.preventDefault();
+      e.stopPropagation();
+      setIsOver(false);
+      const id = e.dataTransfer.getData(type);
+      if (id) onDropId(id);
+    },
+  };
+
+  return { isOver, dropProps };
+}
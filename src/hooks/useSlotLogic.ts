@@ -1,11 +1,30 @@
 import { useEffect, useRef, useState } from "react";
+import { readPhotoMetadata } from "@/lib/photoMetadata";
+import { compressImage } from "@/lib/imageCompression";
+import { deleteSlotPhotos } from "@/lib/referencePhotos";
+import { REFERENCE_DRAG_TYPES } from "@/utils/referenceHelpers";
 
-export function useSlotLogic(slot: any, entryId: string, onUpdateSlot: (s: any) => void, onBulkUpload?: (files: FileList | File[], entryId?: string, slotId?: string) => void) {
+const dropLocalCopies = (slotId: string | undefined, fields?: ("image" | "original")[]) => {
+  if (!slotId) return;
+  deleteSlotPhotos(slotId, fields).catch((e) => console.error("Failed to delete local photo:", e));
+};
+
+export function useSlotLogic(slot: any, entryId: string, onUpdateSlot: (s: any) => void, onBulkUpload?: (files: FileList | File[], entryId?: string, slotId?: string) => void, readOnly = false, onMoveSlot?: (fromId: string, toId: string) => void) {
   const [dragActive, setDragActive] = useState(false);
   const [imageUrl, setImageUrl] = useState<string | null>(null);
+  const [isProcessing, setIsProcessing] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  // Compression takes a while; the result is merged into the slot as it is by
+  // then, so a caption typed meanwhile is kept
+  const latest = useRef({ slot, onUpdateSlot });
+  latest.current = { slot, onUpdateSlot };
 
   useEffect(() => {
+    // Uploaded photos come back as URLs, local ones as File objects
+    if (typeof slot?.image === "string") {
+      setImageUrl(slot.image);
+      return;
+    }
     let url: string | null = null;
     if (slot?.image) url = URL.createObjectURL(slot.image);
     setImageUrl(url);
@@ -14,14 +33,25 @@ export function useSlotLogic(slot: any, entryId: string, onUpdateSlot: (s: any)
     };
   }, [slot?.image]);
 
-  const processFile = (file: File | undefined) => {
+  const processFile = async (file: File | undefined) => {
     if (!file) return;
-    if (file.size > 10 * 1024 * 1024) {
-      alert("File size must be less than 10MB");
-      return;
-    }
-    onUpdateSlot({ ...slot, image: file });
     if (fileInputRef.current) fileInputRef.current.value = "";
+    setIsProcessing(true);
+    try {
+      // Read EXIF before compression strips it; replaces the previous photo's metadata
+      const { takenAt, location } = await readPhotoMetadata(file);
+      const { file: compressed } = await compressImage(file);
+      if (compressed.size > 10 * 1024 * 1024) {
+        alert("File size must be less than 10MB");
+        return;
+      }
+      // A new photo replaces any annotated copy and its original
+      const { slot: current, onUpdateSlot: update } = latest.current;
+      dropLocalCopies(current.id, ["original"]);
+      update({ ...current, image: compressed, takenAt, location, original: null, originalPhotoId: undefined, edits: undefined });
+    } finally {
+      setIsProcessing(false);
+    }
   };
 
   const handleImageChange = (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -36,22 +66,33 @@ export function useSlotLogic(slot: any, entryId: string, onUpdateSlot: (s: any)
   };
 
   const handleDrag = (e: React.DragEvent) => {
+    // Section and entry reordering is handled by the containers
+    const { types } = e.dataTransfer;
+    if (types.includes(REFERENCE_DRAG_TYPES.section) || types.includes(REFERENCE_DRAG_TYPES.entry)) return;
     e.preventDefault();
     e.stopPropagation();
-    setDragActive(e.type === "dragenter" || e.type === "dragover");
+    setDragActive(!readOnly && (e.type === "dragenter" || e.type === "dragover"));
   };
 
   const handleDrop = (e: React.DragEvent) => {
     e.preventDefault();
     e.stopPropagation();
     setDragActive(false);
+    if (readOnly) return;
+    // A photo dragged from another slot swaps places with this one
+    const fromSlotId = e.dataTransfer.getData(REFERENCE_DRAG_TYPES.slot);
+    if (fromSlotId) {
+      if (fromSlotId !== slot.id) onMoveSlot?.(fromSlotId, slot.id);
+      return;
+    }
     const file = e.dataTransfer.files?.[0];
     if (file && file.type.startsWith("image/")) processFile(file);
   };
 
   const removeImage = (e?: React.MouseEvent) => {
     e?.stopPropagation();
-    onUpdateSlot({ ...slot, image: null });
+    dropLocalCopies(slot.id);
+    onUpdateSlot({ ...slot, image: null, photoId: undefined, takenAt: undefined, location: undefined, original: null, originalPhotoId: undefined, edits: undefined });
     if (fileInputRef.current) fileInputRef.current.value = "";
   };
 
@@ -59,14 +100,20 @@ export function useSlotLogic(slot: any, entryId: string, onUpdateSlot: (s: any)
     onUpdateSlot({ ...slot, caption: e.target.value });
   };
 
+  const applyCaption = (caption: string) => {
+    onUpdateSlot({ ...slot, caption });
+  };
+
   return {
     dragActive,
     imageUrl,
+    isProcessing,
     fileInputRef,
     handleImageChange,
     handleDrag,
     handleDrop,
     removeImage,
     handleCaptionChange,
+    applyCaption,
   };
 }
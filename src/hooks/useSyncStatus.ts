@@ -0,0 +1,60 @@
+import { useCallback, useEffect, useState } from "react";
+import {
+  discardEntry,
+  dropEntry,
+  flushOutbox,
+  forceEntry,
+  getOutbox,
+  isFlushing,
+  OutboxEntry,
+  retryEntry,
+  subscribeOutbox,
+} from "@/integrations/syncQueue";
+
+export const useSyncStatus = () => {
+  const [entries, setEntries] = useState<OutboxEntry[]>([]);
+  const [isOnline, setIsOnline] = useState(navigator.onLine);
+  const [isSyncing, setIsSyncing] = useState(false);
+
+  const refresh = useCallback(() => {
+    setIsSyncing(isFlushing());
+    getOutbox()
+      .then(setEntries)
+      .catch((e) => console.error("Failed to read outbox:", e));
+  }, []);
+
+  useEffect(() => {
+    const unsubscribe = subscribeOutbox(refresh);
+
+    const handleOnline = () => {
+      setIsOnline(true);
+      flushOutbox();
+    };
+    const handleOffline = () => setIsOnline(false);
+    window.addEventListener("online", handleOnline);
+    window.addEventListener("offline", handleOffline);
+
+    // Pick up anything left over from a previous session
+    if (navigator.onLine) flushOutbox();
+    refresh();
+
+    return () => {
+      unsubscribe();
+      window.removeEventListener("online", handleOnline);
+      window.removeEventListener("offline", handleOffline);
+    };
+  }, [refresh]);
+
+  return {
+    isOnline,
+    isSyncing,
+    pending: entries.filter((e) => e.status === "pending"),
+    conflicts: entries.filter((e) => e.status === "conflict"),
+    failed: entries.filter((e) => e.status === "failed"),
+    retry: flushOutbox,
+    retryFailed: retryEntry,
+    discardFailed: dropEntry,
+    keepServer: discardEntry,
+    overwriteServer: forceEntry,
+  };
+};
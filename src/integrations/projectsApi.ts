@@ -0,0 +1,96 @@
+// src/integrations/projectsApi.ts
+import { API_ENDPOINTS } from "../config/api";
+import { getAuthHeaders } from "./reportsApi";
+import { Project } from "@/types/project";
+
+// Last known project list, so the picker still works without a connection
+const PROJECTS_CACHE_KEY = "daily-report-projects";
+
+const readCachedProjects = (): Project[] => {
+  try {
+    const raw = localStorage.getItem(PROJECTS_CACHE_KEY);
+    return raw ? (JSON.parse(raw) as Project[]) : [];
+  } catch (e) {
+    console.error("Failed to read cached projects:", e);
+    return [];
+  }
+};
+
+const writeCachedProjects = (projects: Project[]) => {
+  try {
+    localStorage.setItem(PROJECTS_CACHE_KEY, JSON.stringify(projects));
+  } catch (e) {
+    console.error("Failed to cache projects:", e);
+  }
+};
+
+const normalizeProject = (p: Partial<Project> & { _id?: string }): Project => ({
+  id: p.id ?? p._id ?? crypto.randomUUID(),
+  name: p.name || "",
+  code: p.code || "",
+  client: p.client || "",
+  location: p.location || "",
+  cacpmLogo: p.cacpmLogo ?? null,
+  koicaLogo: p.koicaLogo ?? null,
+  catalog: p.catalog,
+});
+
+export const fetchProjects = async (): Promise<Project[]> => {
+  try {
+    const response = await fetch(API_ENDPOINTS.PROJECTS.BASE, {
+      method: "GET",
+      headers: getAuthHeaders(),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Failed to load projects: ${response.statusText}`);
+    }
+
+    const result = await response.json();
+    const projects = (
+      Array.isArray(result) ? result : result.projects ?? []
+    ).map(normalizeProject);
+    writeCachedProjects(projects);
+    return projects;
+  } catch (err) {
+    console.warn("Using cached projects:", err);
+    return readCachedProjects();
+  }
+};
+
+// Creates the project when it has no server id yet, otherwise updates it
+export const saveProject = async (
+  project: Omit<Project, "id"> & { id?: string }
+): Promise<Project> => {
+  const isNew = !project.id;
+  const response = await fetch(
+    isNew
+      ? API_ENDPOINTS.PROJECTS.BASE
+      : API_ENDPOINTS.PROJECTS.BY_ID(project.id!),
+    {
+      method: isNew ? "POST" : "PUT",
+      headers: getAuthHeaders(),
+      body: JSON.stringify(project),
+    }
+  );
+
+  if (!response.ok) {
+    const error = await response
+      .json()
+      .catch(() => ({ message: "Failed to save project" }));
+    throw new Error(error.message || "Failed to save project");
+  }
+
+  const saved = normalizeProject(await response.json());
+  const cached = readCachedProjects().filter((p) => p.id !== saved.id);
+  writeCachedProjects([...cached, saved]);
+  return saved;
+};
+
+// Project logos override the globally uploaded header logos
+export const resolveProjectLogos = (project?: Project | null) => ({
+  cacpmLogo:
+    project?.cacpmLogo || localStorage.getItem("customCacpmLogo") || null,
+  koicaLogo:
+    project?.koicaLogo || localStorage.getItem("customKoicaLogo") || null,
+});
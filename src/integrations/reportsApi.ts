@@ -1,9 +1,19 @@
 // src/integrations/reportsApi.ts
 import { API_ENDPOINTS, PYTHON_API_BASE_URL } from "../config/api";
+import {
+  ReferenceSection,
+  ReportStatus,
+  ReportSummary,
+  ReportVersion,
+  ReviewAction,
+  ReviewComment,
+} from "@/types/report";
+import { DEFAULT_REFERENCE_LAYOUT, layoutOf } from "@/lib/referenceLayouts";
+import { toReportDay } from "@/lib/storageUtils";
 
 const API_BASE_URL = API_ENDPOINTS.DAILY_REPORTS.BASE;
 
-const getAuthHeaders = () => {
+export const getAuthHeaders = () => {
   const token = localStorage.getItem("token");
   return {
     "Content-Type": "application/json",
@@ -11,6 +21,21 @@ const getAuthHeaders = () => {
   };
 };
 
+// Thrown when the server holds a newer version than the one the edit was based on
+export class ReportConflictError extends Error {
+  serverReport: unknown;
+
+  constructor(message: string, serverReport?: unknown) {
+    super(message);
+    this.name = "ReportConflictError";
+    this.serverReport = serverReport;
+  }
+}
+
+// fetch() rejects with a TypeError when the request never reaches the server
+export const isNetworkError = (err: unknown): boolean =>
+  err instanceof TypeError || (typeof navigator !== "undefined" && !navigator.onLine);
+
 export const saveReportToDB = async (reportData: any) => {
   console.log("DEBUG FRONTEND: Attempting to save report:", reportData);
 
@@ -22,6 +47,15 @@ export const saveReportToDB = async (reportData: any) => {
 
   console.log("DEBUG FRONTEND: Save response status:", response.status);
 
+  if (response.status === 409) {
+    const conflict = await response.json().catch(() => ({}));
+    throw new ReportConflictError(
+      conflict.message ||
+        "This report was changed on the server since you opened it.",
+      conflict.report
+    );
+  }
+
   if (!response.ok) {
     const error = await response
       .json()
@@ -37,7 +71,8 @@ export const saveReportToDB = async (reportData: any) => {
 
 export const submitReportToDB = async (
   projectName: string,
-  reportDate: Date
+  reportDate: Date,
+  projectId?: string
 ) => {
   const year = reportDate.getFullYear();
   const month = String(reportDate.getMonth() + 1).padStart(2, "0");
@@ -50,7 +85,7 @@ export const submitReportToDB = async (
   const response = await fetch(API_ENDPOINTS.DAILY_REPORTS.SUBMIT, {
     method: "POST",
     headers: getAuthHeaders(),
-    body: JSON.stringify({ projectName, date: dateStr }),
+    body: JSON.stringify({ projectId, projectName, date: dateStr }),
   });
 
   if (!response.ok) {
@@ -63,7 +98,10 @@ export const submitReportToDB = async (
   return response.json();
 };
 
-export const loadReportFromDB = async (reportDate: Date) => {
+export const loadReportFromDB = async (
+  reportDate: Date,
+  projectId?: string
+) => {
   try {
     // FIX: Instead of toISOString(), manually build the YYYY-MM-DD string
     // This ensures Dec 29 stays Dec 29 regardless of your timezone offset.
@@ -83,7 +121,7 @@ export const loadReportFromDB = async (reportDate: Date) => {
     }
 
     // Now this URL will correctly be .../date/2025-12-29
-    const url = API_ENDPOINTS.DAILY_REPORTS.GET_BY_DATE(dateStr);
+    const url = API_ENDPOINTS.DAILY_REPORTS.GET_BY_DATE(dateStr, projectId);
     console.log("DEBUG FRONTEND: Making request to:", url);
 
     const response = await fetch(url, {
@@ -112,6 +150,176 @@ export const loadReportFromDB = async (reportDate: Date) => {
   }
 };
 
+export const uploadReferencePhoto = async (
+  photo: Blob,
+  meta: { photoId: string; fileName: string; projectId?: string; reportDate?: string }
+): Promise<string> => {
+  const token = localStorage.getItem("token");
+  const form = new FormData();
+  form.append("photo", photo, meta.fileName);
+  form.append("photoId", meta.photoId);
+  if (meta.projectId) form.append("projectId", meta.projectId);
+  if (meta.reportDate) form.append("reportDate", meta.reportDate);
+
+  // Let the browser set the multipart Content-Type boundary
+  const response = await fetch(API_ENDPOINTS.DAILY_REPORTS.PHOTOS, {
+    method: "POST",
+    headers: token ? { Authorization: `Bearer ${token}` } : {},
+    body: form,
+  });
+
+  if (!response.ok) {
+    const error = await response
+      .json()
+      .catch(() => ({ message: "Failed to upload photo" }));
+    throw new Error(error.message || "Failed to upload photo");
+  }
+
+  const result = await response.json();
+  return result.url;
+};
+
+const REPORT_STATUSES: ReportStatus[] = [
+  "draft",
+  "submitted",
+  "reviewed",
+  "approved",
+  "rejected",
+];
+
+// Move a submitted report through review: mark reviewed, approve, or return it to the author
+export const reviewReportInDB = async (
+  action: ReviewAction,
+  report: { projectId?: string; projectName: string; reportDate: string },
+  comments: ReviewComment[]
+) => {
+  const response = await fetch(API_ENDPOINTS.DAILY_REPORTS.REVIEW, {
+    method: "POST",
+    headers: getAuthHeaders(),
+    body: JSON.stringify({
+      action,
+      projectId: report.projectId,
+      projectName: report.projectName,
+      date: report.reportDate,
+      comments,
+    }),
+  });
+
+  if (!response.ok) {
+    const error = await response
+      .json()
+      .catch(() => ({ message: "Failed to update report status" }));
+    throw new Error(error.message || "Failed to update report status");
+  }
+
+  return response.json();
+};
+
+// Reopen a submitted report as the next numbered revision
+export const amendReportInDB = async (
+  report: { projectId?: string; projectName: string; reportDate: string },
+  reason: string
+) => {
+  const response = await fetch(API_ENDPOINTS.DAILY_REPORTS.AMEND, {
+    method: "POST",
+    headers: getAuthHeaders(),
+    body: JSON.stringify({
+      projectId: report.projectId,
+      projectName: report.projectName,
+      date: report.reportDate,
+      reason,
+    }),
+  });
+
+  if (!response.ok) {
+    const error = await response
+      .json()
+      .catch(() => ({ message: "Failed to amend report" }));
+    throw new Error(error.message || "Failed to amend report");
+  }
+
+  return response.json();
+};
+
+// The server snapshots every save; newest version first
+export const listReportVersions = async (
+  reportDate: string,
+  projectId?: string
+): Promise<ReportVersion[]> => {
+  const response = await fetch(
+    API_ENDPOINTS.DAILY_REPORTS.VERSIONS(reportDate, projectId),
+    { method: "GET", headers: getAuthHeaders() }
+  );
+
+  if (response.status === 404) return [];
+  if (!response.ok) {
+    const error = await response
+      .json()
+      .catch(() => ({ message: "Failed to load report history" }));
+    throw new Error(error.message || "Failed to load report history");
+  }
+
+  const result = await response.json();
+  const versions = Array.isArray(result) ? result : result.versions ?? [];
+
+  return versions
+    .map(
+      (
+        v: Partial<Omit<ReportVersion, "savedBy">> & {
+          _id?: string;
+          createdAt?: string;
+          savedBy?: string | { name?: string; email?: string };
+        },
+        idx: number
+      ) => ({
+        id: v.id ?? v._id ?? String(idx),
+        version: v.version ?? versions.length - idx,
+        savedAt: v.savedAt ?? v.createdAt ?? "",
+        savedBy:
+          typeof v.savedBy === "string"
+            ? v.savedBy
+            : v.savedBy?.name || v.savedBy?.email,
+        revision: v.revision ?? v.snapshot?.revision,
+        snapshot: v.snapshot as ReportVersion["snapshot"],
+      })
+    )
+    .sort((a: ReportVersion, b: ReportVersion) => b.version - a.version);
+};
+
+export const listReportsFromDB = async (): Promise<ReportSummary[]> => {
+  const headers = getAuthHeaders();
+  if (!headers.Authorization) {
+    throw new Error("No authentication token found. Please log in.");
+  }
+
+  const response = await fetch(API_BASE_URL, {
+    method: "GET",
+    headers,
+  });
+
+  if (!response.ok) {
+    const error = await response
+      .json()
+      .catch(() => ({ message: "Failed to load reports" }));
+    throw new Error(error.message || "Failed to load reports");
+  }
+
+  const result = await response.json();
+  // Backend may return a bare array or wrap it as { reports: [...] }
+  const reports = Array.isArray(result) ? result : result.reports ?? [];
+
+  return reports.map((r: Partial<ReportSummary> & { _id?: string }) => ({
+    id: r.id ?? r._id,
+    projectId: r.projectId,
+    projectName: r.projectName || "",
+    reportDate: toReportDay(r.reportDate),
+    status: REPORT_STATUSES.includes(r.status as ReportStatus)
+      ? r.status
+      : "draft",
+    updatedAt: r.updatedAt,
+  }));
+};
+
 export const generatePythonExcel = async (
   payload: any,
   mode: "report" | "reference" | "combined",
@@ -121,8 +329,10 @@ export const generatePythonExcel = async (
     // Get custom logos from localStorage for report mode
     let enhancedPayload = payload;
     if (mode === "report" || mode === "combined") {
-      const cacpmLogo = localStorage.getItem("customCacpmLogo");
-      const koicaLogo = localStorage.getItem("customKoicaLogo");
+      const cacpmLogo =
+        payload.cacpm_logo ?? localStorage.getItem("customCacpmLogo");
+      const koicaLogo =
+        payload.koica_logo ?? localStorage.getItem("customKoicaLogo");
       enhancedPayload = {
         ...payload,
         cacpm_logo: cacpmLogo,
@@ -188,28 +398,32 @@ export const generatePythonExcel = async (
   }
 };
 
+// Reference rows for the Python service, in slot order with each caption beside
+// its photo. `layout` and `columns` say how the section places its photos.
+const toReferenceEntries = (referenceSections: ReferenceSection[]) =>
+  referenceSections.flatMap((section) => {
+    const layout = layoutOf(section);
+    return (section.entries ?? []).map((entry) => {
+      const slots = (entry.slots ?? [])
+        .slice(0, layout.slots)
+        .filter((s) => s.image);
+      return {
+        section_title: section.title || "",
+        layout: section.layout ?? DEFAULT_REFERENCE_LAYOUT,
+        columns: layout.columns,
+        images: slots.map((s) => s.image),
+        footers: slots.map((s) => s.caption || ""),
+      };
+    });
+  });
+
 export const generateReferenceExcel = async (
   referenceSections: any[],
   tableTitle: string = "SITE PHOTO EVIDENCE",
   fileName?: string
 ) => {
   try {
-    const referenceEntries = referenceSections.flatMap((section: any) =>
-      (section.entries ?? []).map((entry: any) => {
-        const slots = entry.slots ?? [];
-        return {
-          section_title: section.title || "",
-          images: slots
-            .map((s: any) => s.image)
-            .filter(Boolean)
-            .slice(0, 2),
-          footers: slots
-            .map((s: any) => s.caption)
-            .filter(Boolean)
-            .slice(0, 2),
-        };
-      })
-    );
+    const referenceEntries = toReferenceEntries(referenceSections);
 
     const payload = {
       table_title: tableTitle,
@@ -269,30 +483,17 @@ export const generateCombinedExcel = async (
   fileName?: string
 ) => {
   // Get custom logos from localStorage for combined mode
-  const cacpmLogo = localStorage.getItem("customCacpmLogo");
-  const koicaLogo = localStorage.getItem("customKoicaLogo");
+  const cacpmLogo =
+    reportPayload.cacpm_logo ?? localStorage.getItem("customCacpmLogo");
+  const koicaLogo =
+    reportPayload.koica_logo ?? localStorage.getItem("customKoicaLogo");
   const enhancedPayload = {
     ...reportPayload,
     cacpm_logo: cacpmLogo,
     koica_logo: koicaLogo,
   };
 
-  const referenceEntries = referenceSections.flatMap((section: any) =>
-    (section.entries ?? []).map((entry: any) => {
-      const slots = entry.slots ?? [];
-      return {
-        section_title: section.title || "",
-        images: slots
-          .map((s: any) => s.image)
-          .filter(Boolean)
-          .slice(0, 2),
-        footers: slots
-          .map((s: any) => s.caption)
-          .filter(Boolean)
-          .slice(0, 2),
-      };
-    })
-  );
+  const referenceEntries = toReferenceEntries(referenceSections);
 
   const payload = {
     ...enhancedPayload,
@@ -0,0 +1,229 @@
+// src/integrations/syncQueue.ts
+// Offline outbox for report saves/submits, replayed in order once back online
+import {
+  isNetworkError,
+  ReportConflictError,
+  saveReportToDB,
+  submitReportToDB,
+} from "./reportsApi";
+import { OUTBOX_STORE, withStore } from "@/lib/offlineDb";
+import { toReportDay } from "@/lib/storageUtils";
+
+export type OutboxOp =
+  | { type: "save"; report: Record<string, unknown> }
+  | {
+      type: "submit";
+      projectId?: string;
+      projectName: string;
+      reportDate: string; // YYYY-MM-DD
+    };
+
+export interface OutboxEntry {
+  id?: number;
+  op: OutboxOp;
+  scope: string; // project + date, ops in the same scope depend on each other
+  createdAt: string;
+  attempts: number;
+  status: "pending" | "conflict" | "failed";
+  error?: string;
+  serverReport?: unknown;
+}
+
+export interface SendResult {
+  queued: boolean;
+  result?: unknown;
+}
+
+const opScope = (op: OutboxOp): string => {
+  if (op.type === "submit") {
+    return `${op.projectId || op.projectName}|${op.reportDate}`;
+  }
+  const { projectId, projectName, reportDate } = op.report as {
+    projectId?: string;
+    projectName?: string;
+    reportDate?: string | null;
+  };
+  return `${projectId || projectName || ""}|${toReportDay(reportDate)}`;
+};
+
+const sendOp = (op: OutboxOp) =>
+  op.type === "save"
+    ? saveReportToDB(op.report)
+    : submitReportToDB(
+        op.projectName,
+        new Date(`${op.reportDate}T00:00:00`),
+        op.projectId
+      );
+
+// --- change notifications -------------------------------------------------
+
+const listeners = new Set<() => void>();
+
+export const subscribeOutbox = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+const notify = () => listeners.forEach((listener) => listener());
+
+// --- store access ---------------------------------------------------------
+
+export const getOutbox = async (): Promise<OutboxEntry[]> => {
+  const entries = await withStore<OutboxEntry[]>(OUTBOX_STORE, "readonly", (s) =>
+    s.getAll()
+  );
+  return entries.sort((a, b) => (a.id ?? 0) - (b.id ?? 0));
+};
+
+const putEntry = (entry: OutboxEntry) =>
+  withStore(OUTBOX_STORE, "readwrite", (s) => s.put(entry));
+
+const deleteEntry = (id: number) =>
+  withStore(OUTBOX_STORE, "readwrite", (s) => s.delete(id));
+
+export const enqueue = async (op: OutboxOp) => {
+  const entry: OutboxEntry = {
+    op,
+    scope: opScope(op),
+    createdAt: new Date().toISOString(),
+    attempts: 0,
+    status: "pending",
+  };
+  await withStore(OUTBOX_STORE, "readwrite", (s) => s.add(entry));
+  notify();
+};
+
+// --- replay ---------------------------------------------------------------
+
+let flushing: Promise<void> | null = null;
+
+export const isFlushing = () => flushing !== null;
+
+// Only these hold back later ops for the same report; a failed entry waits for
+// the user to retry or discard it without stopping newer saves
+const isBlocking = (entry: OutboxEntry) => entry.status !== "failed";
+
+// Replay pending ops oldest first. A network failure stops the run; a conflict
+// parks the entry and holds back later ops for the same report; any other
+// rejection marks the entry failed. A submit waits while the last save before
+// it failed, so the server never locks a report missing those changes.
+export const flushOutbox = (): Promise<void> => {
+  if (flushing) return flushing;
+
+  flushing = (async () => {
+    notify();
+    const blocked = new Set<string>();
+    const unsaved = new Set<string>();
+
+    for (const entry of await getOutbox()) {
+      if (entry.status === "failed") {
+        if (entry.op.type === "save") unsaved.add(entry.scope);
+        continue;
+      }
+      if (
+        entry.status === "conflict" ||
+        blocked.has(entry.scope) ||
+        (entry.op.type === "submit" && unsaved.has(entry.scope))
+      ) {
+        blocked.add(entry.scope);
+        continue;
+      }
+
+      try {
+        await sendOp(entry.op);
+        await deleteEntry(entry.id!);
+        // A newer save carries the whole report, so it stands in for the failed one
+        if (entry.op.type === "save") unsaved.delete(entry.scope);
+      } catch (e) {
+        if (isNetworkError(e)) break;
+
+        const conflict = e instanceof ReportConflictError;
+        if (conflict) blocked.add(entry.scope);
+        else if (entry.op.type === "save") unsaved.add(entry.scope);
+        await putEntry({
+          ...entry,
+          attempts: entry.attempts + 1,
+          status: conflict ? "conflict" : "failed",
+          error: e instanceof Error ? e.message : String(e),
+          serverReport: conflict ? e.serverReport : undefined,
+        });
+      }
+      notify();
+    }
+  })()
+    // Callers fire and forget; a broken outbox store must not surface as an unhandled rejection
+    .catch((e) => console.error("Failed to replay outbox:", e))
+    .finally(() => {
+      flushing = null;
+      notify();
+    });
+
+  return flushing;
+};
+
+// Drop a conflicting entry (and what depends on it), keeping the server copy
+export const discardEntry = async (id: number) => {
+  const outbox = await getOutbox();
+  const entry = outbox.find((e) => e.id === id);
+  if (!entry) return;
+
+  for (const e of outbox) {
+    if (e.scope === entry.scope) await deleteEntry(e.id!);
+  }
+  notify();
+};
+
+// Drop a single failed entry; later ops for the same report are left alone
+export const dropEntry = async (id: number) => {
+  await deleteEntry(id);
+  notify();
+};
+
+// Put a failed entry back in line and replay it
+export const retryEntry = async (id: number) => {
+  const entry = (await getOutbox()).find((e) => e.id === id);
+  if (!entry) return;
+
+  await putEntry({ ...entry, status: "pending", error: undefined });
+  await flushOutbox();
+};
+
+// Resend a conflicting save telling the server to overwrite its copy
+export const forceEntry = async (id: number) => {
+  const entry = (await getOutbox()).find((e) => e.id === id);
+  if (!entry) return;
+
+  await putEntry({
+    ...entry,
+    op:
+      entry.op.type === "save"
+        ? { ...entry.op, report: { ...entry.op.report, force: true } }
+        : entry.op,
+    status: "pending",
+    error: undefined,
+    serverReport: undefined,
+  });
+  await flushOutbox();
+};
+
+// Send straight away when possible, otherwise park the op in the outbox.
+// Earlier queued work always goes first so the server sees ops in order.
+export const sendOrQueue = async (op: OutboxOp): Promise<SendResult> => {
+  const pending = (await getOutbox()).filter(
+    (e) => e.scope === opScope(op) && isBlocking(e)
+  );
+
+  if (navigator.onLine && pending.length === 0) {
+    try {
+      return { queued: false, result: await sendOp(op) };
+    } catch (e) {
+      if (!isNetworkError(e)) throw e;
+    }
+  }
+
+  await enqueue(op);
+  if (navigator.onLine) flushOutbox();
+  return { queued: true };
+};
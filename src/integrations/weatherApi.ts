@@ -0,0 +1,24 @@
+// src/integrations/weatherApi.ts
+
+// GET {baseUrl}/observations?site=..&date=YYYY-MM-DD, answered with a list of
+// readings (or { observations: [...] }) in the same shape as a station logger JSON file
+export const fetchWeatherReadings = async (
+  baseUrl: string,
+  site: string,
+  date: string
+): Promise<Record<string, unknown>[]> => {
+  const params = new URLSearchParams({ site, date });
+  const response = await fetch(
+    `${baseUrl.replace(/\/+$/, "")}/observations?${params}`,
+    { method: "GET", headers: { Accept: "application/json" } }
+  );
+
+  if (!response.ok) {
+    throw new Error(`Failed to load weather: ${response.statusText}`);
+  }
+
+  const result = await response.json();
+  return Array.isArray(result)
+    ? result
+    : result.observations ?? result.readings ?? [];
+};
@@ -0,0 +1,59 @@
+// src/lib/activityLog.ts
+// Structured activity lines and the plain text the exports print for them
+import { ActivityItem } from "@/types/report";
+
+// Lines the report layouts have room for; the rest goes to a continuation page
+export const ACTIVITY_ROWS = 10;
+
+export const newActivityItem = (description = ""): ActivityItem => ({
+  id: crypto.randomUUID(),
+  code: "",
+  location: "",
+  description,
+  crew: "",
+  percentComplete: null,
+});
+
+// "[3.2.1] Block A / L2: Slab formwork (crew: 6 carpenters) 40%"
+export const activityItemLabel = (item: ActivityItem) =>
+  [
+    item.code.trim() ? `[${item.code.trim()}]` : "",
+    item.location.trim()
+      ? `${item.location.trim()}${item.description.trim() ? ":" : ""}`
+      : "",
+    item.description.trim(),
+    item.crew.trim() ? `(crew: ${item.crew.trim()})` : "",
+    item.percentComplete != null ? `${item.percentComplete}%` : "",
+  ]
+    .filter(Boolean)
+    .join(" ");
+
+export const activityItemsToText = (items: ActivityItem[] = []) =>
+  items.map(activityItemLabel).filter(Boolean).join("\n");
+
+// Switching to structured mode turns each non-empty line into an item
+export const textToActivityItems = (text = ""): ActivityItem[] =>
+  text
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter(Boolean)
+    .map((line) => newActivityItem(line));
+
+// Word-wrapped lines of the whole text; nothing is dropped
+export const wrapActivityText = (text = "", maxLen = 55) => {
+  const lines: string[] = [];
+  text.split(/\r?\n/).forEach((rawLine) => {
+    let current = "";
+    rawLine.split(/\s+/).forEach((word) => {
+      const next = current ? `${current} ${word}` : word;
+      if (next.length > maxLen) {
+        if (current) lines.push(current);
+        current = word;
+      } else {
+        current = next;
+      }
+    });
+    if (current) lines.push(current);
+  });
+  return lines;
+};
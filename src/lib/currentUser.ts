@@ -0,0 +1,31 @@
+// src/lib/currentUser.ts
+import { CurrentUser, UserRole } from "@/types/user";
+
+// The signed-in user as returned by the auth API, cached next to the token
+export const USER_KEY = "user";
+
+const ROLES: UserRole[] = ["author", "reviewer", "approver"];
+
+export const storeCurrentUser = (user: unknown): void => {
+  if (!user || typeof user !== "object") return;
+  const u = user as Partial<CurrentUser> & { _id?: string };
+  const current: CurrentUser = {
+    id: u.id ?? u._id,
+    name: u.name || u.email || "",
+    email: u.email || "",
+    role: ROLES.includes(u.role as UserRole) ? (u.role as UserRole) : "author",
+  };
+  localStorage.setItem(USER_KEY, JSON.stringify(current));
+};
+
+export const getCurrentUser = (): CurrentUser | null => {
+  try {
+    const raw = localStorage.getItem(USER_KEY);
+    return raw ? (JSON.parse(raw) as CurrentUser) : null;
+  } catch (e) {
+    console.error("Failed to read current user:", e);
+    return null;
+  }
+};
+
+export const clearCurrentUser = (): void => localStorage.removeItem(USER_KEY);
@@ -0,0 +1,151 @@
+// src/lib/dashboardStats.ts
+// Aggregates a project's submitted reports for the dashboard charts
+import { ResourceRow } from "@/components/ResourceTable";
+import { listReportsFromDB, loadReportFromDB } from "@/integrations/reportsApi";
+import { isLockedStatus } from "./reviewWorkflow";
+import { ReportData } from "@/types/report";
+
+export interface DatedReport {
+  date: string; // YYYY-MM-DD
+  report: ReportData;
+}
+
+// Descriptions become chart series; recharts/CSS need safe keys, so labels are kept apart
+export interface ChartSeries {
+  key: string;
+  label: string;
+  color: string;
+}
+
+export interface SeriesChart {
+  series: ChartSeries[];
+  data: Record<string, string | number>[];
+}
+
+const PALETTE = [
+  "hsl(var(--primary))",
+  "hsl(var(--success))",
+  "hsl(var(--warning))",
+  "hsl(var(--accent))",
+  "hsl(var(--destructive))",
+  "hsl(280 60% 55%)",
+  "hsl(170 60% 40%)",
+  "hsl(330 70% 55%)",
+  "hsl(25 80% 45%)",
+  "hsl(215 16% 47%)",
+];
+
+const toDay = (dateStr: string) => new Date(`${dateStr}T00:00:00`);
+
+const label = (text: string | undefined, fallback: string) =>
+  text?.trim() || fallback;
+
+const buildSeries = (labels: string[]): ChartSeries[] =>
+  labels.map((l, idx) => ({
+    key: `s${idx}`,
+    label: l,
+    color: PALETTE[idx % PALETTE.length],
+  }));
+
+// Submitted, reviewed and approved reports of one project within [from, to]
+export const loadSubmittedReports = async (
+  projectId: string,
+  from?: string,
+  to?: string
+): Promise<DatedReport[]> => {
+  const summaries = (await listReportsFromDB()).filter(
+    (r) =>
+      r.projectId === projectId &&
+      isLockedStatus(r.status) &&
+      (!from || r.reportDate >= from) &&
+      (!to || r.reportDate <= to)
+  );
+
+  const reports: DatedReport[] = [];
+  for (const summary of summaries) {
+    const report = await loadReportFromDB(toDay(summary.reportDate), projectId);
+    if (report) reports.push({ date: summary.reportDate, report });
+  }
+  return reports.sort((a, b) => a.date.localeCompare(b.date));
+};
+
+// People on site each day, one series per role
+export const headcountByRole = (reports: DatedReport[]): SeriesChart => {
+  const rowsOf = (r: ReportData): ResourceRow[] => [
+    ...(r.managementTeam ?? []),
+    ...(r.workingTeam ?? []),
+  ];
+  const roles = Array.from(
+    new Set(reports.flatMap(({ report }) => rowsOf(report).map((row) => label(row.description, "Unspecified"))))
+  );
+  const series = buildSeries(roles);
+  const keyOf = new Map(series.map((s) => [s.label, s.key]));
+
+  const data = reports.map(({ date, report }) => {
+    const point: Record<string, string | number> = { date };
+    series.forEach((s) => (point[s.key] = 0));
+    rowsOf(report).forEach((row) => {
+      const key = keyOf.get(label(row.description, "Unspecified"))!;
+      point[key] = (point[key] as number) + (row.today || 0);
+    });
+    return point;
+  });
+
+  return { series, data };
+};
+
+// Total equipment-days in the range per machinery type
+export const machineryDays = (reports: DatedReport[]) => {
+  const totals = new Map<string, number>();
+  reports.forEach(({ report }) =>
+    (report.machinery ?? []).forEach((row) => {
+      const type = label(row.description, "Unspecified");
+      totals.set(type, (totals.get(type) ?? 0) + (row.today || 0));
+    })
+  );
+  return Array.from(totals, ([type, days]) => ({ type, days }))
+    .filter((t) => t.days > 0)
+    .sort((a, b) => b.days - a.days);
+};
+
+// Running total of deliveries, one series per unit of measure
+export const cumulativeMaterialsByUnit = (reports: DatedReport[]): SeriesChart => {
+  const units = Array.from(
+    new Set(
+      reports.flatMap(({ report }) =>
+        (report.materials ?? []).map((row) => label(row.unit, "No unit"))
+      )
+    )
+  );
+  const series = buildSeries(units);
+  const keyOf = new Map(series.map((s) => [s.label, s.key]));
+  const running: Record<string, number> = {};
+  series.forEach((s) => (running[s.key] = 0));
+
+  const data = reports.map(({ date, report }) => {
+    (report.materials ?? []).forEach((row) => {
+      running[keyOf.get(label(row.unit, "No unit"))!] += row.today || 0;
+    });
+    return { date, ...running };
+  });
+
+  return { series, data };
+};
+
+// How many mornings and afternoons had each kind of weather
+export const weatherDistribution = (reports: DatedReport[]) => {
+  const counts = new Map<string, { weather: string; am: number; pm: number }>();
+  const bump = (weather: string | undefined, half: "am" | "pm") => {
+    if (!weather?.trim()) return;
+    const entry = counts.get(weather) ?? { weather, am: 0, pm: 0 };
+    entry[half]++;
+    counts.set(weather, entry);
+  };
+  reports.forEach(({ report }) => {
+    bump(report.weatherAM, "am");
+    bump(report.weatherPM, "pm");
+  });
+  return Array.from(counts.values()).sort(
+    (a, b) => b.am + b.pm - (a.am + a.pm)
+  );
+};
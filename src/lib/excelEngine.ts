@@ -0,0 +1,42 @@
+// src/lib/excelEngine.ts
+// Where the combined and reference Excel files are generated: the Python service or the browser
+
+export type ExcelEngine = "auto" | "server" | "browser";
+
+export const EXCEL_ENGINE_KEY = "daily-report-excel-engine";
+
+export const EXCEL_ENGINE_LABELS: Record<ExcelEngine, string> = {
+  auto: "Automatic",
+  server: "Python service",
+  browser: "In browser",
+};
+
+export const getExcelEngine = (): ExcelEngine => {
+  const stored = localStorage.getItem(EXCEL_ENGINE_KEY) as ExcelEngine | null;
+  return stored && stored in EXCEL_ENGINE_LABELS ? stored : "auto";
+};
+
+export const setExcelEngine = (engine: ExcelEngine): void =>
+  localStorage.setItem(EXCEL_ENGINE_KEY, engine);
+
+// "auto" tries the Python service first and falls back to the browser generator
+// when it is unreachable or fails. Resolves to the engine that produced the file.
+export const runExcelExport = async (
+  engine: ExcelEngine,
+  server: () => Promise<unknown>,
+  browser: () => Promise<unknown>
+): Promise<{ usedEngine: "server" | "browser"; fellBack: boolean }> => {
+  if (engine === "browser") {
+    await browser();
+    return { usedEngine: "browser", fellBack: false };
+  }
+  try {
+    await server();
+    return { usedEngine: "server", fellBack: false };
+  } catch (e) {
+    if (engine === "server") throw e;
+    console.warn("Python service unavailable, generating Excel in the browser:", e);
+    await browser();
+    return { usedEngine: "browser", fellBack: true };
+  }
+};
@@ -13,9 +13,30 @@ import {
   AlignmentType,
   HeadingLevel,
   BorderStyle,
+  ImageRun,
 } from "docx";
 import { saveAs } from "file-saver";
 import { ResourceRow } from "@/components/ResourceTable";
+import {
+  ReferenceSection,
+  ReportSignature,
+  WeatherDelay,
+  WeatherObservation,
+} from "@/types/report";
+import { entryRows, layoutOf } from "@/lib/referenceLayouts";
+import {
+  formatSummaryRange,
+  PERIOD_LABELS,
+  ProgressSummary,
+} from "@/lib/progressSummary";
+import {
+  formatSignedAt,
+  SIGNATURE_ROLE_LABELS,
+  SIGNATURE_ROLES,
+  signatureFor,
+} from "@/lib/signatures";
+import { weatherStripLines } from "@/lib/weatherLog";
+import { ACTIVITY_ROWS, wrapActivityText } from "@/lib/activityLog";
 
 interface ReportData {
   projectName: string;
@@ -24,14 +45,43 @@ interface ReportData {
   weatherPM: string;
   tempAM: string;
   tempPM: string;
+  // Hourly readings and work stoppages, printed as a compact strip
+  weatherLog?: WeatherObservation[];
+  weatherDelays?: WeatherDelay[];
   activityToday: string;
   workPlanNextDay: string;
   managementTeam: ResourceRow[];
   workingTeam: ResourceRow[];
   materials: ResourceRow[];
   machinery: ResourceRow[];
+  // Project-specific logos (data URLs); defaults are used when missing
+  cacpmLogo?: string | null;
+  koicaLogo?: string | null;
+  // 0 for the original submission, incremented by each amendment
+  revision?: number;
+  // Photo sheet for the full PDF; images must be data or same-origin URLs
+  referenceSections?: ReferenceSection[];
+  referenceTitle?: string;
+  // Sign-off captured in the app, rendered in the signature block
+  signatures?: ReportSignature[];
 }
 
+const revisionLabel = (data: ReportData) => `Rev. ${data.revision ?? 0}`;
+
+// Exactly `maxRows` wrapped lines to fill the layout's rows
+const splitIntoRows = (text: string, maxRows: number, maxLen = 55) => {
+  const lines = wrapActivityText(text, maxLen);
+  return Array.from({ length: maxRows }, (_, i) => lines[i] || "");
+};
+
+// Wrapped lines past the layout's rows, printed on a continuation page
+export const activityOverflow = (
+  data: Pick<ReportData, "activityToday" | "workPlanNextDay">
+) => ({
+  activity: wrapActivityText(data.activityToday || "").slice(ACTIVITY_ROWS),
+  plan: wrapActivityText(data.workPlanNextDay || "").slice(ACTIVITY_ROWS),
+});
+
 const formatDate = (date: Date | undefined): string => {
   if (!date) return "N/A";
   return date.toLocaleDateString("en-US", {
@@ -45,6 +95,7 @@ const loadImageDataUrl = (src: string): Promise<string> => {
   return new Promise((resolve, reject) => {
     try {
       const img = new Image();
+      img.crossOrigin = "anonymous";
       img.onload = () => {
         const canvas = document.createElement("canvas");
         canvas.width = img.width;
@@ -68,19 +119,27 @@ const exportToPDFAsBlob = async (data: ReportData): Promise<Blob> => {
   const doc = new jsPDF("p", "mm", "a4");
   const pageWidth = doc.internal.pageSize.getWidth();
   const margin = 15;
+  const pageHeight = doc.internal.pageSize.getHeight();
   const contentWidth = pageWidth - margin * 2;
+  // Later pages carry a smaller logo header, content starts below it
+  const pageTop = 32;
   let y = 20;
 
+  const newPage = () => {
+    doc.addPage();
+    y = pageTop;
+  };
+
   // Load logos (public root)
   let leftLogo: string | null = null;
   let rightLogo: string | null = null;
   try {
-    leftLogo = await loadImageDataUrl("/cacpm_logo.png");
+    leftLogo = await loadImageDataUrl(data.cacpmLogo || "/cacpm_logo.png");
   } catch (e) {
     leftLogo = null;
   }
   try {
-    rightLogo = await loadImageDataUrl("/koica_logo.png");
+    rightLogo = await loadImageDataUrl(data.koicaLogo || "/koica_logo.png");
   } catch (e) {
     rightLogo = null;
   }
@@ -121,6 +180,9 @@ const exportToPDFAsBlob = async (data: ReportData): Promise<Blob> => {
   doc.setFontSize(10);
   doc.setFont("helvetica", "bold");
   doc.text(`Project Name : ${data.projectName || ""}`, margin, y);
+  doc.setFont("helvetica", "normal");
+  doc.text(revisionLabel(data), pageWidth - margin, y, { align: "right" });
+  doc.setFont("helvetica", "bold");
   y += 6;
 
   // Weather Summary in the format: Weather: AM Cloudy | PM Cloudy (row 8)
@@ -153,47 +215,41 @@ const exportToPDFAsBlob = async (data: ReportData): Promise<Blob> => {
   }
   y += 10;
 
+  // Weather strip: hourly readings and delays in small print
+  const weatherStrip = weatherStripLines(data.weatherLog, data.weatherDelays);
+  if (weatherStrip.length > 0) {
+    doc.setFontSize(8);
+    doc.setFont("helvetica", "normal");
+    weatherStrip.forEach((line) => {
+      const wrapped = doc.splitTextToSize(line, contentWidth);
+      doc.text(wrapped, margin, y - 4);
+      y += wrapped.length * 3.5;
+    });
+    y += 4;
+  }
+
   // Activity Today and Work Plan side by side - matching Excel rows 12-21 (10 rows)
   const colWidth = (contentWidth - 4) / 2; // 2 columns with small gap
   const gap = 2;
-  const activityRowCount = 10; // Match Excel: exactly 10 rows
-
-  // Headers
-  doc.setFontSize(11);
-  doc.setFont("helvetica", "bold");
-  doc.setFillColor(52, 152, 219); // Blue color
-  doc.setTextColor(255, 255, 255); // White text
-  doc.rect(margin, y - 4, colWidth, 6, "F");
-  doc.rect(margin + colWidth + gap, y - 4, colWidth, 6, "F");
-  doc.text("Working Activity Today", margin + 2, y);
-  doc.text("Work Plan for Next Day", margin + colWidth + gap + 2, y);
-  doc.setTextColor(0, 0, 0); // Reset text color
-  y += 8;
-
-  // Split text into exactly 10 lines (matching Excel)
-  const splitIntoRows = (text: string, maxRows: number, maxLen = 55) => {
-    if (!text) return Array(maxRows).fill("");
-
-    const lines: string[] = [];
-    text.split(/\r?\n/).forEach((rawLine) => {
-      const words = rawLine.split(/\s+/);
-      let current = "";
-      words.forEach((word) => {
-        const next = current ? `${current} ${word}` : word;
-        if (next.length > maxLen) {
-          if (current) lines.push(current);
-          current = word;
-        } else {
-          current = next;
-        }
-      });
-      if (current) lines.push(current);
-      if (lines.length >= maxRows) return;
-    });
+  const activityRowCount = ACTIVITY_ROWS; // Match Excel: exactly 10 rows
+  const overflow = activityOverflow(data);
 
-    return Array.from({ length: maxRows }, (_, i) => lines[i] || "");
+  // Blue column headers, shared with the continuation page
+  const drawActivityHeaders = (suffix = "") => {
+    doc.setFontSize(11);
+    doc.setFont("helvetica", "bold");
+    doc.setFillColor(52, 152, 219); // Blue color
+    doc.setTextColor(255, 255, 255); // White text
+    doc.rect(margin, y - 4, colWidth, 6, "F");
+    doc.rect(margin + colWidth + gap, y - 4, colWidth, 6, "F");
+    doc.text(`Working Activity Today${suffix}`, margin + 2, y);
+    doc.text(`Work Plan for Next Day${suffix}`, margin + colWidth + gap + 2, y);
+    doc.setTextColor(0, 0, 0); // Reset text color
+    y += 8;
   };
 
+  drawActivityHeaders();
+
   const activityLines = splitIntoRows(
     data.activityToday || "",
     activityRowCount
@@ -220,13 +276,17 @@ const exportToPDFAsBlob = async (data: ReportData): Promise<Blob> => {
       doc.text(planLines[i], margin + colWidth + gap + 2, lineY);
     }
   }
+  if (overflow.activity.length || overflow.plan.length) {
+    doc.setFontSize(7);
+    doc.setFont("helvetica", "italic");
+    doc.text("Continued on the activity continuation page", margin, y + contentHeight - 0.5);
+  }
 
   y += contentHeight + 8;
 
   // Check if we need a new page
   if (y > 200) {
-    doc.addPage();
-    y = 20;
+    newPage();
   }
 
   // Resource Tables - side by side (matching Excel structure)
@@ -239,8 +299,7 @@ const exportToPDFAsBlob = async (data: ReportData): Promise<Blob> => {
     hasUnit = false
   ) => {
     if (y > 250) {
-      doc.addPage();
-      y = 20;
+      newPage();
     }
 
     const tableColWidth = (contentWidth - 2) / 2; // 2 columns with small gap
@@ -369,8 +428,7 @@ const exportToPDFAsBlob = async (data: ReportData): Promise<Blob> => {
     // Data rows
     for (let i = 0; i < maxRows; i++) {
       if (y > 270) {
-        doc.addPage();
-        y = 20;
+        newPage();
       }
 
       // Draw row background (alternating light gray) - matching Excel alternating rows
@@ -567,20 +625,216 @@ const exportToPDFAsBlob = async (data: ReportData): Promise<Blob> => {
     true
   );
 
-  // Footer
-  doc.setFontSize(8);
-  doc.setTextColor(128);
-  doc.text(
-    `Generated on ${new Date().toLocaleString()}`,
-    pageWidth / 2,
-    doc.internal.pageSize.getHeight() - 10,
-    { align: "center" }
-  );
+  // Signature block - one box per sign-off role
+  const signatureHeight = 44;
+  if (y + signatureHeight > pageHeight - 20) {
+    newPage();
+  }
+  const boxWidth = (contentWidth - 4 * (SIGNATURE_ROLES.length - 1)) / SIGNATURE_ROLES.length;
+  SIGNATURE_ROLES.forEach((role, i) => {
+    const signature = signatureFor(data.signatures, role);
+    const boxX = margin + i * (boxWidth + 4);
+    doc.setDrawColor(0, 0, 0);
+    doc.rect(boxX, y, boxWidth, signatureHeight);
+    doc.setFontSize(9);
+    doc.setFont("helvetica", "bold");
+    doc.text(SIGNATURE_ROLE_LABELS[role], boxX + 2, y + 5);
+    if (signature) {
+      try {
+        // Signature pad images are 560x180
+        doc.addImage(signature.image, "PNG", boxX + 2, y + 7, 56, 18);
+      } catch (e) {
+        console.warn("Failed to add signature image:", e);
+      }
+    }
+    doc.setFont("helvetica", "normal");
+    doc.text(`Name: ${signature?.name ?? ""}`, boxX + 2, y + 30);
+    doc.text(`Position: ${signature?.position ?? ""}`, boxX + 2, y + 35);
+    doc.text(
+      `Date: ${signature ? formatSignedAt(signature.signedAt) : ""}`,
+      boxX + 2,
+      y + 40
+    );
+  });
+  y += signatureHeight + 10;
+
+  // Activity lines past the ten rows, boxed per page
+  if (overflow.activity.length || overflow.plan.length) {
+    newPage();
+    drawActivityHeaders(" (continued)");
+    doc.setFontSize(10);
+    doc.setFont("helvetica", "normal");
+    const lineHeight = 5;
+    const drawBoxes = (top: number) => {
+      doc.rect(margin, top, colWidth, y - top);
+      doc.rect(margin + colWidth + gap, top, colWidth, y - top);
+    };
+    let boxTop = y - 4;
+    const rows = Math.max(overflow.activity.length, overflow.plan.length);
+    for (let i = 0; i < rows; i++) {
+      if (y > pageHeight - 25) {
+        drawBoxes(boxTop);
+        newPage();
+        boxTop = y - 4;
+      }
+      if (overflow.activity[i]) doc.text(overflow.activity[i], margin + 2, y);
+      if (overflow.plan[i]) doc.text(overflow.plan[i], margin + colWidth + gap + 2, y);
+      y += lineHeight;
+    }
+    drawBoxes(boxTop);
+  }
+
+  if (data.referenceSections?.length) {
+    await addPhotoSheet(doc, data.referenceSections, data.referenceTitle, pageTop);
+  }
+
+  // Header and footer on every page, now that the page count is known
+  const pageCount = doc.getNumberOfPages();
+  for (let page = 1; page <= pageCount; page++) {
+    doc.setPage(page);
+    if (page > 1) {
+      try {
+        if (leftLogo) doc.addImage(leftLogo, "PNG", margin, 4, 40, 15);
+        if (rightLogo) doc.addImage(rightLogo, "PNG", pageWidth - margin - 35, 6, 35, 12.6);
+      } catch (e) {
+        console.warn("Failed to add page header logos:", e);
+      }
+      doc.setDrawColor(200, 200, 200);
+      doc.line(margin, 22, pageWidth - margin, 22);
+      doc.setFontSize(8);
+      doc.setTextColor(128);
+      doc.text(
+        `${data.projectName || ""}  ·  ${formatDate(data.reportDate)}`,
+        pageWidth / 2,
+        14,
+        { align: "center" }
+      );
+    }
+
+    doc.setFontSize(8);
+    doc.setTextColor(128);
+    doc.text(
+      `Generated on ${new Date().toLocaleString()}`,
+      margin,
+      pageHeight - 10
+    );
+    doc.text(`Page ${page} of ${pageCount}`, pageWidth - margin, pageHeight - 10, {
+      align: "right",
+    });
+    doc.setTextColor(0, 0, 0);
+  }
 
   // Return as blob
   return doc.output("blob");
 };
 
+// Reference photos laid out per section (1-up, 2-up, 3-up or 2x2) with captions,
+// as in the Excel reference sheet
+const addPhotoSheet = async (
+  doc: jsPDF,
+  sections: ReferenceSection[],
+  title: string | undefined,
+  pageTop: number
+) => {
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const margin = 15;
+  const contentWidth = pageWidth - margin * 2;
+  const gap = 4;
+  const captionHeight = 10;
+
+  doc.addPage();
+  let y = pageTop;
+  const ensureSpace = (needed: number) => {
+    if (y + needed > pageHeight - 18) {
+      doc.addPage();
+      y = pageTop;
+    }
+  };
+
+  doc.setFontSize(14);
+  doc.setFont("helvetica", "bold");
+  doc.text(title || "SITE PHOTO EVIDENCE", pageWidth / 2, y, { align: "center" });
+  y += 8;
+
+  for (const section of sections) {
+    const entries = (section.entries ?? []).filter((entry) =>
+      (entry.slots ?? []).some((slot) => slot.image || slot.caption)
+    );
+    if (entries.length === 0) continue;
+
+    const layout = layoutOf(section);
+    const photoWidth = (contentWidth - gap * (layout.columns - 1)) / layout.columns;
+    // A full-width photo at 4:3 would nearly fill the page
+    const photoHeight = Math.min(photoWidth * 0.75, 120);
+
+    ensureSpace(8 + photoHeight + captionHeight);
+    if (section.title) {
+      doc.setFontSize(11);
+      doc.setFont("helvetica", "bold");
+      doc.setFillColor(52, 152, 219);
+      doc.setTextColor(255, 255, 255);
+      doc.rect(margin, y - 4, contentWidth, 6, "F");
+      doc.text(section.title, margin + 2, y);
+      doc.setTextColor(0, 0, 0);
+      y += 6;
+    }
+
+    for (const entry of entries) {
+      for (const slots of entryRows(entry, layout)) {
+        ensureSpace(photoHeight + captionHeight + 2);
+
+        for (let i = 0; i < slots.length; i++) {
+          const slot = slots[i];
+          const boxX = margin + i * (photoWidth + gap);
+          doc.setDrawColor(200, 200, 200);
+          doc.rect(boxX, y, photoWidth, photoHeight);
+
+          if (typeof slot.image === "string") {
+            try {
+              const dataUrl = slot.image.startsWith("data:")
+                ? slot.image
+                : await loadImageDataUrl(slot.image);
+              const props = doc.getImageProperties(dataUrl);
+              // Fit inside the box, keeping the aspect ratio
+              const scale = Math.min(photoWidth / props.width, photoHeight / props.height);
+              const w = props.width * scale;
+              const h = props.height * scale;
+              doc.addImage(
+                dataUrl,
+                props.fileType,
+                boxX + (photoWidth - w) / 2,
+                y + (photoHeight - h) / 2,
+                w,
+                h
+              );
+            } catch (e) {
+              console.warn("Failed to add reference photo:", e);
+              doc.setFontSize(9);
+              doc.setTextColor(128);
+              doc.text("Image unavailable", boxX + photoWidth / 2, y + photoHeight / 2, {
+                align: "center",
+              });
+              doc.setTextColor(0, 0, 0);
+            }
+          }
+
+          if (slot.caption) {
+            doc.setFontSize(9);
+            doc.setFont("helvetica", "normal");
+            const lines: string[] = doc.splitTextToSize(slot.caption, photoWidth - 2);
+            doc.text(lines.slice(0, 2), boxX + photoWidth / 2, y + photoHeight + 4, {
+              align: "center",
+            });
+          }
+        }
+
+        y += photoHeight + captionHeight + 2;
+      }
+    }
+  }
+};
+
 export const exportToPDF = async (
   data: ReportData,
   preview: boolean = false
@@ -604,7 +858,8 @@ export const exportToPDF = async (
   }
 };
 
-export const exportToExcel = async (data: ReportData) => {
+// Fills the REPORT sheet of /template.xlsx; shared by the Excel and combined exports
+const buildReportWorkbook = async (data: ReportData): Promise<ExcelJS.Workbook> => {
   // Load the provided Excel template so the export matches the exact layout
   const response = await fetch("/template.xlsx");
   if (!response.ok) {
@@ -617,9 +872,9 @@ export const exportToExcel = async (data: ReportData) => {
 
   const worksheet = workbook.getWorksheet("REPORT") || workbook.worksheets[0];
 
-  // Get custom logos from localStorage
-  const cacpmLogo = localStorage.getItem("customCacpmLogo");
-  const koicaLogo = localStorage.getItem("customKoicaLogo");
+  // Get project logos, falling back to custom logos from localStorage
+  const cacpmLogo = data.cacpmLogo ?? localStorage.getItem("customCacpmLogo");
+  const koicaLogo = data.koicaLogo ?? localStorage.getItem("customKoicaLogo");
 
   // Add logos to the worksheet if available
   if (cacpmLogo) {
@@ -680,289 +935,6 @@ export const exportToExcel = async (data: ReportData) => {
     }
   };
 
-  const splitIntoRows = (text: string, maxRows: number, maxLen = 55) => {
-    if (!text) return Array(maxRows).fill("");
-
-    const lines: string[] = [];
-    text.split(/\r?\n/).forEach((rawLine) => {
-      const words = rawLine.split(/\s+/);
-      let current = "";
-      words.forEach((word) => {
-        const next = current ? `${current} ${word}` : word;
-        if (next.length > maxLen) {
-          if (current) lines.push(current);
-          current = word;
-        } else {
-          current = next;
-        }
-      });
-      if (current) lines.push(current);
-      if (lines.length >= maxRows) return;
-    });
-
-    return Array.from({ length: maxRows }, (_, i) => lines[i] || "");
-  };
-
-  const dateValue =
-    data.reportDate instanceof Date
-      ? data.reportDate
-      : data.reportDate
-      ? new Date(data.reportDate)
-      : undefined;
-
-  // Header info
-  worksheet.getCell("B7").value = `Project Name : ${data.projectName || ""}`;
-  // Weather Summary in the format: Weather: AM Cloudy | PM Cloudy
-  const weatherAMDisplay = data.weatherAM || "";
-  const weatherPMDisplay = data.weatherPM || "";
-  worksheet.getCell(
-    "B8"
-  ).value = `Weather          : AM ${weatherAMDisplay}  |  PM ${weatherPMDisplay}`;
-  // Temperature Summary in the format: Temperature: AM 28°C | PM 32°C
-  const tempAMDisplay = data.tempAM ? `${data.tempAM}°C` : "";
-  const tempPMDisplay = data.tempPM ? `${data.tempPM}°C` : "";
-  worksheet.getCell(
-    "B9"
-  ).value = `Temperature  : AM ${tempAMDisplay}    |  PM ${tempPMDisplay}`;
-  const dateCell = worksheet.getCell("I9");
-  dateCell.value = dateValue || null;
-  if (!dateCell.numFmt) {
-    dateCell.numFmt = "yyyy-mm-dd";
-  }
-
-  // Activities (10 available rows in the template)
-  const activityLines = splitIntoRows(data.activityToday || "", 10);
-  const planLines = splitIntoRows(data.workPlanNextDay || "", 10);
-  const baseActivityStyle = cloneStyle(worksheet.getCell("B12"));
-  const basePlanStyle = cloneStyle(worksheet.getCell("G12"));
-
-  for (let i = 0; i < 10; i++) {
-    const row = 12 + i;
-    const leftCell = worksheet.getCell(`B${row}`);
-    leftCell.style = { ...baseActivityStyle, alignment: { wrapText: true } };
-    leftCell.value = activityLines[i] || "";
-
-    const rightCell = worksheet.getCell(`G${row}`);
-    rightCell.style = { ...basePlanStyle, alignment: { wrapText: true } };
-    rightCell.value = planLines[i] || "";
-  }
-
-  // Resource tables (Site Management / Working Team)
-  const startTeamRow = 25;
-  const baseTeamRows = 6;
-  const teamRowsNeeded = Math.max(
-    baseTeamRows,
-    data.managementTeam.length,
-    data.workingTeam.length
-  );
-
-  // Insert extra rows if more data than template rows
-  if (teamRowsNeeded > baseTeamRows) {
-    const rowsToInsert = teamRowsNeeded - baseTeamRows;
-    worksheet.spliceRows(
-      startTeamRow + baseTeamRows,
-      0,
-      ...new Array(rowsToInsert).fill([])
-    );
-  }
-
-  const totalRowIndex = startTeamRow + teamRowsNeeded;
-
-  // Preserve cell styles from the first data row
-  // Ensure description merges exist for all dynamic rows
-  for (let r = startTeamRow; r < totalRowIndex; r++) {
-    mergeIfNeeded(`B${r}:C${r}`);
-    mergeIfNeeded(`G${r}:H${r}`);
-  }
-
-  for (let i = 0; i < teamRowsNeeded; i++) {
-    const rowIndex = startTeamRow + i;
-    const mgmt = data.managementTeam[i];
-    const work = data.workingTeam[i];
-
-    const setCell = (
-      address: string,
-      value: string | number | null,
-      styleCol: string
-    ) => {
-      const cell = worksheet.getCell(address);
-      cell.style = cloneStyle(worksheet.getCell(`${styleCol}${startTeamRow}`));
-      cell.value = value ?? "";
-    };
-
-    setCell(`B${rowIndex}`, mgmt?.description ?? "", "B");
-    setCell(`D${rowIndex}`, safeNumber(mgmt?.prev), "D");
-    setCell(`E${rowIndex}`, safeNumber(mgmt?.today), "E");
-    const leftAccum = worksheet.getCell(`F${rowIndex}`);
-    leftAccum.style = cloneStyle(worksheet.getCell(`F${startTeamRow}`));
-    leftAccum.value = { formula: `SUM(D${rowIndex}:E${rowIndex})` };
-
-    setCell(`G${rowIndex}`, work?.description ?? "", "G");
-    setCell(`I${rowIndex}`, safeNumber(work?.prev), "I");
-    setCell(`J${rowIndex}`, safeNumber(work?.today), "J");
-    const rightAccum = worksheet.getCell(`K${rowIndex}`);
-    rightAccum.style = cloneStyle(worksheet.getCell(`K${startTeamRow}`));
-    rightAccum.value = { formula: `SUM(I${rowIndex}:J${rowIndex})` };
-  }
-
-  // Total row (re-merge and re-point formulas)
-  mergeIfNeeded(`B${totalRowIndex}:C${totalRowIndex}`);
-  mergeIfNeeded(`G${totalRowIndex}:H${totalRowIndex}`);
-  const totalRow = worksheet.getRow(totalRowIndex);
-  totalRow.getCell("B").value = "TOTAL";
-  totalRow.getCell("G").value = "TOTAL";
-  totalRow.getCell("D").value = {
-    formula: `SUM(D${startTeamRow}:D${totalRowIndex - 1})`,
-  };
-  totalRow.getCell("E").value = {
-    formula: `SUM(E${startTeamRow}:E${totalRowIndex - 1})`,
-  };
-  totalRow.getCell("F").value = {
-    formula: `SUM(F${startTeamRow}:F${totalRowIndex - 1})`,
-  };
-  totalRow.getCell("I").value = {
-    formula: `SUM(I${startTeamRow}:I${totalRowIndex - 1})`,
-  };
-  totalRow.getCell("J").value = {
-    formula: `SUM(J${startTeamRow}:J${totalRowIndex - 1})`,
-  };
-  totalRow.getCell("K").value = {
-    formula: `SUM(I${totalRowIndex}:J${totalRowIndex})`,
-  };
-
-  // Materials & Machinery table
-  const materialStartRow = 34; // first row below column headers
-  const materialRowsNeeded = Math.max(
-    data.materials.length,
-    data.machinery.length,
-    1
-  );
-
-  // Insert extra rows if needed (template has rows up to ~75)
-  const availableMaterialRows = worksheet.rowCount - materialStartRow + 1;
-  if (materialRowsNeeded > availableMaterialRows) {
-    const rowsToInsert = materialRowsNeeded - availableMaterialRows;
-    worksheet.spliceRows(
-      materialStartRow + availableMaterialRows,
-      0,
-      ...new Array(rowsToInsert).fill([])
-    );
-  }
-
-  for (let i = 0; i < materialRowsNeeded; i++) {
-    const rowIndex = materialStartRow + i;
-    const mat = data.materials[i];
-    const mach = data.machinery[i];
-
-    const setMatCell = (
-      col: string,
-      value: string | number | null,
-      styleCol: string
-    ) => {
-      const cell = worksheet.getCell(`${col}${rowIndex}`);
-      cell.style = cloneStyle(
-        worksheet.getCell(`${styleCol}${materialStartRow}`)
-      );
-      cell.value = value ?? "";
-    };
-
-    setMatCell("B", mat?.description ?? "", "B");
-    setMatCell("C", mat?.unit ?? "", "C");
-    setMatCell("D", safeNumber(mat?.prev), "D");
-    setMatCell("E", safeNumber(mat?.today), "E");
-    const matAccum =
-      mat?.accumulated ??
-      (mat ? safeNumber(mat.prev) + safeNumber(mat.today) : "");
-    setMatCell("F", matAccum, "F");
-
-    setMatCell("G", mach?.description ?? "", "G");
-    setMatCell("H", mach?.unit ?? "", "H");
-    setMatCell("I", safeNumber(mach?.prev), "I");
-    setMatCell("J", safeNumber(mach?.today), "J");
-    const machAccum =
-      mach?.accumulated ??
-      (mach ? safeNumber(mach.prev) + safeNumber(mach.today) : "");
-    setMatCell("K", machAccum, "K");
-  }
-
-  const fileName = `Daily_Report_${
-    data.projectName?.replace(/\s+/g, "_") || "Report"
-  }_${formatDate(data.reportDate).replace(/\s+/g, "_")}.xlsx`;
-
-  const buffer = await workbook.xlsx.writeBuffer();
-  const blob = new Blob([buffer], {
-    type: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
-  });
-  const url = window.URL.createObjectURL(blob);
-  const a = document.createElement("a");
-  a.href = url;
-  a.download = fileName;
-  a.click();
-  window.URL.revokeObjectURL(url);
-};
-
-// Export both PDF and Excel as a ZIP file
-export const exportToZIP = async (data: ReportData): Promise<void> => {
-  const zip = new JSZip();
-
-  // Generate PDF blob
-  const pdfBlob = await exportToPDFAsBlob(data);
-  const pdfFileName = `Daily_Report_${
-    data.projectName?.replace(/\s+/g, "_") || "Report"
-  }_${formatDate(data.reportDate).replace(/\s+/g, "_")}.pdf`;
-  zip.file(pdfFileName, pdfBlob);
-
-  // Generate Excel blob
-  const response = await fetch("/template.xlsx");
-  if (!response.ok) {
-    throw new Error("Unable to load Excel template");
-  }
-
-  const templateBuffer = await response.arrayBuffer();
-  const workbook = new ExcelJS.Workbook();
-  await workbook.xlsx.load(templateBuffer);
-
-  const worksheet = workbook.getWorksheet("REPORT") || workbook.worksheets[0];
-
-  const safeNumber = (value: number | string | undefined) => {
-    const parsed = Number(value);
-    return Number.isFinite(parsed) ? parsed : 0;
-  };
-
-  const cloneStyle = (cell: ExcelJS.Cell) =>
-    JSON.parse(JSON.stringify(cell.style || {}));
-
-  const mergeIfNeeded = (range: string) => {
-    try {
-      worksheet.mergeCells(range);
-    } catch {
-      // ignore if already merged in template
-    }
-  };
-
-  const splitIntoRows = (text: string, maxRows: number, maxLen = 55) => {
-    if (!text) return Array(maxRows).fill("");
-
-    const lines: string[] = [];
-    text.split(/\r?\n/).forEach((rawLine) => {
-      const words = rawLine.split(/\s+/);
-      let current = "";
-      words.forEach((word) => {
-        const next = current ? `${current} ${word}` : word;
-        if (next.length > maxLen) {
-          if (current) lines.push(current);
-          current = word;
-        } else {
-          current = next;
-        }
-      });
-      if (current) lines.push(current);
-      if (lines.length >= maxRows) return;
-    });
-
-    return Array.from({ length: maxRows }, (_, i) => lines[i] || "");
-  };
-
   const dateValue =
     data.reportDate instanceof Date
       ? data.reportDate
@@ -972,6 +944,7 @@ export const exportToZIP = async (data: ReportData): Promise<void> => {
 
   // Header info
   worksheet.getCell("B7").value = `Project Name : ${data.projectName || ""}`;
+  worksheet.getCell("I7").value = revisionLabel(data);
   // Weather Summary in the format: Weather: AM Cloudy | PM Cloudy
   const weatherAMDisplay = data.weatherAM || "";
   const weatherPMDisplay = data.weatherPM || "";
@@ -1145,6 +1118,295 @@ export const exportToZIP = async (data: ReportData): Promise<void> => {
     setMatCell("K", machAccum, "K");
   }
 
+  addWeatherRows(worksheet, data);
+  addSignatureRows(workbook, worksheet, data.signatures);
+  addActivityContinuationSheet(workbook, worksheet, data);
+
+  return workbook;
+};
+
+// Weather strip below the template content, one merged row per line
+const addWeatherRows = (worksheet: ExcelJS.Worksheet, data: ReportData) => {
+  const lines = weatherStripLines(data.weatherLog, data.weatherDelays);
+  let row = worksheet.rowCount + 2;
+  lines.forEach((line) => {
+    worksheet.mergeCells(`B${row}:K${row}`);
+    const cell = worksheet.getCell(`B${row}`);
+    cell.value = line;
+    cell.font = { size: 9 };
+    cell.alignment = { wrapText: true, vertical: "top" };
+    worksheet.getRow(row).height = Math.max(15, Math.ceil(line.length / 110) * 13);
+    row++;
+  });
+};
+
+// Activity lines past the template's ten rows, on their own sheet
+const addActivityContinuationSheet = (
+  workbook: ExcelJS.Workbook,
+  worksheet: ExcelJS.Worksheet,
+  data: ReportData
+) => {
+  const overflow = activityOverflow(data);
+  if (!overflow.activity.length && !overflow.plan.length) return;
+
+  const sheetName = "Activities (continued)";
+  worksheet.getCell(`B${11 + ACTIVITY_ROWS}`).note = `Continued on sheet "${sheetName}"`;
+
+  const sheet = workbook.addWorksheet(sheetName);
+  sheet.columns = [
+    { header: "Working Activity Today (continued)", width: 60 },
+    { header: "Work Plan for Next Day (continued)", width: 60 },
+  ];
+  const header = sheet.getRow(1);
+  header.font = { bold: true, color: { argb: "FFFFFFFF" } };
+  header.eachCell((cell) => {
+    cell.fill = { type: "pattern", pattern: "solid", fgColor: { argb: "FF3498DB" } };
+  });
+  const rows = Math.max(overflow.activity.length, overflow.plan.length);
+  for (let i = 0; i < rows; i++) {
+    sheet.addRow([overflow.activity[i] || "", overflow.plan[i] || ""]);
+  }
+};
+
+// Sign-off block below the template content: one column group per role
+const addSignatureRows = (
+  workbook: ExcelJS.Workbook,
+  worksheet: ExcelJS.Worksheet,
+  signatures?: ReportSignature[]
+) => {
+  const labelRow = worksheet.rowCount + 2;
+  const imageRow = labelRow + 1;
+  // `col` is the zero-based index of `start` for image anchors
+  const columnGroups = [
+    { start: "B", end: "E", col: 1 },
+    { start: "G", end: "J", col: 6 },
+  ];
+  worksheet.getRow(imageRow).height = 45;
+
+  SIGNATURE_ROLES.forEach((role, i) => {
+    const { start, end, col } = columnGroups[i];
+    const signature = signatureFor(signatures, role);
+
+    const label = worksheet.getCell(`${start}${labelRow}`);
+    label.value = SIGNATURE_ROLE_LABELS[role];
+    label.font = { bold: true };
+    worksheet.mergeCells(`${start}${imageRow}:${end}${imageRow}`);
+    worksheet.getCell(`${start}${imageRow}`).border = {
+      bottom: { style: "thin" },
+    };
+
+    if (signature) {
+      try {
+        const imageId = workbook.addImage({
+          base64: signature.image,
+          extension: "png",
+        });
+        // Keep the pad's 560x180 aspect ratio
+        worksheet.addImage(imageId, {
+          tl: { col, row: imageRow - 1 },
+          ext: { width: 180, height: 58 },
+        });
+      } catch (e) {
+        console.warn("Failed to add signature to Excel:", e);
+      }
+    }
+
+    [
+      `Name: ${signature?.name ?? ""}`,
+      `Position: ${signature?.position ?? ""}`,
+      `Date: ${signature ? formatSignedAt(signature.signedAt) : ""}`,
+    ].forEach((text, line) => {
+      worksheet.getCell(`${start}${imageRow + 1 + line}`).value = text;
+    });
+  });
+};
+
+export const exportToExcel = async (data: ReportData, customFileName?: string) => {
+  const workbook = await buildReportWorkbook(data);
+
+  const fileName = customFileName
+    ? `${customFileName}.xlsx`
+    : `Daily_Report_${
+        data.projectName?.replace(/\s+/g, "_") || "Report"
+      }_${formatDate(data.reportDate).replace(/\s+/g, "_")}.xlsx`;
+
+  const buffer = await workbook.xlsx.writeBuffer();
+  const blob = new Blob([buffer], {
+    type: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  });
+  const url = window.URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = fileName;
+  a.click();
+  window.URL.revokeObjectURL(url);
+};
+
+// Excel only embeds PNG, JPEG and GIF; anything else is re-encoded as PNG
+const toExcelImage = async (
+  src: string
+): Promise<{ base64: string; extension: "png" | "jpeg" | "gif" }> => {
+  const embeddable = /^data:image\/(png|jpe?g|gif);base64,/i.test(src);
+  const dataUrl = embeddable ? src : await loadImageDataUrl(src);
+  const [, type] = dataUrl.match(/^data:image\/(\w+);/i) ?? [];
+  const extension = type?.toLowerCase() === "jpg" ? "jpeg" : type?.toLowerCase();
+  return {
+    base64: dataUrl,
+    extension: extension === "jpeg" || extension === "gif" ? extension : "png",
+  };
+};
+
+const imageSize = (dataUrl: string): Promise<{ width: number; height: number }> =>
+  new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve({ width: img.width, height: img.height });
+    img.onerror = (e) => reject(e);
+    img.src = dataUrl;
+  });
+
+// REFERENCE sheet matching the Python service: photos laid out per section's layout
+// on a 12-column grid with their captions underneath, grouped under blue section headers
+const addReferenceSheet = async (
+  workbook: ExcelJS.Workbook,
+  sections: ReferenceSection[],
+  title?: string
+) => {
+  const worksheet = workbook.addWorksheet("REFERENCE");
+  const gridColumns = 12;
+  const columnWidth = 8;
+  worksheet.columns = [{ width: 2 }, ...Array(gridColumns).fill({ width: columnWidth })];
+  // Excel columns are ~7px per width unit, rows 4/3 px per point
+  const columnPx = columnWidth * 7;
+  const padding = 6;
+  const lastColumn = gridColumns + 1;
+
+  const titleRow = worksheet.addRow([]);
+  titleRow.getCell(2).value = title || "SITE PHOTO EVIDENCE";
+  titleRow.getCell(2).font = { bold: true, size: 14 };
+  titleRow.getCell(2).alignment = { horizontal: "center" };
+  worksheet.mergeCells(titleRow.number, 2, titleRow.number, lastColumn);
+  worksheet.addRow([]);
+
+  for (const section of sections) {
+    const entries = (section.entries ?? []).filter((entry) =>
+      (entry.slots ?? []).some((slot) => slot.image || slot.caption)
+    );
+    if (entries.length === 0) continue;
+
+    const layout = layoutOf(section);
+    const span = gridColumns / layout.columns;
+    // Photo box in pixels, inset so neighbouring photos don't touch
+    const boxWidth = span * columnPx - padding * 2;
+    const boxHeight = Math.round(Math.min(boxWidth * 0.75, 400));
+
+    if (section.title) {
+      const header = worksheet.addRow([]);
+      header.getCell(2).value = section.title;
+      header.getCell(2).fill = {
+        type: "pattern",
+        pattern: "solid",
+        fgColor: { argb: "FF3498DB" },
+      };
+      header.getCell(2).font = { bold: true, color: { argb: "FFFFFFFF" } };
+      worksheet.mergeCells(header.number, 2, header.number, lastColumn);
+    }
+
+    for (const entry of entries) {
+      for (const slots of entryRows(entry, layout)) {
+        const photoRow = worksheet.addRow([]);
+        photoRow.height = ((boxHeight + padding * 2) * 3) / 4;
+        const captionRow = worksheet.addRow([]);
+        captionRow.height = 30;
+
+        for (let i = 0; i < slots.length; i++) {
+          const slot = slots[i];
+          const start = 2 + i * span;
+          const end = start + span - 1;
+          worksheet.mergeCells(photoRow.number, start, photoRow.number, end);
+          worksheet.mergeCells(captionRow.number, start, captionRow.number, end);
+
+          if (typeof slot.image === "string") {
+            try {
+              const image = await toExcelImage(slot.image);
+              const { width, height } = await imageSize(image.base64);
+              // Fit inside the box, keeping the aspect ratio
+              const scale = Math.min(boxWidth / width, boxHeight / height);
+              const w = width * scale;
+              const h = height * scale;
+              const imageId = workbook.addImage(image);
+              worksheet.addImage(imageId, {
+                tl: {
+                  col: start - 1 + (span * columnPx - w) / 2 / columnPx,
+                  row: photoRow.number - 1 + (boxHeight + padding * 2 - h) / 2 / (boxHeight + padding * 2),
+                },
+                ext: { width: w, height: h },
+              });
+            } catch (e) {
+              console.warn("Failed to add reference photo:", e);
+              photoRow.getCell(start).value = "Image unavailable";
+              photoRow.getCell(start).alignment = {
+                horizontal: "center",
+                vertical: "middle",
+              };
+            }
+          }
+
+          const caption = captionRow.getCell(start);
+          caption.value = slot.caption || "";
+          caption.alignment = { horizontal: "center", vertical: "top", wrapText: true };
+        }
+      }
+    }
+    worksheet.addRow([]);
+  }
+};
+
+const downloadWorkbook = async (workbook: ExcelJS.Workbook, fileName: string) => {
+  const buffer = await workbook.xlsx.writeBuffer();
+  const blob = new Blob([buffer], {
+    type: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  });
+  saveAs(blob, fileName);
+};
+
+// Browser-only counterparts of the Python service's combined and reference workbooks
+export const exportCombinedExcelLocally = async (
+  data: ReportData,
+  sections: ReferenceSection[],
+  title?: string,
+  fileName?: string
+) => {
+  const workbook = await buildReportWorkbook(data);
+  await addReferenceSheet(workbook, sections, title);
+  await downloadWorkbook(
+    workbook,
+    `${fileName || `combined-${new Date().toISOString().split("T")[0]}`}.xlsx`
+  );
+};
+
+export const exportReferenceExcelLocally = async (
+  sections: ReferenceSection[],
+  title?: string,
+  fileName?: string
+) => {
+  const workbook = new ExcelJS.Workbook();
+  await addReferenceSheet(workbook, sections, title);
+  await downloadWorkbook(workbook, `${fileName || `reference-${new Date().toISOString().split("T")[0]}`}.xlsx`);
+};
+
+// Export both PDF and Excel as a ZIP file
+export const exportToZIP = async (data: ReportData): Promise<void> => {
+  const zip = new JSZip();
+
+  // Generate PDF blob
+  const pdfBlob = await exportToPDFAsBlob(data);
+  const pdfFileName = `Daily_Report_${
+    data.projectName?.replace(/\s+/g, "_") || "Report"
+  }_${formatDate(data.reportDate).replace(/\s+/g, "_")}.pdf`;
+  zip.file(pdfFileName, pdfBlob);
+
+  // Generate Excel blob, filled the same way as the standalone Excel export
+  const workbook = await buildReportWorkbook(data);
   const excelBuffer = await workbook.xlsx.writeBuffer();
   const excelFileName = `Daily_Report_${
     data.projectName?.replace(/\s+/g, "_") || "Report"
@@ -1166,35 +1428,60 @@ export const exportToZIP = async (data: ReportData): Promise<void> => {
 };
 
 // Export to Word document
+const dataUrlToBytes = (dataUrl: string) => {
+  const binaryString = atob(dataUrl.split(",")[1]);
+  const bytes = new Uint8Array(binaryString.length);
+  for (let i = 0; i < binaryString.length; i++) {
+    bytes[i] = binaryString.charCodeAt(i);
+  }
+  return bytes;
+};
+
+// Sign-off block for the Word export: one cell per role
+const createSignatureTable = (signatures?: ReportSignature[]) =>
+  new Table({
+    width: { size: 100, type: WidthType.PERCENTAGE },
+    rows: [
+      new TableRow({
+        children: SIGNATURE_ROLES.map((role) => {
+          const signature = signatureFor(signatures, role);
+          return new TableCell({
+            width: { size: 100 / SIGNATURE_ROLES.length, type: WidthType.PERCENTAGE },
+            children: [
+              new Paragraph({
+                children: [new TextRun({ text: SIGNATURE_ROLE_LABELS[role], bold: true })],
+              }),
+              new Paragraph({
+                children: signature
+                  ? [
+                      new ImageRun({
+                        type: "png",
+                        data: dataUrlToBytes(signature.image),
+                        // Signature pad images are 560x180
+                        transformation: { width: 168, height: 54 },
+                      }),
+                    ]
+                  : [new TextRun({ text: "" })],
+                spacing: { before: 100, after: 100 },
+              }),
+              new Paragraph({ text: `Name: ${signature?.name ?? ""}` }),
+              new Paragraph({ text: `Position: ${signature?.position ?? ""}` }),
+              new Paragraph({
+                text: `Date: ${signature ? formatSignedAt(signature.signedAt) : ""}`,
+              }),
+            ],
+          });
+        }),
+      }),
+    ],
+  });
+
 export const exportToWord = async (data: ReportData): Promise<void> => {
   const safeNumber = (value: number | string | undefined) => {
     const parsed = Number(value);
     return Number.isFinite(parsed) ? parsed : 0;
   };
 
-  const splitIntoRows = (text: string, maxRows: number, maxLen = 55) => {
-    if (!text) return Array(maxRows).fill("");
-
-    const lines: string[] = [];
-    text.split(/\r?\n/).forEach((rawLine) => {
-      const words = rawLine.split(/\s+/);
-      let current = "";
-      words.forEach((word) => {
-        const next = current ? `${current} ${word}` : word;
-        if (next.length > maxLen) {
-          if (current) lines.push(current);
-          current = word;
-        } else {
-          current = next;
-        }
-      });
-      if (current) lines.push(current);
-      if (lines.length >= maxRows) return;
-    });
-
-    return Array.from({ length: maxRows }, (_, i) => lines[i] || "");
-  };
-
   const dateValue =
     data.reportDate instanceof Date
       ? data.reportDate
@@ -1845,10 +2132,13 @@ export const exportToWord = async (data: ReportData): Promise<void> => {
     });
   };
 
-  // Helper to create side-by-side activity table (matching Excel structure)
-  const createActivityTable = () => {
-    const activityLines = splitIntoRows(data.activityToday || "", 10);
-    const planLines = splitIntoRows(data.workPlanNextDay || "", 10);
+  // Helper to create side-by-side activity table (matching Excel structure);
+  // the continuation page passes the lines that did not fit
+  const createActivityTable = (
+    activityLines = splitIntoRows(data.activityToday || "", ACTIVITY_ROWS),
+    planLines = splitIntoRows(data.workPlanNextDay || "", ACTIVITY_ROWS),
+    suffix = ""
+  ) => {
 
     const tableRows: TableRow[] = [];
 
@@ -1861,7 +2151,7 @@ export const exportToWord = async (data: ReportData): Promise<void> => {
               new Paragraph({
                 children: [
                   new TextRun({
-                    text: "Working Activity Today",
+                    text: `Working Activity Today${suffix}`,
                     bold: true,
                     color: "FFFFFF",
                   }),
@@ -1878,7 +2168,7 @@ export const exportToWord = async (data: ReportData): Promise<void> => {
               new Paragraph({
                 children: [
                   new TextRun({
-                    text: "Work Plan for Next Day",
+                    text: `Work Plan for Next Day${suffix}`,
                     bold: true,
                     color: "FFFFFF",
                   }),
@@ -1895,7 +2185,8 @@ export const exportToWord = async (data: ReportData): Promise<void> => {
     );
 
     // Data rows - 10 rows side by side
-    for (let i = 0; i < 10; i++) {
+    const rowCount = Math.max(activityLines.length, planLines.length);
+    for (let i = 0; i < rowCount; i++) {
       tableRows.push(
         new TableRow({
           children: [
@@ -1974,7 +2265,7 @@ export const exportToWord = async (data: ReportData): Promise<void> => {
         new TextRun({ text: "    |  PM ", bold: true }),
         new TextRun({ text: tempPMDisplay }),
         new TextRun({
-          text: `                                        Date: ${dateStr}`,
+          text: `                                        Date: ${dateStr}  ${revisionLabel(data)}`,
           bold: false,
         }),
       ],
@@ -1982,8 +2273,32 @@ export const exportToWord = async (data: ReportData): Promise<void> => {
     })
   );
 
+  // Weather strip: hourly readings and delays in small print
+  weatherStripLines(data.weatherLog, data.weatherDelays).forEach((line) =>
+    children.push(
+      new Paragraph({
+        children: [new TextRun({ text: line, size: 16 })],
+        spacing: { after: 120 },
+      })
+    )
+  );
+
   // Activity sections - side by side table (matching Excel)
   children.push(createActivityTable());
+  const overflow = activityOverflow(data);
+  if (overflow.activity.length || overflow.plan.length) {
+    children.push(
+      new Paragraph({
+        children: [
+          new TextRun({
+            text: "Continued on the activity continuation page",
+            italics: true,
+            size: 16,
+          }),
+        ],
+      })
+    );
+  }
 
   children.push(
     new Paragraph({
@@ -2024,6 +2339,21 @@ export const exportToWord = async (data: ReportData): Promise<void> => {
     )
   );
 
+  children.push(
+    new Paragraph({
+      text: "",
+      spacing: { after: 400 },
+    }),
+    createSignatureTable(data.signatures)
+  );
+
+  if (overflow.activity.length || overflow.plan.length) {
+    children.push(
+      new Paragraph({ text: "", pageBreakBefore: true }),
+      createActivityTable(overflow.activity, overflow.plan, " (continued)")
+    );
+  }
+
   // Create document
   const doc = new Document({
     sections: [
@@ -2041,3 +2371,389 @@ export const exportToWord = async (data: ReportData): Promise<void> => {
   }_${formatDate(data.reportDate).replace(/\s+/g, "_")}.docx`;
   saveAs(blob, fileName);
 };
+
+// ---------------------------------------------------------------------------
+// Weekly / monthly progress summaries
+// ---------------------------------------------------------------------------
+
+interface SummaryTable {
+  title: string;
+  columns: string[];
+  rows: (string | number)[][];
+}
+
+const summaryTitle = (summary: ProgressSummary) =>
+  `${PERIOD_LABELS[summary.period].toUpperCase()} PROGRESS REPORT`;
+
+const summaryFileName = (summary: ProgressSummary, ext: string) =>
+  `${PERIOD_LABELS[summary.period]}_Report_${
+    summary.projectName?.replace(/\s+/g, "_") || "Report"
+  }_${summary.from}_${summary.to}.${ext}`;
+
+// Label and value are kept apart so each format can line them up as columns
+const summaryInfoLines = (summary: ProgressSummary) => [
+  { label: "Project Name", value: summary.projectName || "" },
+  { label: "Period", value: formatSummaryRange(summary) },
+  { label: "Daily reports", value: String(summary.reportCount) },
+  { label: "Weather days lost", value: String(summary.weatherDaysLost) },
+];
+
+// The same tables are rendered by every summary format
+const summaryTables = (summary: ProgressSummary): SummaryTable[] => {
+  const resourceTable = (
+    title: string,
+    rows: ProgressSummary["resources"]["materials"],
+    hasUnit: boolean
+  ): SummaryTable => ({
+    title,
+    columns: hasUnit
+      ? ["Description", "Unit", "Period Total", "Accumulated"]
+      : ["Description", "Period Total", "Accumulated"],
+    rows: rows.map((r) =>
+      hasUnit
+        ? [r.description, r.unit, r.total, r.accumulated]
+        : [r.description, r.total, r.accumulated]
+    ),
+  });
+
+  return [
+    resourceTable("Site Management Team", summary.resources.managementTeam, false),
+    resourceTable("Site Working Team", summary.resources.workingTeam, false),
+    resourceTable("Materials Deliveries", summary.resources.materials, true),
+    {
+      title: "Delivered Materials by Unit",
+      columns: ["Unit", "Quantity"],
+      rows: summary.materialsByUnit.map((m) => [m.unit, m.quantity]),
+    },
+    resourceTable("Machinery & Equipment", summary.resources.machinery, true),
+    {
+      title: "Weather",
+      columns: ["Date", "AM", "PM"],
+      rows: summary.weather.map((w) => [w.date, w.weatherAM, w.weatherPM]),
+    },
+  ];
+};
+
+export const exportSummaryToPDF = async (
+  summary: ProgressSummary,
+  logos: { cacpmLogo?: string | null; koicaLogo?: string | null } = {}
+): Promise<void> => {
+  const doc = new jsPDF("p", "mm", "a4");
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const margin = 15;
+  const contentWidth = pageWidth - margin * 2;
+  let y = 20;
+
+  const ensureSpace = (needed: number) => {
+    if (y + needed > pageHeight - margin) {
+      doc.addPage();
+      y = 20;
+    }
+  };
+
+  try {
+    const leftLogo = await loadImageDataUrl(logos.cacpmLogo || "/cacpm_logo.png");
+    doc.addImage(leftLogo, "PNG", margin, 3, 65, 24);
+  } catch (e) {
+    console.warn("Failed to add left logo:", e);
+  }
+  try {
+    const rightLogo = await loadImageDataUrl(logos.koicaLogo || "/koica_logo.png");
+    doc.addImage(rightLogo, "PNG", pageWidth - margin - 50, 5, 50, 18);
+  } catch (e) {
+    console.warn("Failed to add right logo:", e);
+  }
+
+  doc.setFontSize(18);
+  doc.setFont("helvetica", "bold");
+  doc.text(summaryTitle(summary), pageWidth / 2, 30, { align: "center" });
+  y = 38;
+
+  doc.setFontSize(10);
+  summaryInfoLines(summary).forEach(({ label, value }) => {
+    doc.setFont("helvetica", "bold");
+    doc.text(label, margin, y);
+    doc.setFont("helvetica", "normal");
+    doc.text(`: ${value}`, margin + 35, y);
+    y += 6;
+  });
+  y += 4;
+
+  const sectionHeader = (title: string) => {
+    ensureSpace(14);
+    doc.setFontSize(11);
+    doc.setFont("helvetica", "bold");
+    doc.setFillColor(52, 152, 219);
+    doc.setTextColor(255, 255, 255);
+    doc.rect(margin, y - 4, contentWidth, 6, "F");
+    doc.text(title, margin + 2, y);
+    doc.setTextColor(0, 0, 0);
+    y += 7;
+  };
+
+  // Activities, one block per day
+  sectionHeader("Working Activities");
+  doc.setFontSize(9);
+  if (summary.activities.length === 0) {
+    doc.setFont("helvetica", "normal");
+    doc.text("No activities recorded.", margin + 2, y);
+    y += 6;
+  }
+  summary.activities.forEach(({ date, text }) => {
+    const lines: string[] = doc.splitTextToSize(text, contentWidth - 4);
+    ensureSpace(5 + lines.length * 4);
+    doc.setFont("helvetica", "bold");
+    doc.text(date, margin + 2, y);
+    y += 4.5;
+    doc.setFont("helvetica", "normal");
+    lines.forEach((line) => {
+      ensureSpace(4);
+      doc.text(line, margin + 2, y);
+      y += 4;
+    });
+    y += 2;
+  });
+  y += 4;
+
+  summaryTables(summary).forEach((table) => {
+    sectionHeader(table.title);
+    const firstWidth = contentWidth * (table.columns.length > 3 ? 0.4 : 0.5);
+    const otherWidth = (contentWidth - firstWidth) / (table.columns.length - 1);
+    const colX = table.columns.map((_, i) =>
+      i === 0 ? margin : margin + firstWidth + otherWidth * (i - 1)
+    );
+
+    const drawRow = (cells: (string | number)[], bold: boolean, shaded: boolean) => {
+      ensureSpace(6);
+      if (shaded) {
+        doc.setFillColor(217, 225, 242);
+        doc.rect(margin, y - 4, contentWidth, 5.5, "F");
+      }
+      doc.setFontSize(9);
+      doc.setFont("helvetica", bold ? "bold" : "normal");
+      cells.forEach((cell, i) => {
+        const text = String(cell ?? "");
+        if (i === 0) {
+          doc.text(doc.splitTextToSize(text, firstWidth - 4)[0] ?? "", colX[i] + 2, y);
+        } else {
+          doc.text(text, colX[i] + otherWidth / 2, y, { align: "center" });
+        }
+      });
+      y += 5.5;
+    };
+
+    drawRow(table.columns, true, true);
+    if (table.rows.length === 0) {
+      drawRow(["No entries."], false, false);
+    }
+    table.rows.forEach((row) => drawRow(row, false, false));
+    y += 5;
+  });
+
+  saveAs(doc.output("blob"), summaryFileName(summary, "pdf"));
+};
+
+export const exportSummaryToExcel = async (summary: ProgressSummary) => {
+  const workbook = new ExcelJS.Workbook();
+  const worksheet = workbook.addWorksheet("SUMMARY");
+  worksheet.columns = [
+    { width: 40 },
+    { width: 16 },
+    { width: 16 },
+    { width: 16 },
+  ];
+
+  const headerFill: ExcelJS.Fill = {
+    type: "pattern",
+    pattern: "solid",
+    fgColor: { argb: "FF3498DB" },
+  };
+  const columnFill: ExcelJS.Fill = {
+    type: "pattern",
+    pattern: "solid",
+    fgColor: { argb: "FFD9E1F2" },
+  };
+
+  const title = worksheet.addRow([summaryTitle(summary)]);
+  title.font = { bold: true, size: 16 };
+  worksheet.mergeCells(title.number, 1, title.number, 4);
+  title.alignment = { horizontal: "center" };
+  worksheet.addRow([]);
+
+  summaryInfoLines(summary).forEach(({ label, value }) => {
+    const row = worksheet.addRow([label, value]);
+    row.getCell(1).font = { bold: true };
+  });
+  worksheet.addRow([]);
+
+  const addSectionHeader = (text: string) => {
+    const row = worksheet.addRow([text]);
+    worksheet.mergeCells(row.number, 1, row.number, 4);
+    row.getCell(1).fill = headerFill;
+    row.getCell(1).font = { bold: true, color: { argb: "FFFFFFFF" } };
+  };
+
+  addSectionHeader("Working Activities");
+  if (summary.activities.length === 0) worksheet.addRow(["No activities recorded."]);
+  summary.activities.forEach(({ date, text }) => {
+    const row = worksheet.addRow([date, text]);
+    row.getCell(1).font = { bold: true };
+    worksheet.mergeCells(row.number, 2, row.number, 4);
+    row.getCell(2).alignment = { wrapText: true, vertical: "top" };
+    row.height = Math.max(15, text.split(/\r?\n/).length * 15);
+  });
+  worksheet.addRow([]);
+
+  summaryTables(summary).forEach((table) => {
+    addSectionHeader(table.title);
+    const header = worksheet.addRow(table.columns);
+    header.eachCell((cell) => {
+      cell.fill = columnFill;
+      cell.font = { bold: true };
+    });
+    if (table.rows.length === 0) worksheet.addRow(["No entries."]);
+    table.rows.forEach((row) => worksheet.addRow(row));
+    worksheet.addRow([]);
+  });
+
+  const buffer = await workbook.xlsx.writeBuffer();
+  const blob = new Blob([buffer], {
+    type: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  });
+  saveAs(blob, summaryFileName(summary, "xlsx"));
+};
+
+export const exportSummaryToWord = async (
+  summary: ProgressSummary
+): Promise<void> => {
+  const cell = (text: string, options: { bold?: boolean; fill?: string } = {}) =>
+    new TableCell({
+      children: [
+        new Paragraph({
+          children: [
+            new TextRun({
+              text,
+              bold: options.bold,
+              color: options.fill === "3498DB" ? "FFFFFF" : undefined,
+            }),
+          ],
+        }),
+      ],
+      shading: options.fill ? { fill: options.fill } : undefined,
+    });
+
+  const borders = {
+    top: { style: BorderStyle.SINGLE },
+    bottom: { style: BorderStyle.SINGLE },
+    left: { style: BorderStyle.SINGLE },
+    right: { style: BorderStyle.SINGLE },
+    insideHorizontal: { style: BorderStyle.SINGLE },
+    insideVertical: { style: BorderStyle.SINGLE },
+  };
+
+  const none = { style: BorderStyle.NONE, size: 0, color: "FFFFFF" };
+  const noBorders = {
+    top: none,
+    bottom: none,
+    left: none,
+    right: none,
+    insideHorizontal: none,
+    insideVertical: none,
+  };
+
+  const children: (Paragraph | Table)[] = [
+    new Paragraph({
+      text: summaryTitle(summary),
+      heading: HeadingLevel.TITLE,
+      alignment: AlignmentType.CENTER,
+      spacing: { after: 400 },
+    }),
+    new Table({
+      width: { size: 100, type: WidthType.PERCENTAGE },
+      borders: noBorders,
+      rows: summaryInfoLines(summary).map(
+        ({ label, value }) =>
+          new TableRow({
+            children: [
+              new TableCell({
+                children: [
+                  new Paragraph({ children: [new TextRun({ text: label, bold: true })] }),
+                ],
+                width: { size: 25, type: WidthType.PERCENTAGE },
+              }),
+              new TableCell({
+                children: [new Paragraph({ text: value })],
+                width: { size: 75, type: WidthType.PERCENTAGE },
+              }),
+            ],
+          })
+      ),
+    }),
+    new Paragraph({
+      text: "Working Activities",
+      heading: HeadingLevel.HEADING_2,
+      spacing: { before: 300, after: 120 },
+    }),
+  ];
+
+  if (summary.activities.length === 0) {
+    children.push(new Paragraph({ text: "No activities recorded." }));
+  }
+  summary.activities.forEach(({ date, text }) => {
+    children.push(
+      new Paragraph({ children: [new TextRun({ text: date, bold: true })] }),
+      ...text.split(/\r?\n/).map(
+        (line) => new Paragraph({ text: line, spacing: { after: 60 } })
+      )
+    );
+  });
+
+  summaryTables(summary).forEach((table) => {
+    children.push(
+      new Paragraph({ text: "", spacing: { after: 200 } }),
+      new Table({
+        width: { size: 100, type: WidthType.PERCENTAGE },
+        borders,
+        rows: [
+          new TableRow({
+            children: [
+              new TableCell({
+                children: [
+                  new Paragraph({
+                    children: [
+                      new TextRun({ text: table.title, bold: true, color: "FFFFFF" }),
+                    ],
+                  }),
+                ],
+                columnSpan: table.columns.length,
+                shading: { fill: "3498DB" },
+              }),
+            ],
+          }),
+          new TableRow({
+            children: table.columns.map((c) => cell(c, { bold: true, fill: "D9E1F2" })),
+          }),
+          ...(table.rows.length === 0
+            ? [
+                new TableRow({
+                  children: [
+                    new TableCell({
+                      children: [new Paragraph({ text: "No entries." })],
+                      columnSpan: table.columns.length,
+                    }),
+                  ],
+                }),
+              ]
+            : table.rows.map(
+                (row) =>
+                  new TableRow({ children: row.map((value) => cell(String(value))) })
+              )),
+        ],
+      })
+    );
+  });
+
+  const doc = new Document({ sections: [{ properties: {}, children }] });
+  saveAs(await Packer.toBlob(doc), summaryFileName(summary, "docx"));
+};
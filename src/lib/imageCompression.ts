@@ -0,0 +1,143 @@
+// src/lib/imageCompression.ts
+// Downscales and re-encodes picked photos in a Web Worker before they are
+// stored, uploaded or inlined into exports
+export type CompressionFormat = "image/jpeg" | "image/webp";
+
+export interface ImageCompressionSettings {
+  enabled: boolean;
+  // Longest side in pixels after resizing
+  maxDimension: number;
+  // Encoder quality between 0 and 1
+  quality: number;
+  format: CompressionFormat;
+}
+
+export interface CompressionRequest {
+  id: number;
+  blob: Blob;
+  settings: ImageCompressionSettings;
+}
+
+export interface CompressionResponse {
+  id: number;
+  blob?: Blob;
+  error?: string;
+}
+
+export interface CompressionResult {
+  file: File;
+  savedBytes: number;
+}
+
+export const IMAGE_COMPRESSION_KEY = "daily-report-image-compression";
+
+export const DEFAULT_COMPRESSION: ImageCompressionSettings = {
+  enabled: true,
+  maxDimension: 1920,
+  quality: 0.8,
+  format: "image/jpeg",
+};
+
+export const COMPRESSION_FORMAT_LABELS: Record<CompressionFormat, string> = {
+  "image/jpeg": "JPEG",
+  "image/webp": "WebP",
+};
+
+export const getCompressionSettings = (): ImageCompressionSettings => {
+  try {
+    const raw = localStorage.getItem(IMAGE_COMPRESSION_KEY);
+    return raw ? { ...DEFAULT_COMPRESSION, ...JSON.parse(raw) } : DEFAULT_COMPRESSION;
+  } catch (e) {
+    console.error("Failed to read image compression settings:", e);
+    return DEFAULT_COMPRESSION;
+  }
+};
+
+export const setCompressionSettings = (settings: ImageCompressionSettings): void =>
+  localStorage.setItem(IMAGE_COMPRESSION_KEY, JSON.stringify(settings));
+
+// Animated and vector images would lose what makes them useful
+const SKIPPED_TYPES = ["image/gif", "image/svg+xml"];
+
+let worker: Worker | null = null;
+let nextId = 0;
+const pending = new Map<
+  number,
+  { resolve: (blob: Blob) => void; reject: (error: Error) => void }
+>();
+
+const getWorker = () => {
+  if (worker) return worker;
+  worker = new Worker(new URL("./imageCompression.worker.ts", import.meta.url), {
+    type: "module",
+  });
+  worker.onmessage = (event: MessageEvent<CompressionResponse>) => {
+    const { id, blob, error } = event.data;
+    const request = pending.get(id);
+    if (!request) return;
+    pending.delete(id);
+    if (blob) request.resolve(blob);
+    else request.reject(new Error(error || "Image compression failed"));
+  };
+  worker.onerror = (event) => {
+    // A crashed worker fails everything in flight; the next call starts a new one
+    pending.forEach(({ reject }) => reject(new Error(event.message || "Image worker crashed")));
+    pending.clear();
+    worker?.terminate();
+    worker = null;
+  };
+  return worker;
+};
+
+const compressInWorker = (blob: Blob, settings: ImageCompressionSettings) =>
+  new Promise<Blob>((resolve, reject) => {
+    const id = ++nextId;
+    pending.set(id, { resolve, reject });
+    const request: CompressionRequest = { id, blob, settings };
+    getWorker().postMessage(request);
+  });
+
+const EXTENSIONS: Record<string, string> = {
+  "image/jpeg": "jpg",
+  "image/webp": "webp",
+  "image/png": "png",
+};
+
+// Resolves to the original file when compression is off, unsupported or doesn't help
+export const compressImage = async (
+  file: File,
+  settings: ImageCompressionSettings = getCompressionSettings()
+): Promise<CompressionResult> => {
+  const unchanged = { file, savedBytes: 0 };
+  if (
+    !settings.enabled ||
+    !file.type.startsWith("image/") ||
+    SKIPPED_TYPES.includes(file.type) ||
+    typeof Worker === "undefined" ||
+    typeof OffscreenCanvas === "undefined"
+  ) {
+    return unchanged;
+  }
+
+  try {
+    const blob = await compressInWorker(file, settings);
+    if (blob.size >= file.size) return unchanged;
+    const baseName = file.name.replace(/\.[^.]+$/, "");
+    return {
+      file: new File([blob], `${baseName}.${EXTENSIONS[blob.type] ?? "jpg"}`, {
+        type: blob.type,
+        lastModified: file.lastModified,
+      }),
+      savedBytes: file.size - blob.size,
+    };
+  } catch (e) {
+    console.warn("Image compression failed, keeping the original:", e);
+    return unchanged;
+  }
+};
+
+export const formatBytes = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
@@ -0,0 +1,36 @@
+// src/lib/imageCompression.worker.ts
+// Resizes and re-encodes one image per message. Decoding with
+// imageOrientation "from-image" bakes in the EXIF rotation, and drawing through
+// a canvas drops every other piece of metadata (GPS, camera, thumbnails).
+import type { CompressionRequest, CompressionResponse } from "./imageCompression";
+
+const respond = (response: CompressionResponse) => self.postMessage(response);
+
+self.onmessage = async (event: MessageEvent<CompressionRequest>) => {
+  const { id, blob, settings } = event.data;
+  try {
+    const bitmap = await createImageBitmap(blob, { imageOrientation: "from-image" });
+    const scale = Math.min(1, settings.maxDimension / Math.max(bitmap.width, bitmap.height));
+    const width = Math.round(bitmap.width * scale);
+    const height = Math.round(bitmap.height * scale);
+
+    const canvas = new OffscreenCanvas(width, height);
+    const ctx = canvas.getContext("2d");
+    if (!ctx) throw new Error("Canvas 2D context not available");
+    if (settings.format === "image/jpeg") {
+      // JPEG has no alpha channel; keep transparent areas white instead of black
+      ctx.fillStyle = "#ffffff";
+      ctx.fillRect(0, 0, width, height);
+    }
+    ctx.drawImage(bitmap, 0, 0, width, height);
+    bitmap.close();
+
+    const output = await canvas.convertToBlob({
+      type: settings.format,
+      quality: settings.quality,
+    });
+    respond({ id, blob: output });
+  } catch (e) {
+    respond({ id, error: e instanceof Error ? e.message : String(e) });
+  }
+};
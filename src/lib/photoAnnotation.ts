@@ -0,0 +1,217 @@
+// src/lib/photoAnnotation.ts
+// Renders a reference photo with its rotation, annotations and crop applied.
+// Edits are kept as data so the annotated copy can be re-rendered from the original.
+import {
+  Annotation,
+  AnnotationPoint,
+  PhotoCrop,
+  PhotoEdits,
+} from "@/types/annotation";
+
+export const EMPTY_EDITS: PhotoEdits = { rotation: 0, annotations: [] };
+
+export const ANNOTATION_COLORS = [
+  "#ef4444",
+  "#facc15",
+  "#3b82f6",
+  "#22c55e",
+  "#ffffff",
+  "#111827",
+];
+
+export const loadImage = (source: Blob | string): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const url = typeof source === "string" ? source : URL.createObjectURL(source);
+    const release = () => {
+      if (typeof source !== "string") URL.revokeObjectURL(url);
+    };
+    const img = new Image();
+    img.crossOrigin = "anonymous";
+    img.onload = () => {
+      release();
+      resolve(img);
+    };
+    img.onerror = (e) => {
+      release();
+      reject(e);
+    };
+    img.src = url;
+  });
+
+export const rotatedSize = (image: HTMLImageElement, rotation: PhotoEdits["rotation"]) =>
+  rotation % 180 === 0
+    ? { width: image.naturalWidth, height: image.naturalHeight }
+    : { width: image.naturalHeight, height: image.naturalWidth };
+
+// Scales with the photo so lines stay visible on large images
+export const defaultStrokeWidth = ({ width, height }: { width: number; height: number }) =>
+  Math.max(3, Math.round(Math.max(width, height) / 250));
+
+export const rectFrom = (a: AnnotationPoint, b: AnnotationPoint): PhotoCrop => ({
+  x: Math.min(a.x, b.x),
+  y: Math.min(a.y, b.y),
+  width: Math.abs(a.x - b.x),
+  height: Math.abs(a.y - b.y),
+});
+
+const mapPoints = (
+  annotation: Annotation,
+  fn: (p: AnnotationPoint) => AnnotationPoint
+): Annotation => {
+  switch (annotation.kind) {
+    case "freehand":
+      return { ...annotation, points: annotation.points.map(fn) };
+    case "text":
+      return { ...annotation, at: fn(annotation.at) };
+    default:
+      return { ...annotation, from: fn(annotation.from), to: fn(annotation.to) };
+  }
+};
+
+// Rotate by a quarter turn (1 = clockwise), carrying the annotations along.
+// `size` is the rotated size before this turn; the crop is dropped.
+export const rotateEdits = (
+  edits: PhotoEdits,
+  direction: 1 | -1,
+  size: { width: number; height: number }
+): PhotoEdits => {
+  const turn = (p: AnnotationPoint) =>
+    direction === 1
+      ? { x: size.height - p.y, y: p.x }
+      : { x: p.y, y: size.width - p.x };
+  return {
+    rotation: (((edits.rotation + direction * 90) % 360) + 360) % 360 as PhotoEdits["rotation"],
+    annotations: edits.annotations.map((a) => mapPoints(a, turn)),
+  };
+};
+
+const pixelate = (ctx: CanvasRenderingContext2D, area: PhotoCrop) => {
+  if (area.width < 1 || area.height < 1) return;
+  const block = Math.max(8, Math.round(Math.max(area.width, area.height) / 20));
+  const small = document.createElement("canvas");
+  small.width = Math.max(1, Math.round(area.width / block));
+  small.height = Math.max(1, Math.round(area.height / block));
+  small
+    .getContext("2d")
+    ?.drawImage(ctx.canvas, area.x, area.y, area.width, area.height, 0, 0, small.width, small.height);
+  ctx.save();
+  ctx.imageSmoothingEnabled = false;
+  ctx.drawImage(small, 0, 0, small.width, small.height, area.x, area.y, area.width, area.height);
+  ctx.restore();
+};
+
+const drawAnnotation = (ctx: CanvasRenderingContext2D, annotation: Annotation) => {
+  ctx.save();
+  ctx.lineCap = "round";
+  ctx.lineJoin = "round";
+
+  switch (annotation.kind) {
+    case "blur":
+      pixelate(ctx, rectFrom(annotation.from, annotation.to));
+      break;
+    case "text": {
+      ctx.font = `bold ${annotation.size}px sans-serif`;
+      ctx.textBaseline = "top";
+      // Dark outline keeps light text readable on bright photos and vice versa
+      ctx.lineWidth = Math.max(2, annotation.size / 8);
+      ctx.strokeStyle = annotation.color === "#111827" ? "#ffffff" : "#111827";
+      ctx.strokeText(annotation.text, annotation.at.x, annotation.at.y);
+      ctx.fillStyle = annotation.color;
+      ctx.fillText(annotation.text, annotation.at.x, annotation.at.y);
+      break;
+    }
+    case "freehand": {
+      ctx.strokeStyle = annotation.color;
+      ctx.lineWidth = annotation.width;
+      ctx.beginPath();
+      annotation.points.forEach((p, i) => (i === 0 ? ctx.moveTo(p.x, p.y) : ctx.lineTo(p.x, p.y)));
+      ctx.stroke();
+      break;
+    }
+    case "rect": {
+      const r = rectFrom(annotation.from, annotation.to);
+      ctx.strokeStyle = annotation.color;
+      ctx.lineWidth = annotation.width;
+      ctx.strokeRect(r.x, r.y, r.width, r.height);
+      break;
+    }
+    case "circle": {
+      const r = rectFrom(annotation.from, annotation.to);
+      ctx.strokeStyle = annotation.color;
+      ctx.lineWidth = annotation.width;
+      ctx.beginPath();
+      ctx.ellipse(r.x + r.width / 2, r.y + r.height / 2, r.width / 2, r.height / 2, 0, 0, Math.PI * 2);
+      ctx.stroke();
+      break;
+    }
+    case "arrow": {
+      const { from, to, width } = annotation;
+      const angle = Math.atan2(to.y - from.y, to.x - from.x);
+      const head = width * 4;
+      ctx.strokeStyle = annotation.color;
+      ctx.fillStyle = annotation.color;
+      ctx.lineWidth = width;
+      ctx.beginPath();
+      ctx.moveTo(from.x, from.y);
+      ctx.lineTo(to.x - Math.cos(angle) * head * 0.8, to.y - Math.sin(angle) * head * 0.8);
+      ctx.stroke();
+      ctx.beginPath();
+      ctx.moveTo(to.x, to.y);
+      ctx.lineTo(to.x - head * Math.cos(angle - Math.PI / 6), to.y - head * Math.sin(angle - Math.PI / 6));
+      ctx.lineTo(to.x - head * Math.cos(angle + Math.PI / 6), to.y - head * Math.sin(angle + Math.PI / 6));
+      ctx.closePath();
+      ctx.fill();
+      break;
+    }
+  }
+  ctx.restore();
+};
+
+// Rotated photo with every annotation, uncropped; sizes the canvas to fit
+export const drawEdits = (
+  canvas: HTMLCanvasElement,
+  image: HTMLImageElement,
+  edits: PhotoEdits
+) => {
+  const { width, height } = rotatedSize(image, edits.rotation);
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Canvas 2D context not available");
+
+  ctx.save();
+  ctx.translate(width / 2, height / 2);
+  ctx.rotate((edits.rotation * Math.PI) / 180);
+  ctx.drawImage(image, -image.naturalWidth / 2, -image.naturalHeight / 2);
+  ctx.restore();
+
+  // Blur first so it never smears the shapes drawn on top
+  edits.annotations.filter((a) => a.kind === "blur").forEach((a) => drawAnnotation(ctx, a));
+  edits.annotations.filter((a) => a.kind !== "blur").forEach((a) => drawAnnotation(ctx, a));
+  return ctx;
+};
+
+export const renderAnnotatedPhoto = (
+  image: HTMLImageElement,
+  edits: PhotoEdits
+): Promise<Blob> => {
+  const full = document.createElement("canvas");
+  drawEdits(full, image, edits);
+
+  let output = full;
+  if (edits.crop) {
+    const { x, y, width, height } = edits.crop;
+    output = document.createElement("canvas");
+    output.width = Math.round(width);
+    output.height = Math.round(height);
+    output.getContext("2d")?.drawImage(full, x, y, width, height, 0, 0, width, height);
+  }
+
+  return new Promise((resolve, reject) =>
+    output.toBlob(
+      (blob) => (blob ? resolve(blob) : reject(new Error("Could not render the annotated photo"))),
+      "image/jpeg",
+      0.9
+    )
+  );
+};
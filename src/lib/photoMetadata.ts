@@ -0,0 +1,162 @@
+// src/lib/photoMetadata.ts
+// Capture time and GPS position read from the EXIF block of JPEG photos
+import { format } from "date-fns";
+import { localDateString } from "./storageUtils";
+import { PhotoLocation, ReferenceSection, ReferenceSlot } from "@/types/report";
+
+export interface PhotoMetadata {
+  // Camera-local time as "YYYY-MM-DDTHH:mm:ss"; EXIF carries no time zone
+  takenAt?: string;
+  location?: PhotoLocation;
+}
+
+// EXIF sits in the first APP1 segment, well inside the first 256 KB
+const HEADER_BYTES = 256 * 1024;
+
+const TAG_DATE_TIME = 0x0132;
+const TAG_EXIF_IFD = 0x8769;
+const TAG_GPS_IFD = 0x8825;
+const TAG_DATE_TIME_ORIGINAL = 0x9003;
+const TAG_GPS_LAT_REF = 0x0001;
+const TAG_GPS_LAT = 0x0002;
+const TAG_GPS_LNG_REF = 0x0003;
+const TAG_GPS_LNG = 0x0004;
+
+const parseTiff = (view: DataView, tiff: number): PhotoMetadata => {
+  const little = view.getUint16(tiff) === 0x4949;
+  const u16 = (offset: number) => view.getUint16(offset, little);
+  const u32 = (offset: number) => view.getUint32(offset, little);
+
+  // Tag -> absolute offset of its 12-byte directory entry
+  const readIfd = (ifdOffset: number) => {
+    const entries = new Map<number, number>();
+    const start = tiff + ifdOffset;
+    const count = u16(start);
+    for (let i = 0; i < count; i++) {
+      const entry = start + 2 + i * 12;
+      entries.set(u16(entry), entry);
+    }
+    return entries;
+  };
+
+  const ascii = (entry: number | undefined) => {
+    if (entry === undefined) return undefined;
+    const count = u32(entry + 4);
+    const start = count <= 4 ? entry + 8 : tiff + u32(entry + 8);
+    let text = "";
+    for (let i = 0; i < count; i++) {
+      const code = view.getUint8(start + i);
+      if (code === 0) break;
+      text += String.fromCharCode(code);
+    }
+    return text.trim();
+  };
+
+  // Degrees, minutes and seconds stored as three RATIONALs
+  const degrees = (entry: number | undefined) => {
+    if (entry === undefined) return undefined;
+    const start = tiff + u32(entry + 8);
+    const [d, m, s] = [0, 1, 2].map((i) => {
+      const denominator = u32(start + i * 8 + 4);
+      return denominator ? u32(start + i * 8) / denominator : 0;
+    });
+    return d + m / 60 + s / 3600;
+  };
+
+  const ifd0 = readIfd(u32(tiff + 4));
+  const exifEntry = ifd0.get(TAG_EXIF_IFD);
+  const exif = exifEntry !== undefined ? readIfd(u32(exifEntry + 8)) : undefined;
+  const rawDate = ascii(exif?.get(TAG_DATE_TIME_ORIGINAL)) || ascii(ifd0.get(TAG_DATE_TIME));
+
+  const metadata: PhotoMetadata = {};
+  const match = rawDate?.match(/^(\d{4}):(\d{2}):(\d{2}) (\d{2}):(\d{2}):(\d{2})/);
+  if (match && match[1] !== "0000") {
+    const [, y, mo, d, h, mi, s] = match;
+    metadata.takenAt = `${y}-${mo}-${d}T${h}:${mi}:${s}`;
+  }
+
+  const gpsEntry = ifd0.get(TAG_GPS_IFD);
+  if (gpsEntry !== undefined) {
+    const gps = readIfd(u32(gpsEntry + 8));
+    const lat = degrees(gps.get(TAG_GPS_LAT));
+    const lng = degrees(gps.get(TAG_GPS_LNG));
+    if (lat !== undefined && lng !== undefined && (lat !== 0 || lng !== 0)) {
+      metadata.location = {
+        lat: ascii(gps.get(TAG_GPS_LAT_REF)) === "S" ? -lat : lat,
+        lng: ascii(gps.get(TAG_GPS_LNG_REF)) === "W" ? -lng : lng,
+      };
+    }
+  }
+
+  return metadata;
+};
+
+// Photos without EXIF (PNG, screenshots, stripped files) resolve to {}
+export const readPhotoMetadata = async (file: Blob): Promise<PhotoMetadata> => {
+  try {
+    const view = new DataView(await file.slice(0, HEADER_BYTES).arrayBuffer());
+    if (view.byteLength < 4 || view.getUint16(0) !== 0xffd8) return {};
+
+    let offset = 2;
+    while (offset + 4 <= view.byteLength) {
+      const marker = view.getUint16(offset);
+      if ((marker & 0xff00) !== 0xff00 || marker === 0xffda) break;
+      const size = view.getUint16(offset + 2);
+      // APP1 starting with "Exif\0\0"
+      if (marker === 0xffe1 && view.getUint32(offset + 4) === 0x45786966) {
+        return parseTiff(view, offset + 10);
+      }
+      offset += 2 + size;
+    }
+  } catch (e) {
+    console.warn("Could not read photo metadata:", e);
+  }
+  return {};
+};
+
+export const formatTakenAt = (takenAt: string) =>
+  format(new Date(takenAt), "d MMM yyyy, HH:mm");
+
+export const formatLocation = ({ lat, lng }: PhotoLocation) =>
+  `${lat.toFixed(5)}, ${lng.toFixed(5)}`;
+
+export const mapLink = ({ lat, lng }: PhotoLocation) =>
+  `https://www.openstreetmap.org/?mlat=${lat}&mlon=${lng}#map=17/${lat}/${lng}`;
+
+export const isTakenOnOtherDay = (takenAt: string | undefined, reportDate?: Date) =>
+  !!takenAt && !!reportDate && takenAt.slice(0, 10) !== localDateString(reportDate);
+
+// "12 Mar 2026, 09:14 · 11.55640, 104.92820"
+export const photoMetadataLine = (slot: ReferenceSlot) =>
+  [
+    slot.takenAt && formatTakenAt(slot.takenAt),
+    slot.location && formatLocation(slot.location),
+  ]
+    .filter(Boolean)
+    .join(" · ");
+
+// Short caption for an empty slot, e.g. "Foundation works (09:14)"
+export const suggestCaption = (slot: ReferenceSlot, sectionTitle?: string) => {
+  if (!slot.takenAt) return "";
+  const time = format(new Date(slot.takenAt), "HH:mm");
+  return sectionTitle?.trim() ? `${sectionTitle.trim()} (${time})` : `Photo taken at ${time}`;
+};
+
+// Append capture time and location to every caption for the exporters
+export const withMetadataCaptions = (
+  sections: ReferenceSection[]
+): ReferenceSection[] =>
+  sections.map((section) => ({
+    ...section,
+    entries: (section.entries ?? []).map((entry) => ({
+      ...entry,
+      slots: (entry.slots ?? []).map((slot) => {
+        const line = photoMetadataLine(slot);
+        if (!line) return slot;
+        return {
+          ...slot,
+          caption: [slot.caption?.trim(), line].filter(Boolean).join(" — "),
+        };
+      }),
+    })),
+  }));
@@ -0,0 +1,116 @@
+// src/lib/planTracking.ts
+// Yesterday's work plan checked against today's activities, and weekly plan reliability
+import { format, startOfWeek } from "date-fns";
+import { activityItemLabel } from "./activityLog";
+import { DatedReport } from "./dashboardStats";
+import { loadLastSubmittedReport, loadReportForDate } from "./reportTemplates";
+import { localDateString } from "./storageUtils";
+import { PlanCheck, PlanStatus, ReportData } from "@/types/report";
+
+export const PLAN_STATUSES: PlanStatus[] = ["done", "partial", "slipped"];
+
+export const PLAN_STATUS_LABELS: Record<PlanStatus, string> = {
+  done: "Done",
+  partial: "Partial",
+  slipped: "Slipped",
+};
+
+export interface PreviousPlan {
+  date: string; // YYYY-MM-DD of the report the plan was written in
+  items: string[];
+}
+
+// One planned item per structured line, or per non-empty line of the text
+export const planLines = (report: Partial<ReportData>) =>
+  report.activityMode === "structured" && report.planItems?.length
+    ? report.planItems.map(activityItemLabel).filter(Boolean)
+    : (report.workPlanNextDay || "")
+        .split(/\r?\n/)
+        .map((line) => line.replace(/^\s*(?:[-*•]|\d+[.)])\s*/, "").trim())
+        .filter(Boolean);
+
+// The day before, or the last submitted report when nothing was written that day
+export const loadPreviousPlan = async (
+  reportDate: Date,
+  projectId?: string,
+  projectName?: string
+): Promise<PreviousPlan | null> => {
+  const yesterday = new Date(reportDate.getTime() - 86400000);
+  let report = await loadReportForDate(yesterday, projectId);
+  let date = localDateString(yesterday);
+  if (!report || planLines(report).length === 0) {
+    report = await loadLastSubmittedReport(localDateString(reportDate), projectId, projectName);
+    date = report?.reportDate ? localDateString(new Date(report.reportDate)) : date;
+  }
+  const items = report ? planLines(report) : [];
+  return items.length ? { date, items } : null;
+};
+
+// Saved checks first, matched to the plan by text; plan lines not yet checked follow
+export const mergePlanChecks = (plan: string[], checks: PlanCheck[] = []): PlanCheck[] => {
+  const checked = new Set(checks.map((c) => c.item));
+  return [
+    ...checks,
+    ...plan
+      .filter((item) => !checked.has(item))
+      .map((item) => ({ id: crypto.randomUUID(), item })),
+  ];
+};
+
+export interface PlanReliabilityWeek {
+  week: string; // YYYY-MM-DD of the Monday
+  label: string;
+  planned: number;
+  done: number;
+  partial: number;
+  slipped: number;
+  // Share of checked items fully done; partial items count as not done
+  reliability: number;
+}
+
+const percent = (done: number, total: number) =>
+  total ? Math.round((done / total) * 100) : 0;
+
+// Weekly percent of planned items completed, over the checked items of each report
+export const planReliability = (reports: DatedReport[]) => {
+  const weeks = new Map<string, PlanReliabilityWeek>();
+  const reasons = new Map<string, number>();
+
+  reports.forEach(({ date, report }) => {
+    const checks = (report.planChecks ?? []).filter((c) => c.status);
+    if (checks.length === 0) return;
+    const monday = startOfWeek(new Date(`${date}T00:00:00`), { weekStartsOn: 1 });
+    const key = localDateString(monday);
+    const week = weeks.get(key) ?? {
+      week: key,
+      label: format(monday, "MMM d"),
+      planned: 0,
+      done: 0,
+      partial: 0,
+      slipped: 0,
+      reliability: 0,
+    };
+    checks.forEach((c) => {
+      week.planned++;
+      week[c.status!]++;
+      if (c.status !== "done") {
+        const reason = c.reason?.trim() || "No reason given";
+        reasons.set(reason, (reasons.get(reason) ?? 0) + 1);
+      }
+    });
+    week.reliability = percent(week.done, week.planned);
+    weeks.set(key, week);
+  });
+
+  const data = Array.from(weeks.values()).sort((a, b) => a.week.localeCompare(b.week));
+  const planned = data.reduce((sum, w) => sum + w.planned, 0);
+  const done = data.reduce((sum, w) => sum + w.done, 0);
+
+  return {
+    weeks: data,
+    overall: planned ? percent(done, planned) : null,
+    reasons: Array.from(reasons, ([reason, count]) => ({ reason, count })).sort(
+      (a, b) => b.count - a.count
+    ),
+  };
+};
@@ -0,0 +1,131 @@
+// src/lib/progressSummary.ts
+// Weekly / monthly progress summaries built from a project's daily reports
+import {
+  endOfMonth,
+  endOfWeek,
+  format,
+  startOfMonth,
+  startOfWeek,
+} from "date-fns";
+import { DatedReport } from "./dashboardStats";
+import { RESOURCE_TABLE_KEYS } from "./reportDiff";
+import { localDateString } from "./storageUtils";
+import { lostHours, WORKING_HOURS_PER_DAY } from "./weatherLog";
+import { ReportData, ResourceTableKey } from "@/types/report";
+
+export type SummaryPeriod = "weekly" | "monthly";
+
+export interface SummaryResourceRow {
+  description: string;
+  unit: string;
+  // Sum of the daily "today" values within the period
+  total: number;
+  // Accumulated value on the last report of the period
+  accumulated: number;
+}
+
+export interface SummaryWeatherDay {
+  date: string; // YYYY-MM-DD
+  weatherAM: string;
+  weatherPM: string;
+}
+
+export interface ProgressSummary {
+  period: SummaryPeriod;
+  projectName: string;
+  from: string; // YYYY-MM-DD
+  to: string; // YYYY-MM-DD
+  reportCount: number;
+  activities: { date: string; text: string }[];
+  resources: Record<ResourceTableKey, SummaryResourceRow[]>;
+  materialsByUnit: { unit: string; quantity: number }[];
+  weather: SummaryWeatherDay[];
+  // Logged delay hours in working days; half a day for every rained-out
+  // morning or afternoon on reports without a delay log
+  weatherDaysLost: number;
+}
+
+// Weather values that stop work on site
+const LOST_WEATHER = ["rainy"];
+
+export const PERIOD_LABELS: Record<SummaryPeriod, string> = {
+  weekly: "Weekly",
+  monthly: "Monthly",
+};
+
+export const periodRange = (period: SummaryPeriod, anchor: Date) => {
+  const [start, end] =
+    period === "weekly"
+      ? [startOfWeek(anchor, { weekStartsOn: 1 }), endOfWeek(anchor, { weekStartsOn: 1 })]
+      : [startOfMonth(anchor), endOfMonth(anchor)];
+  return { from: localDateString(start), to: localDateString(end) };
+};
+
+export const formatSummaryRange = ({ from, to }: { from: string; to: string }) =>
+  `${format(new Date(`${from}T00:00:00`), "PP")} – ${format(
+    new Date(`${to}T00:00:00`),
+    "PP"
+  )}`;
+
+const isLost = (weather?: string) =>
+  !!weather && LOST_WEATHER.includes(weather.trim().toLowerCase());
+
+const daysLost = (report: ReportData) =>
+  report.weatherDelays?.length
+    ? lostHours(report.weatherDelays) / WORKING_HOURS_PER_DAY
+    : (isLost(report.weatherAM) ? 0.5 : 0) + (isLost(report.weatherPM) ? 0.5 : 0);
+
+// Reports must be sorted by date, as returned by loadSubmittedReports
+export const buildProgressSummary = (
+  reports: DatedReport[],
+  meta: { period: SummaryPeriod; projectName: string; from: string; to: string }
+): ProgressSummary => {
+  const resources = Object.fromEntries(
+    RESOURCE_TABLE_KEYS.map((table) => {
+      const rows = new Map<string, SummaryResourceRow>();
+      reports.forEach(({ report }) =>
+        (report[table] ?? []).forEach((row) => {
+          const description = row.description?.trim();
+          if (!description) return;
+          const key = description.toLowerCase();
+          const entry = rows.get(key) ?? {
+            description,
+            unit: row.unit || "",
+            total: 0,
+            accumulated: 0,
+          };
+          entry.total += row.today || 0;
+          entry.accumulated = row.accumulated || 0;
+          if (!entry.unit && row.unit) entry.unit = row.unit;
+          rows.set(key, entry);
+        })
+      );
+      return [table, Array.from(rows.values())];
+    })
+  ) as Record<ResourceTableKey, SummaryResourceRow[]>;
+
+  const byUnit = new Map<string, number>();
+  resources.materials.forEach((row) => {
+    const unit = row.unit || "No unit";
+    byUnit.set(unit, (byUnit.get(unit) ?? 0) + row.total);
+  });
+
+  const weather = reports.map(({ date, report }) => ({
+    date,
+    weatherAM: report.weatherAM || "",
+    weatherPM: report.weatherPM || "",
+  }));
+
+  return {
+    ...meta,
+    reportCount: reports.length,
+    activities: reports
+      .filter(({ report }) => report.activityToday?.trim())
+      .map(({ date, report }) => ({ date, text: report.activityToday.trim() })),
+    resources,
+    materialsByUnit: Array.from(byUnit, ([unit, quantity]) => ({ unit, quantity })),
+    weather,
+    weatherDaysLost:
+      Math.round(reports.reduce((sum, { report }) => sum + daysLost(report), 0) * 100) / 100,
+  };
+};
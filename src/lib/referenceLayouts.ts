@@ -0,0 +1,75 @@
+// src/lib/referenceLayouts.ts
+// Photo layouts for reference sections, shared by the editor and the exporters
+import {
+  ReferenceEntry,
+  ReferenceLayout,
+  ReferenceSection,
+  ReferenceSlot,
+} from "@/types/report";
+
+export const DEFAULT_REFERENCE_LAYOUT: ReferenceLayout = "2-up";
+
+export const REFERENCE_LAYOUTS: Record<
+  ReferenceLayout,
+  { label: string; columns: number; slots: number }
+> = {
+  "1-up": { label: "1 photo, full width", columns: 1, slots: 1 },
+  "2-up": { label: "2 photos side by side", columns: 2, slots: 2 },
+  "3-up": { label: "3 photos side by side", columns: 3, slots: 3 },
+  "2x2": { label: "2 x 2 grid", columns: 2, slots: 4 },
+};
+
+export const layoutOf = (section: Pick<ReferenceSection, "layout">) =>
+  REFERENCE_LAYOUTS[section.layout ?? DEFAULT_REFERENCE_LAYOUT] ??
+  REFERENCE_LAYOUTS[DEFAULT_REFERENCE_LAYOUT];
+
+export const emptySlot = (): ReferenceSlot => ({
+  id: crypto.randomUUID(),
+  image: null,
+  caption: "",
+});
+
+// The slots an entry exports, split into rows of the layout's column count
+export const entryRows = (
+  entry: ReferenceEntry,
+  layout: { columns: number; slots: number }
+): ReferenceSlot[][] => {
+  const slots = (entry.slots ?? []).slice(0, layout.slots);
+  const rows: ReferenceSlot[][] = [];
+  for (let i = 0; i < slots.length; i += layout.columns) {
+    rows.push(slots.slice(i, i + layout.columns));
+  }
+  return rows;
+};
+
+const isFilled = (slot: ReferenceSlot) => !!slot.image || !!slot.caption?.trim();
+
+// Fit every entry to a new layout without losing photos: entries are padded
+// with empty slots, and photos that no longer fit spill into new entries
+export const fitEntriesToLayout = (
+  entries: ReferenceEntry[],
+  layout: ReferenceLayout
+): ReferenceEntry[] => {
+  const { slots: capacity } = REFERENCE_LAYOUTS[layout];
+
+  return entries.flatMap((entry) => {
+    let slots = entry.slots ?? [];
+    // Trailing empty slots are dropped before anything spills over
+    while (slots.length > capacity && !isFilled(slots[slots.length - 1])) {
+      slots = slots.slice(0, -1);
+    }
+
+    const chunks: ReferenceSlot[][] = [];
+    for (let i = 0; i < Math.max(slots.length, 1); i += capacity) {
+      const chunk = slots.slice(i, i + capacity);
+      while (chunk.length < capacity) chunk.push(emptySlot());
+      chunks.push(chunk);
+    }
+
+    return chunks.map((chunk, i) => ({
+      ...entry,
+      id: i === 0 ? entry.id : crypto.randomUUID(),
+      slots: chunk,
+    }));
+  });
+};
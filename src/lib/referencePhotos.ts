@@ -0,0 +1,239 @@
+// src/lib/referencePhotos.ts
+// Reference photos live in IndexedDB (keyed by slot id) so drafts and saved
+// reports only carry a small reference instead of the image itself.
+import { PHOTO_STORE, withStore } from "./offlineDb";
+import { ReferenceSection, ReferenceSlot } from "@/types/report";
+
+interface StoredPhoto {
+  id: string;
+  blob: Blob;
+  name: string;
+  lastModified: number;
+  remoteUrl?: string;
+}
+
+// Files already written (or read back) from IndexedDB and the key they sit
+// under, so they aren't stored twice but are re-stored when moved to another field
+const storedFiles = new WeakMap<File, string>();
+
+// Slot fields holding a photo, with the field keeping its IndexedDB key. An
+// annotated slot shows `image` and keeps the untouched photo in `original`.
+const PHOTO_FIELDS = [
+  { field: "image", idField: "photoId", key: (slotId: string) => slotId },
+  {
+    field: "original",
+    idField: "originalPhotoId",
+    key: (slotId: string) => `${slotId}:original`,
+  },
+] as const;
+
+const mapSlots = async (
+  sections: ReferenceSection[],
+  fn: (slot: ReferenceSlot) => Promise<ReferenceSlot>
+): Promise<ReferenceSection[]> =>
+  Promise.all(
+    sections.map(async (section) => ({
+      ...section,
+      entries: await Promise.all(
+        (section.entries ?? []).map(async (entry) => ({
+          ...entry,
+          slots: await Promise.all((entry.slots ?? []).map(fn)),
+        }))
+      ),
+    }))
+  );
+
+const getPhoto = (id: string) =>
+  withStore<StoredPhoto | undefined>(PHOTO_STORE, "readonly", (s) => s.get(id));
+
+const putPhoto = (photo: StoredPhoto) =>
+  withStore(PHOTO_STORE, "readwrite", (s) => s.put(photo));
+
+const deletePhoto = (id: string) =>
+  withStore(PHOTO_STORE, "readwrite", (s) => s.delete(id));
+
+// Drop a slot's local copies when its photo is cleared or replaced
+export const deleteSlotPhotos = async (
+  slotId: string,
+  fields: ("image" | "original")[] = ["image", "original"]
+) => {
+  for (const { field, key } of PHOTO_FIELDS) {
+    if (fields.includes(field)) await deletePhoto(key(slotId));
+  }
+};
+
+// Drop the local copies of every photo in the sections, e.g. once submitted
+export const deleteSectionPhotos = async (sections: ReferenceSection[] = []) => {
+  for (const section of sections) {
+    for (const entry of section.entries ?? []) {
+      for (const slot of entry.slots ?? []) {
+        if (slot.id) await deleteSlotPhotos(slot.id);
+      }
+    }
+  }
+};
+
+// Keys still needed: photos that only exist on this device. A slot holding an
+// uploaded URL can do without its local copy.
+const localPhotoIds = (sections: ReferenceSection[] = []) =>
+  sections.flatMap((section) =>
+    (section.entries ?? []).flatMap((entry) =>
+      (entry.slots ?? []).flatMap((slot) =>
+        PHOTO_FIELDS.filter(({ field }) => typeof slot[field] !== "string").map(
+          ({ field, idField, key }) =>
+            slot[field] instanceof File && slot.id ? key(slot.id) : slot[idField]
+        )
+      )
+    )
+  );
+
+// Delete stored photos that none of the given reports (drafts, queued saves,
+// the open form) refers to any more: removed slots, replaced originals, ...
+export const pruneReferencePhotos = async (inUse: ReferenceSection[][]) => {
+  const keep = new Set(inUse.flatMap(localPhotoIds).filter(Boolean));
+  const keys = await withStore<IDBValidKey[]>(PHOTO_STORE, "readonly", (s) =>
+    s.getAllKeys()
+  );
+  for (const key of keys) {
+    if (typeof key === "string" && !keep.has(key)) await deletePhoto(key);
+  }
+};
+
+// Copy newly picked files into IndexedDB
+export const storeReferencePhotos = async (sections: ReferenceSection[]) => {
+  await mapSlots(sections, async (slot) => {
+    for (const { field, key } of PHOTO_FIELDS) {
+      const photo = slot[field];
+      if (slot.id && photo instanceof File && storedFiles.get(photo) !== key(slot.id)) {
+        await putPhoto({
+          id: key(slot.id),
+          blob: photo,
+          name: photo.name,
+          lastModified: photo.lastModified,
+        });
+        storedFiles.set(photo, key(slot.id));
+      }
+    }
+    return slot;
+  });
+};
+
+// Replace File objects with their IndexedDB key so the sections survive JSON
+export const toStoredSections = (
+  sections: ReferenceSection[] = []
+): ReferenceSection[] =>
+  sections.map((section) => ({
+    ...section,
+    entries: (section.entries ?? []).map((entry) => ({
+      ...entry,
+      slots: (entry.slots ?? []).map((slot) =>
+        PHOTO_FIELDS.reduce<ReferenceSlot>(
+          (stored, { field, idField, key }) =>
+            stored[field] instanceof File
+              ? { ...stored, [field]: null, [idField]: key(slot.id) }
+              : stored,
+          slot
+        )
+      ),
+    })),
+  }));
+
+// Turn stored photo keys back into File objects for the Section/Entry/Slot UI
+export const loadReferencePhotos = async (
+  sections: ReferenceSection[] = []
+): Promise<ReferenceSection[]> =>
+  mapSlots(sections, async (slot) => {
+    let loaded = slot;
+    for (const { field, idField } of PHOTO_FIELDS) {
+      const photoId = slot[idField];
+      if (!photoId) continue;
+      try {
+        const photo = await getPhoto(photoId);
+        if (!photo) continue; // fall back to the uploaded URL, if any
+        const file = new File([photo.blob], photo.name, {
+          type: photo.blob.type,
+          lastModified: photo.lastModified,
+        });
+        storedFiles.set(file, photoId);
+        loaded = { ...loaded, [field]: file };
+      } catch (e) {
+        console.error("Failed to load reference photo:", photoId, e);
+      }
+    }
+    return loaded;
+  });
+
+export type PhotoUploader = (
+  file: File,
+  meta: { photoId: string; fileName: string; projectId?: string; reportDate?: string }
+) => Promise<string>;
+
+// Upload local photos that the server doesn't have yet and return sections
+// holding their URLs. Photos that fail to upload keep only their local key.
+// The uploader is passed in so this module stays clear of the API client,
+// which depends on storageUtils, which depends on this module.
+export const uploadReferencePhotos = async (
+  sections: ReferenceSection[],
+  meta: { projectId?: string; reportDate?: string },
+  upload: PhotoUploader
+): Promise<{ sections: ReferenceSection[]; failed: number }> => {
+  await storeReferencePhotos(sections);
+  let failed = 0;
+
+  const uploaded = await mapSlots(sections, async (slot) => {
+    let result = slot;
+    for (const { field, idField, key } of PHOTO_FIELDS) {
+      const file = slot[field];
+      if (!(file instanceof File) || !slot.id) continue;
+      const photoId = key(slot.id);
+
+      const photo = await getPhoto(photoId);
+      if (photo?.remoteUrl) {
+        result = { ...result, [field]: photo.remoteUrl, [idField]: photoId };
+        continue;
+      }
+
+      try {
+        const url = await upload(file, {
+          photoId,
+          fileName: file.name,
+          ...meta,
+        });
+        if (photo) await putPhoto({ ...photo, remoteUrl: url });
+        result = { ...result, [field]: url, [idField]: photoId };
+      } catch (e) {
+        console.error("Failed to upload reference photo:", photoId, e);
+        failed++;
+        result = { ...result, [field]: null, [idField]: photoId };
+      }
+    }
+    return result;
+  });
+
+  return { sections: uploaded, failed };
+};
+
+const readAsDataUrl = (blob: Blob) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => resolve(String(reader.result));
+    reader.onerror = reject;
+    reader.readAsDataURL(blob);
+  });
+
+// Inline local photos as data URLs for the exporters (Python service, jsPDF).
+// Exports show the annotated copy, so the original is left out.
+export const toDataUrlSections = (
+  sections: ReferenceSection[]
+): Promise<ReferenceSection[]> =>
+  mapSlots(sections, async ({ original, ...slot }) => {
+    const { image } = slot;
+    if (image instanceof File) {
+      return { ...slot, image: await readAsDataUrl(image) };
+    }
+    if (typeof image === "string" && image.startsWith("blob:")) {
+      const blob = await (await fetch(image)).blob();
+      return { ...slot, image: await readAsDataUrl(blob) };
+    }
+    return { ...slot, image: image ?? null };
+  });
@@ -0,0 +1,167 @@
+// src/lib/reportDiff.ts
+// Field-level differences between two saved versions of a report
+import { ResourceRow } from "@/components/ResourceTable";
+import { ReportData, ResourceTableKey } from "@/types/report";
+
+export type LineChange = { type: "same" | "added" | "removed"; text: string };
+
+export interface RowChange {
+  type: "added" | "removed" | "changed";
+  description: string;
+  before?: ResourceRow;
+  after?: ResourceRow;
+  // after - before, for rows present in both versions
+  deltas?: { prev: number; today: number; accumulated: number };
+  // Non-numeric fields that changed (description, unit)
+  fields?: string[];
+}
+
+export interface FieldChange {
+  field: string;
+  before: string;
+  after: string;
+}
+
+export interface ReportDiff {
+  fields: FieldChange[];
+  activityToday: LineChange[] | null;
+  workPlanNextDay: LineChange[] | null;
+  tables: Record<ResourceTableKey, RowChange[]>;
+  isEmpty: boolean;
+}
+
+export const RESOURCE_TABLE_KEYS: ResourceTableKey[] = [
+  "managementTeam",
+  "workingTeam",
+  "materials",
+  "machinery",
+];
+
+const SIMPLE_FIELDS: { key: keyof ReportData; label: string }[] = [
+  { key: "projectName", label: "Project" },
+  { key: "weatherAM", label: "Weather AM" },
+  { key: "weatherPM", label: "Weather PM" },
+  { key: "tempAM", label: "Temperature AM" },
+  { key: "tempPM", label: "Temperature PM" },
+];
+
+// Line diff via longest common subsequence; report texts are short enough
+export const diffLines = (before = "", after = ""): LineChange[] => {
+  const a = before ? before.split("\n") : [];
+  const b = after ? after.split("\n") : [];
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () =>
+    Array(b.length + 1).fill(0)
+  );
+
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] =
+        a[i] === b[j]
+          ? lcs[i + 1][j + 1] + 1
+          : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const changes: LineChange[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      changes.push({ type: "same", text: a[i] });
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      changes.push({ type: "removed", text: a[i++] });
+    } else {
+      changes.push({ type: "added", text: b[j++] });
+    }
+  }
+  while (i < a.length) changes.push({ type: "removed", text: a[i++] });
+  while (j < b.length) changes.push({ type: "added", text: b[j++] });
+  return changes;
+};
+
+const rowKey = (row: ResourceRow) => row.id || row.description;
+
+export const diffRows = (
+  before: ResourceRow[] = [],
+  after: ResourceRow[] = []
+): RowChange[] => {
+  const beforeByKey = new Map(before.map((r) => [rowKey(r), r]));
+  const afterKeys = new Set(after.map(rowKey));
+  const changes: RowChange[] = [];
+
+  after.forEach((row) => {
+    const old = beforeByKey.get(rowKey(row));
+    if (!old) {
+      changes.push({ type: "added", description: row.description, after: row });
+      return;
+    }
+
+    const deltas = {
+      prev: (row.prev || 0) - (old.prev || 0),
+      today: (row.today || 0) - (old.today || 0),
+      accumulated: (row.accumulated || 0) - (old.accumulated || 0),
+    };
+    const fields = (["description", "unit"] as const).filter(
+      (f) => (row[f] || "") !== (old[f] || "")
+    );
+    if (fields.length || deltas.prev || deltas.today || deltas.accumulated) {
+      changes.push({
+        type: "changed",
+        description: row.description,
+        before: old,
+        after: row,
+        deltas,
+        fields,
+      });
+    }
+  });
+
+  before.forEach((row) => {
+    if (!afterKeys.has(rowKey(row))) {
+      changes.push({ type: "removed", description: row.description, before: row });
+    }
+  });
+
+  return changes;
+};
+
+export const diffReports = (
+  before: Partial<ReportData> | null,
+  after: Partial<ReportData>
+): ReportDiff => {
+  const prev = before ?? {};
+
+  const fields = SIMPLE_FIELDS.filter(
+    ({ key }) => String(prev[key] ?? "") !== String(after[key] ?? "")
+  ).map(({ key, label }) => ({
+    field: label,
+    before: String(prev[key] ?? ""),
+    after: String(after[key] ?? ""),
+  }));
+
+  const textDiff = (key: "activityToday" | "workPlanNextDay") =>
+    (prev[key] || "") === (after[key] || "")
+      ? null
+      : diffLines(prev[key], after[key]);
+
+  const tables = Object.fromEntries(
+    RESOURCE_TABLE_KEYS.map((key) => [key, diffRows(prev[key], after[key])])
+  ) as Record<ResourceTableKey, RowChange[]>;
+
+  const activityToday = textDiff("activityToday");
+  const workPlanNextDay = textDiff("workPlanNextDay");
+
+  return {
+    fields,
+    activityToday,
+    workPlanNextDay,
+    tables,
+    isEmpty:
+      fields.length === 0 &&
+      !activityToday &&
+      !workPlanNextDay &&
+      RESOURCE_TABLE_KEYS.every((key) => tables[key].length === 0),
+  };
+};
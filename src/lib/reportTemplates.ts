@@ -0,0 +1,156 @@
+// src/lib/reportTemplates.ts
+// "Start from…": copy chosen parts of an earlier report or a saved template
+import { ResourceRow } from "@/components/ResourceTable";
+import { listReportsFromDB, loadReportFromDB } from "@/integrations/reportsApi";
+import { emptySlot, layoutOf } from "./referenceLayouts";
+import { RESOURCE_TABLE_KEYS } from "./reportDiff";
+import { isLockedStatus } from "./reviewWorkflow";
+import { loadDraftLocally } from "./storageUtils";
+import { CopyPart, ReportData, ReportTemplate } from "@/types/report";
+
+export const TEMPLATES_KEY = "daily-report-templates";
+
+export const COPY_PARTS: CopyPart[] = ["projectInfo", "activities", "resources", "referenceTitles"];
+
+export const COPY_PART_LABELS: Record<CopyPart, string> = {
+  projectInfo: "Project info (weather and temperature)",
+  activities: "Activities, as today's plan",
+  resources: "Resource rows, with totals carried forward",
+  referenceTitles: "Reference section titles, without photos",
+};
+
+// Yesterday's accumulated becomes today's previous, today starts at zero
+export const carryForwardRows = (rows: ResourceRow[] = []): ResourceRow[] =>
+  rows.map((r) => ({
+    ...r,
+    prev: r.accumulated,
+    today: 0,
+    accumulated: r.accumulated,
+  }));
+
+export const copyReportParts = (
+  source: Partial<ReportData>,
+  parts: CopyPart[]
+): Partial<ReportData> => {
+  const copied: Partial<ReportData> = {};
+
+  if (parts.includes("projectInfo")) {
+    copied.weatherAM = source.weatherAM || "";
+    copied.weatherPM = source.weatherPM || "";
+    copied.tempAM = source.tempAM || "";
+    copied.tempPM = source.tempPM || "";
+    copied.currentPeriod = source.currentPeriod || "AM";
+  }
+
+  if (parts.includes("activities")) {
+    // Yesterday's plan for today is today's starting point
+    copied.activityToday = source.workPlanNextDay?.trim()
+      ? source.workPlanNextDay
+      : source.activityToday || "";
+    copied.activityMode = source.activityMode ?? "text";
+    const items = source.planItems?.length ? source.planItems : source.activityItems;
+    copied.activityItems = (items ?? []).map((item) => ({ ...item, id: crypto.randomUUID() }));
+  }
+
+  if (parts.includes("resources")) {
+    for (const key of RESOURCE_TABLE_KEYS) {
+      copied[key] = carryForwardRows(source[key]).map((r) => ({
+        ...r,
+        id: crypto.randomUUID(),
+      }));
+    }
+  }
+
+  if (parts.includes("referenceTitles")) {
+    copied.referenceSections = (source.referenceSections ?? [])
+      .filter((section) => section.title?.trim())
+      .map((section) => ({
+        id: crypto.randomUUID(),
+        title: section.title,
+        layout: section.layout,
+        entries: [
+          {
+            id: crypto.randomUUID(),
+            slots: Array.from({ length: layoutOf(section).slots }, emptySlot),
+          },
+        ],
+      }));
+  }
+
+  return copied;
+};
+
+const toDay = (dateStr: string) => new Date(`${dateStr}T00:00:00`);
+
+// Latest submitted (or approved) report of the project before `before` (YYYY-MM-DD)
+export const loadLastSubmittedReport = async (
+  before: string,
+  projectId?: string,
+  projectName?: string
+): Promise<ReportData | null> => {
+  const inProject = (r: { projectId?: string; projectName?: string }) =>
+    projectId
+      ? r.projectId === projectId || (!r.projectId && r.projectName === projectName)
+      : !r.projectId;
+
+  const [latest] = (await listReportsFromDB())
+    .filter((r) => r.reportDate < before && inProject(r) && isLockedStatus(r.status))
+    .sort((a, b) => b.reportDate.localeCompare(a.reportDate));
+  if (!latest) return null;
+  return loadReportFromDB(toDay(latest.reportDate), projectId);
+};
+
+// The server copy of a day, or the local draft when there is none
+export const loadReportForDate = async (
+  date: Date,
+  projectId?: string
+): Promise<ReportData | null> => {
+  try {
+    const report = await loadReportFromDB(date, projectId);
+    if (report) return report;
+  } catch (e) {
+    console.error("Failed to load report to copy from:", e);
+  }
+  return loadDraftLocally(date, projectId);
+};
+
+export const getTemplates = (): ReportTemplate[] => {
+  try {
+    return JSON.parse(localStorage.getItem(TEMPLATES_KEY) || "[]");
+  } catch {
+    return [];
+  }
+};
+
+const setTemplates = (templates: ReportTemplate[]) =>
+  localStorage.setItem(TEMPLATES_KEY, JSON.stringify(templates));
+
+// Saving under an existing name replaces that template. Templates keep the
+// resource rows' names and units, not one day's quantities.
+export const saveTemplate = (name: string, report: ReportData): ReportTemplate[] => {
+  const data = copyReportParts(report, COPY_PARTS);
+  for (const key of RESOURCE_TABLE_KEYS) {
+    data[key] = (data[key] ?? []).map((r) => ({ ...r, prev: 0, today: 0, accumulated: 0 }));
+  }
+
+  const template: ReportTemplate = {
+    id: crypto.randomUUID(),
+    name: name.trim(),
+    projectId: report.projectId,
+    projectName: report.projectName,
+    createdAt: new Date().toISOString(),
+    data,
+  };
+  const templates = [
+    ...getTemplates().filter((t) => t.name.toLowerCase() !== template.name.toLowerCase()),
+    template,
+  ].sort((a, b) => a.name.localeCompare(b.name));
+  setTemplates(templates);
+  return templates;
+};
+
+export const deleteTemplate = (id: string): ReportTemplate[] => {
+  const templates = getTemplates().filter((t) => t.id !== id);
+  setTemplates(templates);
+  return templates;
+};
@@ -0,0 +1,36 @@
+// src/lib/resourceCatalog.ts
+import { CatalogItem, ResourceCatalog } from "@/types/catalog";
+import { Project } from "@/types/project";
+
+const item = (description: string, category: string): CatalogItem => ({
+  id: `default-${description.toLowerCase().replace(/\s+/g, "-")}`,
+  description,
+  category,
+});
+
+// Used until a project defines its own catalog
+export const DEFAULT_CATALOG: ResourceCatalog = {
+  managementTeam: [
+    "Project Manager",
+    "Construction Manager",
+    "QS Engineer",
+    "Architect Engineer",
+    "MEP Engineer",
+    "Site Engineer",
+  ].map((d) => item(d, "Management")),
+  workingTeam: ["Foreman", "Skill Workers", "General Workers"].map((d) =>
+    item(d, "Labour")
+  ),
+  materials: [],
+  machinery: [],
+};
+
+export const getProjectCatalog = (project?: Project | null): ResourceCatalog => ({
+  ...DEFAULT_CATALOG,
+  ...project?.catalog,
+});
+
+export const findCatalogItem = (items: CatalogItem[], description: string) => {
+  const needle = description.trim().toLowerCase();
+  return items.find((i) => i.description.toLowerCase() === needle);
+};
@@ -0,0 +1,171 @@
+// src/lib/resourceValidation.ts
+// Per-column checks for the resource tables and unit conversion for quantities
+import { ResourceRow } from "@/components/ResourceTable";
+import { RESOURCE_TABLE_KEYS } from "./reportDiff";
+import { REVIEW_TARGET_LABELS } from "./reviewWorkflow";
+import { ReportData, ResourceTableKey } from "@/types/report";
+
+// Manpower is counted in whole people; materials and machinery take decimals
+export const COUNT_TABLES: ResourceTableKey[] = ["managementTeam", "workingTeam"];
+
+export const isCountTable = (table: ResourceTableKey) => COUNT_TABLES.includes(table);
+
+// Quantities are kept to three decimals, so 0.1 + 0.2 stays 0.3
+export const roundQuantity = (value: number) => Math.round(value * 1000) / 1000;
+
+// Number inputs report "" while empty or half-typed; that is stored as 0, never NaN
+export const parseQuantity = (value: string | number) => {
+  const n = typeof value === "number" ? value : Number(String(value).replace(",", "."));
+  return Number.isFinite(n) ? n : 0;
+};
+
+export type RowField = "description" | "unit" | "prev" | "today";
+
+export type RowErrors = Partial<Record<RowField, string>>;
+
+// Values arrive through parseQuantity, so they are always finite numbers
+const checkNumber = (value: number, wholeNumber: boolean) => {
+  if (value < 0) return "Cannot be negative";
+  if (wholeNumber && !Number.isInteger(value)) return "Whole number";
+  if (!wholeNumber && roundQuantity(value) !== value) return "Max. 3 decimals";
+  return undefined;
+};
+
+export const validateResourceRow = (table: ResourceTableKey, row: ResourceRow): RowErrors => {
+  const errors: RowErrors = {};
+  const wholeNumber = isCountTable(table);
+  const prev = checkNumber(row.prev ?? 0, wholeNumber);
+  const today = checkNumber(row.today ?? 0, wholeNumber);
+  if (prev) errors.prev = prev;
+  if (today) errors.today = today;
+  if (!row.description?.trim() && (row.today || row.prev)) {
+    errors.description = "Description required";
+  }
+  if (!isCountTable(table) && row.today > 0 && !row.unit?.trim()) {
+    errors.unit = "Unit required";
+  }
+  return errors;
+};
+
+export interface ResourceIssue {
+  table: ResourceTableKey;
+  tableLabel: string;
+  rowId: string;
+  rowNumber: number; // 1-based, as shown to the user
+  field: RowField;
+  message: string;
+}
+
+const FIELD_LABELS: Record<RowField, string> = {
+  description: "Description",
+  unit: "Unit",
+  prev: "Prev",
+  today: "Today",
+};
+
+export const resourceIssues = (data: Pick<ReportData, ResourceTableKey>): ResourceIssue[] =>
+  RESOURCE_TABLE_KEYS.flatMap((table) =>
+    (data[table] ?? []).flatMap((row, i) =>
+      (Object.entries(validateResourceRow(table, row)) as [RowField, string][]).map(
+        ([field, message]) => ({
+          table,
+          tableLabel: REVIEW_TARGET_LABELS[table],
+          rowId: row.id,
+          rowNumber: i + 1,
+          field,
+          message,
+        })
+      )
+    )
+  );
+
+export const describeIssue = (issue: ResourceIssue) =>
+  `${issue.tableLabel}, row ${issue.rowNumber}: ${FIELD_LABELS[issue.field]} — ${issue.message.toLowerCase()}`;
+
+// DOM id of a table row, so validation can scroll to it
+export const resourceRowId = (table: ResourceTableKey, rowId: string) => `${table}-row-${rowId}`;
+
+// Factor to the base unit of each dimension; aliases map to one canonical spelling
+const UNITS: Record<string, { dimension: string; factor: number }> = {
+  g: { dimension: "mass", factor: 0.001 },
+  kg: { dimension: "mass", factor: 1 },
+  t: { dimension: "mass", factor: 1000 },
+  mm: { dimension: "length", factor: 0.001 },
+  cm: { dimension: "length", factor: 0.01 },
+  m: { dimension: "length", factor: 1 },
+  km: { dimension: "length", factor: 1000 },
+  "m²": { dimension: "area", factor: 1 },
+  "cm³": { dimension: "volume", factor: 0.000001 },
+  L: { dimension: "volume", factor: 0.001 },
+  "m³": { dimension: "volume", factor: 1 },
+};
+
+const UNIT_ALIASES: Record<string, string> = {
+  gram: "g",
+  grams: "g",
+  kgs: "kg",
+  kilogram: "kg",
+  kilograms: "kg",
+  ton: "t",
+  tons: "t",
+  tonne: "t",
+  tonnes: "t",
+  mt: "t",
+  meter: "m",
+  meters: "m",
+  metre: "m",
+  metres: "m",
+  lm: "m",
+  m2: "m²",
+  sqm: "m²",
+  "sq.m": "m²",
+  cm3: "cm³",
+  cc: "cm³",
+  l: "L",
+  ltr: "L",
+  liter: "L",
+  liters: "L",
+  litre: "L",
+  litres: "L",
+  m3: "m³",
+  cum: "m³",
+  "cu.m": "m³",
+};
+
+// Canonical spelling of a known unit, or null for units like "bags" or "trips"
+export const normalizeUnit = (unit = "") => {
+  const key = unit.trim();
+  if (UNITS[key]) return key;
+  const alias = UNIT_ALIASES[key.toLowerCase()] ?? (UNITS[key.toLowerCase()] ? key.toLowerCase() : null);
+  return alias;
+};
+
+// Other units the quantity can be expressed in
+export const compatibleUnits = (unit = "") => {
+  const from = normalizeUnit(unit);
+  if (!from) return [];
+  return Object.keys(UNITS).filter(
+    (u) => u !== from && UNITS[u].dimension === UNITS[from].dimension
+  );
+};
+
+// Null when the units don't match, or when the result would need more than
+// three decimals (400 g is 0.0004 t) and rounding it would lose the quantity
+export const convertQuantity = (value: number, from: string, to: string) => {
+  const a = normalizeUnit(from);
+  const b = normalizeUnit(to);
+  if (!a || !b || UNITS[a].dimension !== UNITS[b].dimension) return null;
+  const exact = (value * UNITS[a].factor) / UNITS[b].factor;
+  const rounded = roundQuantity(exact);
+  // Allow for float noise like 1.1 kg -> 1100.0000000000002 g
+  return Math.abs(rounded - exact) > 1e-9 * Math.max(1, Math.abs(exact)) ? null : rounded;
+};
+
+// The whole row in another unit; prev and accumulated stay in step with today.
+// Null when any quantity can't be expressed in that unit, see convertQuantity.
+export const convertRow = (row: ResourceRow, to: string): ResourceRow | null => {
+  const prev = convertQuantity(row.prev, row.unit || "", to);
+  const today = convertQuantity(row.today, row.unit || "", to);
+  if (prev === null || today === null) return null;
+  return { ...row, unit: to, prev, today, accumulated: roundQuantity(prev + today) };
+};
@@ -0,0 +1,39 @@
+// src/lib/reviewWorkflow.ts
+import {
+  ReportStatus,
+  ReviewAction,
+  ReviewComment,
+  ReviewTarget,
+} from "@/types/report";
+import { UserRole } from "@/types/user";
+
+export const REVIEW_TARGET_LABELS: Record<ReviewTarget, string> = {
+  general: "General",
+  activities: "Activities",
+  managementTeam: "Site Management Team",
+  workingTeam: "Site Working Team",
+  materials: "Materials Deliveries",
+  machinery: "Machinery & Equipment",
+  reference: "Reference",
+};
+
+// The status each role picks reports up in, and how it passes them on.
+// Either role can also reject, which returns the report to its author.
+export const REVIEW_STEPS: Partial<
+  Record<UserRole, { status: ReportStatus; action: ReviewAction; label: string }>
+> = {
+  reviewer: { status: "submitted", action: "review", label: "Mark Reviewed" },
+  approver: { status: "reviewed", action: "approve", label: "Approve" },
+};
+
+export const canReview = (role: UserRole | undefined, status?: ReportStatus) =>
+  !!role && !!status && REVIEW_STEPS[role]?.status === status;
+
+export const commentsFor = (
+  comments: ReviewComment[] | undefined,
+  target: ReviewTarget
+) => (comments ?? []).filter((c) => c.target === target);
+
+// Reports in these states were handed in and can only change through an amendment
+export const isLockedStatus = (status?: ReportStatus) =>
+  status === "submitted" || status === "reviewed" || status === "approved";
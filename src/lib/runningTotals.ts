@@ -0,0 +1,166 @@
+// src/lib/runningTotals.ts
+// Re-runs the prev/accumulated chain over the reports after an edited day
+import { ResourceRow } from "@/components/ResourceTable";
+import { listReportsFromDB, loadReportFromDB } from "@/integrations/reportsApi";
+import { sendOrQueue } from "@/integrations/syncQueue";
+import { RESOURCE_TABLE_KEYS } from "./reportDiff";
+import { roundQuantity } from "./resourceValidation";
+import { isLockedStatus } from "./reviewWorkflow";
+import { listLocalDrafts, saveDraftLocally } from "./storageUtils";
+import { ReportData, ResourceTableKey } from "@/types/report";
+
+export interface ChainReport {
+  date: string; // YYYY-MM-DD
+  report: ReportData & { updatedAt?: string };
+  // Server reports win over local drafts for the same day
+  source: "server" | "local";
+  locked: boolean;
+}
+
+export interface TotalChange {
+  table: ResourceTableKey;
+  description: string;
+  unit?: string;
+  before: { prev: number; accumulated: number };
+  after: { prev: number; accumulated: number };
+}
+
+export interface ReportRecalc extends ChainReport {
+  changes: TotalChange[];
+}
+
+// Rows are chained by description, the same way the carry-forward copies them
+const chainKey = (row: ResourceRow) => row.description?.trim().toLowerCase();
+
+const toDay = (dateStr: string) => new Date(`${dateStr}T00:00:00`);
+
+export const loadLaterReports = async (
+  after: string,
+  projectId?: string,
+  projectName?: string
+): Promise<ChainReport[]> => {
+  const inProject = (r: { projectId?: string; projectName?: string }) =>
+    projectId
+      ? r.projectId === projectId || (!r.projectId && r.projectName === projectName)
+      : !r.projectId;
+
+  const summaries = (await listReportsFromDB()).filter(
+    (r) => r.reportDate > after && inProject(r)
+  );
+
+  const chain: ChainReport[] = [];
+  for (const summary of summaries) {
+    const report = await loadReportFromDB(toDay(summary.reportDate), projectId);
+    if (!report) continue;
+    chain.push({
+      date: summary.reportDate,
+      report,
+      source: "server",
+      locked: isLockedStatus(report.status ?? summary.status),
+    });
+  }
+
+  const serverDates = new Set(chain.map((c) => c.date));
+  listLocalDrafts()
+    .filter(
+      (d) =>
+        d.date > after &&
+        !serverDates.has(d.date) &&
+        (d.projectId ?? undefined) === projectId
+    )
+    .forEach((d) =>
+      chain.push({ date: d.date, report: d.data, source: "local", locked: false })
+    );
+
+  return chain.sort((a, b) => a.date.localeCompare(b.date));
+};
+
+// Seeds the chain from the edited report and walks forward day by day.
+// Rows whose description has not been seen earlier in the range keep their own prev.
+// A locked report is not rewritten, so the days after it continue from the
+// totals it was submitted with; its changes only show what an amendment would fix.
+export const recomputeRunningTotals = (
+  start: ReportData,
+  later: ChainReport[]
+): ReportRecalc[] => {
+  const running = Object.fromEntries(
+    RESOURCE_TABLE_KEYS.map((table) => [table, new Map<string, number>()])
+  ) as Record<ResourceTableKey, Map<string, number>>;
+
+  RESOURCE_TABLE_KEYS.forEach((table) =>
+    (start[table] ?? []).forEach((row) => {
+      const key = chainKey(row);
+      if (key) running[table].set(key, roundQuantity((row.prev || 0) + (row.today || 0)));
+    })
+  );
+
+  return later
+    .map((entry) => {
+      const changes: TotalChange[] = [];
+      const report = { ...entry.report };
+
+      RESOURCE_TABLE_KEYS.forEach((table) => {
+        report[table] = (entry.report[table] ?? []).map((row) => {
+          const key = chainKey(row);
+          if (!key) return row;
+
+          const prev = running[table].get(key) ?? (row.prev || 0);
+          const accumulated = roundQuantity(prev + (row.today || 0));
+          running[table].set(
+            key,
+            entry.locked
+              ? row.accumulated ?? roundQuantity((row.prev || 0) + (row.today || 0))
+              : accumulated
+          );
+
+          if (prev === (row.prev || 0) && accumulated === (row.accumulated || 0)) {
+            return row;
+          }
+          changes.push({
+            table,
+            description: row.description,
+            unit: row.unit,
+            before: { prev: row.prev || 0, accumulated: row.accumulated || 0 },
+            after: { prev, accumulated },
+          });
+          return { ...row, prev, accumulated };
+        });
+      });
+
+      return { ...entry, report, changes };
+    })
+    .filter((recalc) => recalc.changes.length > 0);
+};
+
+// Writes the corrected reports back. Locked reports are left alone; they can
+// only change through an amendment.
+export const applyRunningTotals = async (
+  recalcs: ReportRecalc[],
+  projectId?: string
+) => {
+  let saved = 0;
+  let queued = 0;
+  const skipped: string[] = [];
+
+  for (const recalc of recalcs) {
+    if (recalc.locked) {
+      skipped.push(recalc.date);
+      continue;
+    }
+    if (recalc.source === "local") {
+      saveDraftLocally(toDay(recalc.date), recalc.report, projectId);
+      saved++;
+      continue;
+    }
+
+    const { updatedAt, ...report } = recalc.report;
+    const result = await sendOrQueue({
+      type: "save",
+      report: { ...report, baseUpdatedAt: updatedAt },
+    });
+    if (result.queued) queued++;
+    else saved++;
+  }
+
+  return { saved, queued, skipped };
+};
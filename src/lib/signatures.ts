@@ -0,0 +1,25 @@
+// src/lib/signatures.ts
+// Sign-off rules for daily reports
+import { format } from "date-fns";
+import { ReportSignature, SignatureRole } from "@/types/report";
+
+export const SIGNATURE_ROLES: SignatureRole[] = ["siteEngineer", "clientSupervisor"];
+
+export const SIGNATURE_ROLE_LABELS: Record<SignatureRole, string> = {
+  siteEngineer: "Site Engineer",
+  clientSupervisor: "Client Supervisor",
+};
+
+// Signed by the site engineer and countersigned by the client's supervisor
+export const REQUIRED_SIGNATURES: SignatureRole[] = ["siteEngineer", "clientSupervisor"];
+
+export const signatureFor = (
+  signatures: ReportSignature[] | undefined,
+  role: SignatureRole
+) => signatures?.find((s) => s.role === role && s.image);
+
+export const missingSignatures = (signatures?: ReportSignature[]) =>
+  REQUIRED_SIGNATURES.filter((role) => !signatureFor(signatures, role));
+
+export const formatSignedAt = (signedAt: string) =>
+  format(new Date(signedAt), "PP p");
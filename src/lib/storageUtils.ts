@@ -1,28 +1,132 @@
 // src/lib/storageUtils.ts
 import { ReportData } from "@/types/report";
+import { toStoredSections } from "./referencePhotos";
 
 // We export this in case other files need to know the prefix
 export const STORAGE_PREFIX = "daily-report:";
 
-export const dateKey = (date: Date | undefined): string => {
-  if (!date) return STORAGE_PREFIX + "unknown";
-  return STORAGE_PREFIX + date.toISOString().slice(0, 10);
+// Build YYYY-MM-DD from the local calendar day so keys don't shift with the timezone offset
+export const localDateString = (date: Date): string => {
+  const year = date.getFullYear();
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  const day = String(date.getDate()).padStart(2, "0");
+  return `${year}-${month}-${day}`;
 };
 
-export function saveDraftLocally(date: Date | undefined, data: ReportData): void {
+// Reports are saved with the ISO string of local midnight, which puts a UTC+
+// site's date on the previous day in UTC; read it back in the local zone
+export const toReportDay = (value: unknown): string => {
+  const text = String(value || "");
+  if (/^\d{4}-\d{2}-\d{2}$/.test(text)) return text;
+  const date = new Date(text);
+  return isNaN(date.getTime()) ? text.slice(0, 10) : localDateString(date);
+};
+
+// Drafts are scoped to (project, date): daily-report:<projectId>:<YYYY-MM-DD>
+export const dateKey = (date: Date | undefined, projectId?: string): string => {
+  const scope = projectId ? `${projectId}:` : "";
+  if (!date) return STORAGE_PREFIX + scope + "unknown";
+  return STORAGE_PREFIX + scope + localDateString(date);
+};
+
+// Older drafts were keyed by the UTC date only, keep reading them
+const legacyDateKeys = (date: Date): string[] => [
+  STORAGE_PREFIX + localDateString(date),
+  STORAGE_PREFIX + date.toISOString().slice(0, 10),
+];
+
+export function saveDraftLocally(
+  date: Date | undefined,
+  data: ReportData,
+  projectId?: string
+): void {
   try {
-    localStorage.setItem(dateKey(date), JSON.stringify(data));
+    localStorage.setItem(
+      dateKey(date, projectId),
+      JSON.stringify({
+        ...data,
+        // Photos themselves are kept in IndexedDB, see referencePhotos.ts
+        referenceSections: toStoredSections(data.referenceSections),
+        updatedAt: new Date().toISOString(),
+      })
+    );
   } catch (e) {
     console.error("Failed to save to localStorage:", e);
   }
 }
 
-export function loadDraftLocally(date: Date | undefined): any | null {
+export function loadDraftLocally(
+  date: Date | undefined,
+  projectId?: string,
+  projectName?: string
+): ReportData | null {
   try {
-    const raw = localStorage.getItem(dateKey(date));
-    return raw ? JSON.parse(raw) : null;
+    const raw = localStorage.getItem(dateKey(date, projectId));
+    if (raw) return JSON.parse(raw) as ReportData;
+    if (!date) return null;
+
+    // Unscoped drafts predate projects. A project only gets one that names it,
+    // and takes it over, so it is never loaded into a second project.
+    for (const key of legacyDateKeys(date)) {
+      const legacyRaw = localStorage.getItem(key);
+      if (!legacyRaw) continue;
+      const legacy = JSON.parse(legacyRaw) as ReportData;
+      if (!projectId) return legacy;
+
+      const matches = legacy.projectId
+        ? legacy.projectId === projectId
+        : !!projectName && legacy.projectName?.trim() === projectName.trim();
+      if (matches) {
+        localStorage.setItem(dateKey(date, projectId), legacyRaw);
+        localStorage.removeItem(key);
+        return legacy;
+      }
+    }
+    return null;
   } catch (e) {
     console.error("Failed to load from localStorage:", e);
     return null;
   }
-}
\ No newline at end of file
+}
+
+export function removeDraftLocally(
+  date: Date | undefined,
+  projectId?: string
+): void {
+  localStorage.removeItem(dateKey(date, projectId));
+  if (date) legacyDateKeys(date).forEach((key) => localStorage.removeItem(key));
+}
+
+export interface LocalDraft {
+  date: string; // YYYY-MM-DD
+  projectId?: string;
+  data: ReportData;
+}
+
+// Every draft currently held in localStorage, newest first
+export function listLocalDrafts(): LocalDraft[] {
+  const drafts: LocalDraft[] = [];
+  for (let i = 0; i < localStorage.length; i++) {
+    const key = localStorage.key(i);
+    if (!key || !key.startsWith(STORAGE_PREFIX)) continue;
+
+    const match = key
+      .slice(STORAGE_PREFIX.length)
+      .match(/^(?:(.+):)?(\d{4}-\d{2}-\d{2})$/);
+    if (!match) continue;
+
+    try {
+      const raw = localStorage.getItem(key);
+      if (raw) {
+        drafts.push({
+          date: match[2],
+          projectId: match[1],
+          data: JSON.parse(raw) as ReportData,
+        });
+      }
+    } catch (e) {
+      console.error("Skipping unreadable draft:", key, e);
+    }
+  }
+  return drafts.sort((a, b) => b.date.localeCompare(a.date));
+}
@@ -0,0 +1,143 @@
+// src/lib/weatherLog.ts
+// Hourly weather observations and weather delays, and the totals built from them
+import { DatedReport } from "./dashboardStats";
+import { WeatherDelay, WeatherObservation } from "@/types/report";
+
+export const WEATHER_CONDITIONS = [
+  "Sunny",
+  "Cloudy",
+  "Overcast",
+  "Light rain",
+  "Heavy rain",
+  "Thunderstorm",
+  "Fog",
+];
+
+export const WIND_LEVELS = ["Calm", "Light", "Moderate", "Strong"];
+
+export const DELAY_CAUSES = [
+  "Rain",
+  "Thunderstorm / lightning",
+  "Strong wind",
+  "Extreme heat",
+  "Flooding / waterlogging",
+  "Other",
+];
+
+// Lost hours are converted to days at a standard working day
+export const WORKING_HOURS_PER_DAY = 8;
+
+export const newObservation = (time = ""): WeatherObservation => ({
+  id: crypto.randomUUID(),
+  time,
+  condition: "",
+  temperature: null,
+  rainfall: null,
+  wind: "",
+});
+
+export const newDelay = (): WeatherDelay => ({
+  id: crypto.randomUUID(),
+  hours: 0,
+  cause: DELAY_CAUSES[0],
+  from: "",
+  to: "",
+});
+
+// Hours between two HH:mm times on the same day, rounded to a quarter hour
+export const hoursBetween = (from?: string, to?: string) => {
+  if (!from || !to) return 0;
+  const minutes = (t: string) => {
+    const [h, m] = t.split(":").map(Number);
+    return h * 60 + (m || 0);
+  };
+  const diff = minutes(to) - minutes(from);
+  return diff > 0 ? Math.round(diff / 15) / 4 : 0;
+};
+
+export const sortedObservations = (log: WeatherObservation[] = []) =>
+  [...log].filter((o) => o.time || o.condition).sort((a, b) => a.time.localeCompare(b.time));
+
+export const totalRainfall = (log: WeatherObservation[] = []) =>
+  log.reduce((sum, o) => sum + (o.rainfall || 0), 0);
+
+export const lostHours = (delays: WeatherDelay[] = []) =>
+  delays.reduce((sum, d) => sum + (d.hours || 0), 0);
+
+export const formatHours = (hours: number) => `${Number(hours.toFixed(2))} h`;
+
+// "07:00 Light rain 26°C 2 mm wind moderate"
+export const observationLabel = (o: WeatherObservation) =>
+  [
+    o.time,
+    o.condition,
+    o.temperature != null ? `${o.temperature}°C` : "",
+    o.rainfall ? `${o.rainfall} mm` : "",
+    o.wind ? `wind ${o.wind.toLowerCase()}` : "",
+  ]
+    .filter(Boolean)
+    .join(" ");
+
+export const delayLabel = (d: WeatherDelay) =>
+  `${formatHours(d.hours || 0)} ${d.cause}${d.from && d.to ? ` (${d.from}–${d.to})` : ""}`;
+
+// Compact one-line summary for the exports; empty when nothing was logged
+export const weatherStripLines = (
+  log: WeatherObservation[] = [],
+  delays: WeatherDelay[] = []
+) => {
+  const lines: string[] = [];
+  const observations = sortedObservations(log);
+  if (observations.length > 0) {
+    const rain = totalRainfall(observations);
+    lines.push(
+      `Weather log  : ${observations.map(observationLabel).join("  ·  ")}${
+        rain ? `  |  Rainfall ${rain} mm` : ""
+      }`
+    );
+  }
+  const logged = delays.filter((d) => d.hours > 0);
+  if (logged.length > 0) {
+    lines.push(
+      `Weather delay : ${formatHours(lostHours(logged))} lost — ${logged.map(delayLabel).join(", ")}`
+    );
+  }
+  return lines;
+};
+
+export interface ExtensionOfTimeRow {
+  date: string; // YYYY-MM-DD
+  cause: string;
+  hours: number;
+  rainfall: number;
+  // Running total of lost hours up to and including this day
+  cumulativeHours: number;
+}
+
+// Day-by-day weather delays of a project, oldest first
+export const extensionOfTimeRecord = (reports: DatedReport[]) => {
+  let cumulativeHours = 0;
+  const rows: ExtensionOfTimeRow[] = [];
+  const byCause = new Map<string, number>();
+
+  reports.forEach(({ date, report }) => {
+    const delays = (report.weatherDelays ?? []).filter((d) => d.hours > 0);
+    if (delays.length === 0) return;
+    const rainfall = totalRainfall(report.weatherLog);
+    delays.forEach((d, i) => {
+      cumulativeHours += d.hours;
+      byCause.set(d.cause, (byCause.get(d.cause) ?? 0) + d.hours);
+      // Rainfall belongs to the day, so it is shown once
+      rows.push({ date, cause: d.cause, hours: d.hours, rainfall: i === 0 ? rainfall : 0, cumulativeHours });
+    });
+  });
+
+  return {
+    rows,
+    totalHours: cumulativeHours,
+    totalDays: cumulativeHours / WORKING_HOURS_PER_DAY,
+    byCause: Array.from(byCause, ([cause, hours]) => ({ cause, hours })).sort(
+      (a, b) => b.hours - a.hours
+    ),
+  };
+};
@@ -0,0 +1,188 @@
+// src/lib/weatherSources.ts
+// Fills the AM/PM weather and temperature from a station logger file or a weather service
+import { localDateString } from "./storageUtils";
+import { fetchWeatherReadings } from "@/integrations/weatherApi";
+import { WEATHER_API_BASE_URL } from "@/config/api";
+import {
+  DailyWeather,
+  StationReading,
+  WeatherQuery,
+  WeatherSource,
+} from "@/types/weather";
+
+export const WEATHER_PROVIDER_URL_KEY = "daily-report-weather-provider-url";
+
+// A saved URL wins over the build-time default, so a local mock can be pointed at
+export const getWeatherProviderUrl = (): string =>
+  localStorage.getItem(WEATHER_PROVIDER_URL_KEY) || WEATHER_API_BASE_URL;
+
+export const setWeatherProviderUrl = (url: string): void => {
+  if (url.trim()) localStorage.setItem(WEATHER_PROVIDER_URL_KEY, url.trim());
+  else localStorage.removeItem(WEATHER_PROVIDER_URL_KEY);
+};
+
+// Column names accepted from logger exports, compared lower-cased
+const TIME_FIELDS = ["timestamp", "datetime", "date_time", "time", "observed_at"];
+const DATE_FIELDS = ["date", "day"];
+const TEMPERATURE_FIELDS = ["temperature", "temp", "temp_c", "air_temp", "temperature_c"];
+const CONDITION_FIELDS = ["condition", "weather", "conditions", "summary"];
+const RAINFALL_FIELDS = ["rainfall", "rain", "rain_mm", "precipitation", "precip_mm"];
+
+const pick = (record: Record<string, unknown>, fields: string[]) => {
+  const key = Object.keys(record).find((k) => fields.includes(k.trim().toLowerCase()));
+  return key === undefined ? undefined : record[key];
+};
+
+const toNumber = (value: unknown) => {
+  if (value === undefined || value === null || value === "") return null;
+  const n = Number(String(value).replace(",", "."));
+  return Number.isFinite(n) ? n : null;
+};
+
+// Logger times carry no zone unless stated; "07:00" alone belongs to `fallbackDate`
+const parseReadingTime = (value: unknown, date: unknown, fallbackDate: string) => {
+  const text = String(value ?? "").trim();
+  if (!text) return null;
+  if (/[zZ]$|[+-]\d{2}:?\d{2}$/.test(text) && text.includes("T")) {
+    const zoned = new Date(text);
+    return isNaN(zoned.getTime()) ? null : zoned;
+  }
+  const match = text.match(/^(?:(\d{4})-(\d{2})-(\d{2})[T ])?(\d{1,2}):(\d{2})/);
+  if (!match) return null;
+  const [y, m, d] = match[1]
+    ? [match[1], match[2], match[3]]
+    : String(date ?? fallbackDate).split("-");
+  const parsed = new Date(Number(y), Number(m) - 1, Number(d), Number(match[4]), Number(match[5]));
+  return isNaN(parsed.getTime()) ? null : parsed;
+};
+
+// Records from a JSON file, a CSV file or a provider response, as readings
+export const toStationReadings = (
+  records: Record<string, unknown>[],
+  fallbackDate: string
+): StationReading[] =>
+  records
+    .map((record): StationReading | null => {
+      const time = parseReadingTime(pick(record, TIME_FIELDS), pick(record, DATE_FIELDS), fallbackDate);
+      if (!time) return null;
+      const condition = pick(record, CONDITION_FIELDS);
+      return {
+        time,
+        temperature: toNumber(pick(record, TEMPERATURE_FIELDS)),
+        condition: condition ? String(condition) : undefined,
+        rainfall: toNumber(pick(record, RAINFALL_FIELDS)),
+      };
+    })
+    .filter((r): r is StationReading => r !== null);
+
+const splitCsvLine = (line: string, delimiter: string) => {
+  const cells: string[] = [];
+  let cell = "";
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (char === '"') {
+      if (quoted && line[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else {
+        quoted = !quoted;
+      }
+    } else if (char === delimiter && !quoted) {
+      cells.push(cell);
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+  cells.push(cell);
+  return cells.map((c) => c.trim());
+};
+
+const parseCsv = (text: string) => {
+  const lines = text.split(/\r?\n/).filter((line) => line.trim());
+  if (lines.length < 2) return [];
+  // European loggers write semicolon-separated files
+  const delimiter = lines[0].includes(";") && !lines[0].includes(",") ? ";" : ",";
+  const headers = splitCsvLine(lines[0], delimiter);
+  return lines.slice(1).map((line) => {
+    const cells = splitCsvLine(line, delimiter);
+    return Object.fromEntries(headers.map((h, i) => [h, cells[i] ?? ""]));
+  });
+};
+
+// Accepts an array of readings or an object holding one under "observations"/"readings"
+const parseJson = (text: string): Record<string, unknown>[] => {
+  const data = JSON.parse(text);
+  const list = Array.isArray(data) ? data : data?.observations ?? data?.readings;
+  if (!Array.isArray(list)) {
+    throw new Error("The JSON file has no list of readings.");
+  }
+  return list;
+};
+
+export const parseStationFile = async (file: File, fallbackDate: string) => {
+  const text = await file.text();
+  const isJson = file.name.toLowerCase().endsWith(".json") || /^\s*[[{]/.test(text);
+  return toStationReadings(isJson ? parseJson(text) : parseCsv(text), fallbackDate);
+};
+
+// The form only offers these three conditions
+const toFormCondition = (reading: StationReading) => {
+  const condition = (reading.condition || "").toLowerCase();
+  if ((reading.rainfall ?? 0) > 0 || /rain|shower|drizzle|storm|thunder/.test(condition)) return "Rainy";
+  if (/cloud|overcast|fog|mist|haze/.test(condition)) return "Cloudy";
+  if (/sun|clear|fair|hot/.test(condition)) return "Sunny";
+  return "";
+};
+
+// Any rain wins the half day; otherwise the most frequent condition
+const summarizePeriod = (readings: StationReading[]) => {
+  const conditions = readings.map(toFormCondition).filter(Boolean);
+  let weather = "";
+  if (conditions.includes("Rainy")) {
+    weather = "Rainy";
+  } else if (conditions.length > 0) {
+    const counts = new Map<string, number>();
+    conditions.forEach((c) => counts.set(c, (counts.get(c) ?? 0) + 1));
+    weather = [...counts].sort((a, b) => b[1] - a[1])[0][0];
+  }
+  const temperatures = readings
+    .map((r) => r.temperature)
+    .filter((t): t is number => typeof t === "number");
+  const temp = temperatures.length
+    ? String(Math.round(temperatures.reduce((sum, t) => sum + t, 0) / temperatures.length))
+    : "";
+  return { weather, temp };
+};
+
+// Readings of `date` split at noon; null when the day has none
+export const summarizeReadings = (
+  readings: StationReading[],
+  date: string
+): DailyWeather | null => {
+  const day = readings.filter((r) => localDateString(r.time) === date);
+  if (day.length === 0) return null;
+  const am = summarizePeriod(day.filter((r) => r.time.getHours() < 12));
+  const pm = summarizePeriod(day.filter((r) => r.time.getHours() >= 12));
+  return { weatherAM: am.weather, weatherPM: pm.weather, tempAM: am.temp, tempPM: pm.temp };
+};
+
+export const createStationFileSource = (file: File): WeatherSource => ({
+  id: "station-file",
+  label: `Station logger file (${file.name})`,
+  fetchDay: async ({ date }: WeatherQuery) =>
+    summarizeReadings(await parseStationFile(file, date), date),
+});
+
+export const createHttpWeatherSource = (baseUrl = getWeatherProviderUrl()): WeatherSource => ({
+  id: "http-provider",
+  label: `Weather service (${baseUrl})`,
+  fetchDay: async ({ date, site }: WeatherQuery) => {
+    if (!baseUrl) {
+      throw new Error("No weather service URL is configured.");
+    }
+    const records = await fetchWeatherReadings(baseUrl, site, date);
+    return summarizeReadings(toStationReadings(records, date), date);
+  },
+});
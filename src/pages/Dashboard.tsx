@@ -0,0 +1,429 @@
+import { ReactNode, useEffect, useMemo, useState } from "react";
+import { Link, useSearchParams } from "react-router-dom";
+import { format, subDays } from "date-fns";
+import { DateRange } from "react-day-picker";
+import {
+  Bar,
+  BarChart,
+  CartesianGrid,
+  Line,
+  LineChart,
+  XAxis,
+  YAxis,
+} from "recharts";
+import {
+  BarChart3,
+  CalendarRange,
+  CloudSun,
+  FileText,
+  ListChecks,
+  Loader2,
+  Package,
+  Timer,
+  Truck,
+  Users,
+} from "lucide-react";
+
+import ReportHeader from "@/components/ReportHeader";
+import { Button } from "@/components/ui/button";
+import { Calendar } from "@/components/ui/calendar";
+import {
+  ChartConfig,
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+} from "@/components/ui/chart";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { useProjects } from "@/hooks/useProjects";
+import {
+  cumulativeMaterialsByUnit,
+  DatedReport,
+  headcountByRole,
+  loadSubmittedReports,
+  machineryDays,
+  SeriesChart,
+  weatherDistribution,
+} from "@/lib/dashboardStats";
+import { localDateString } from "@/lib/storageUtils";
+import { planReliability } from "@/lib/planTracking";
+import {
+  extensionOfTimeRecord,
+  formatHours,
+  WORKING_HOURS_PER_DAY,
+} from "@/lib/weatherLog";
+
+const shortDate = (dateStr: string) =>
+  format(new Date(`${dateStr}T00:00:00`), "MMM d");
+
+const seriesConfig = ({ series }: SeriesChart): ChartConfig =>
+  Object.fromEntries(
+    series.map((s) => [s.key, { label: s.label, color: s.color }])
+  );
+
+const MACHINERY_CONFIG: ChartConfig = {
+  days: { label: "Equipment-days", color: "hsl(var(--success))" },
+};
+
+const RELIABILITY_CONFIG: ChartConfig = {
+  reliability: { label: "Plan reliability %", color: "hsl(var(--primary))" },
+};
+
+const WEATHER_CONFIG: ChartConfig = {
+  am: { label: "AM", color: "hsl(var(--warning))" },
+  pm: { label: "PM", color: "hsl(var(--primary))" },
+};
+
+const ChartCard = ({
+  title,
+  icon,
+  isEmpty,
+  children,
+}: {
+  title: string;
+  icon: ReactNode;
+  isEmpty: boolean;
+  children: ReactNode;
+}) => (
+  <div className="section-card overflow-hidden animate-fade-in">
+    <div className="bg-table-header px-4 py-3 border-b border-table-border flex items-center gap-2">
+      {icon}
+      <h3 className="font-semibold text-foreground">{title}</h3>
+    </div>
+    <div className="p-4">
+      {isEmpty ? (
+        <p className="py-12 text-center text-sm text-muted-foreground">
+          No data in this range.
+        </p>
+      ) : (
+        children
+      )}
+    </div>
+  </div>
+);
+
+const Dashboard = () => {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const { toast } = useToast();
+  const { projects } = useProjects();
+  const projectId = searchParams.get("project") || projects[0]?.id;
+
+  const [range, setRange] = useState<DateRange | undefined>({
+    from: subDays(new Date(), 29),
+    to: new Date(),
+  });
+  const [reports, setReports] = useState<DatedReport[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const from = range?.from ? localDateString(range.from) : undefined;
+  const to = range?.to ? localDateString(range.to) : from;
+
+  useEffect(() => {
+    if (!projectId) return;
+
+    let cancelled = false;
+    setIsLoading(true);
+    loadSubmittedReports(projectId, from, to)
+      .then((loaded) => !cancelled && setReports(loaded))
+      .catch((e) => {
+        if (cancelled) return;
+        toast({
+          title: "Could not load reports",
+          description: e instanceof Error ? e.message : "Please try again later.",
+          variant: "destructive",
+        });
+      })
+      .finally(() => !cancelled && setIsLoading(false));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [projectId, from, to, toast]);
+
+  const headcount = useMemo(() => headcountByRole(reports), [reports]);
+  const machinery = useMemo(() => machineryDays(reports), [reports]);
+  const materials = useMemo(() => cumulativeMaterialsByUnit(reports), [reports]);
+  const weather = useMemo(() => weatherDistribution(reports), [reports]);
+  const extensionOfTime = useMemo(() => extensionOfTimeRecord(reports), [reports]);
+  const reliability = useMemo(() => planReliability(reports), [reports]);
+
+  const peakHeadcount = Math.max(
+    0,
+    ...headcount.data.map((point) =>
+      headcount.series.reduce((sum, s) => sum + Number(point[s.key] || 0), 0)
+    )
+  );
+  const totalEquipmentDays = machinery.reduce((sum, m) => sum + m.days, 0);
+
+  return (
+    <div className="min-h-screen bg-background">
+      <ReportHeader />
+
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 py-6 space-y-6">
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <h2 className="text-lg font-semibold text-foreground flex items-center gap-2">
+            <BarChart3 className="w-5 h-5 text-primary" />
+            Project Dashboard
+          </h2>
+          <div className="flex flex-wrap items-center gap-2">
+            <Select
+              value={projectId}
+              onValueChange={(id) => setSearchParams({ project: id })}
+            >
+              <SelectTrigger className="w-[240px]">
+                <SelectValue placeholder="Select project..." />
+              </SelectTrigger>
+              <SelectContent>
+                {projects.map((p) => (
+                  <SelectItem key={p.id} value={p.id}>
+                    {p.code ? `${p.code} — ${p.name}` : p.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Popover>
+              <PopoverTrigger asChild>
+                <Button variant="outline" className="min-w-[240px] justify-start">
+                  <CalendarRange className="w-4 h-4 mr-2" />
+                  {range?.from
+                    ? `${format(range.from, "PP")} – ${format(range.to ?? range.from, "PP")}`
+                    : "All dates"}
+                </Button>
+              </PopoverTrigger>
+              <PopoverContent className="w-auto p-0" align="end">
+                <Calendar
+                  mode="range"
+                  selected={range}
+                  onSelect={setRange}
+                  numberOfMonths={2}
+                  defaultMonth={range?.from}
+                />
+                <div className="flex justify-end border-t p-2">
+                  <Button variant="ghost" size="sm" onClick={() => setRange(undefined)}>
+                    All dates
+                  </Button>
+                </div>
+              </PopoverContent>
+            </Popover>
+            {projectId && (
+              <Button variant="outline" asChild>
+                <Link to={`/summary?project=${encodeURIComponent(projectId)}`}>
+                  <FileText className="w-4 h-4 mr-2" />
+                  Summaries
+                </Link>
+              </Button>
+            )}
+          </div>
+        </div>
+
+        {!projectId ? (
+          <div className="section-card p-8 text-center text-muted-foreground">
+            Create a project to see its dashboard.
+          </div>
+        ) : isLoading ? (
+          <div className="flex justify-center py-12">
+            <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <>
+            <div className="grid sm:grid-cols-3 lg:grid-cols-5 gap-4">
+              {[
+                { label: "Submitted reports", value: reports.length },
+                { label: "Peak daily headcount", value: peakHeadcount },
+                { label: "Equipment-days", value: totalEquipmentDays },
+                { label: "Weather hours lost", value: formatHours(extensionOfTime.totalHours) },
+                {
+                  label: "Plan reliability",
+                  value: reliability.overall === null ? "–" : `${reliability.overall}%`,
+                },
+              ].map(({ label, value }) => (
+                <div key={label} className="section-card p-4">
+                  <p className="text-sm text-muted-foreground">{label}</p>
+                  <p className="text-2xl font-bold text-foreground">{value}</p>
+                </div>
+              ))}
+            </div>
+
+            <div className="grid lg:grid-cols-2 gap-4">
+              <ChartCard
+                title="Daily Headcount by Role"
+                icon={<Users className="w-5 h-5 text-primary" />}
+                isEmpty={headcount.series.length === 0}
+              >
+                <ChartContainer config={seriesConfig(headcount)} className="h-[280px] w-full">
+                  <BarChart data={headcount.data}>
+                    <CartesianGrid vertical={false} />
+                    <XAxis dataKey="date" tickFormatter={shortDate} tickLine={false} />
+                    <YAxis allowDecimals={false} tickLine={false} width={32} />
+                    <ChartTooltip
+                      content={<ChartTooltipContent labelFormatter={shortDate} />}
+                    />
+                    <ChartLegend content={<ChartLegendContent />} />
+                    {headcount.series.map((s) => (
+                      <Bar key={s.key} dataKey={s.key} stackId="headcount" fill={`var(--color-${s.key})`} />
+                    ))}
+                  </BarChart>
+                </ChartContainer>
+              </ChartCard>
+
+              <ChartCard
+                title="Machinery Days by Type"
+                icon={<Truck className="w-5 h-5 text-success" />}
+                isEmpty={machinery.length === 0}
+              >
+                <ChartContainer config={MACHINERY_CONFIG} className="h-[280px] w-full">
+                  <BarChart data={machinery} layout="vertical">
+                    <CartesianGrid horizontal={false} />
+                    <XAxis type="number" allowDecimals={false} tickLine={false} />
+                    <YAxis type="category" dataKey="type" tickLine={false} width={120} />
+                    <ChartTooltip content={<ChartTooltipContent />} />
+                    <Bar dataKey="days" fill="var(--color-days)" radius={4} />
+                  </BarChart>
+                </ChartContainer>
+              </ChartCard>
+
+              <ChartCard
+                title="Cumulative Material Deliveries by Unit"
+                icon={<Package className="w-5 h-5 text-warning" />}
+                isEmpty={materials.series.length === 0}
+              >
+                <ChartContainer config={seriesConfig(materials)} className="h-[280px] w-full">
+                  <LineChart data={materials.data}>
+                    <CartesianGrid vertical={false} />
+                    <XAxis dataKey="date" tickFormatter={shortDate} tickLine={false} />
+                    <YAxis tickLine={false} width={40} />
+                    <ChartTooltip
+                      content={<ChartTooltipContent labelFormatter={shortDate} />}
+                    />
+                    <ChartLegend content={<ChartLegendContent />} />
+                    {materials.series.map((s) => (
+                      <Line
+                        key={s.key}
+                        type="stepAfter"
+                        dataKey={s.key}
+                        stroke={`var(--color-${s.key})`}
+                        strokeWidth={2}
+                        dot={false}
+                      />
+                    ))}
+                  </LineChart>
+                </ChartContainer>
+              </ChartCard>
+
+              <ChartCard
+                title="Weather Distribution"
+                icon={<CloudSun className="w-5 h-5 text-accent" />}
+                isEmpty={weather.length === 0}
+              >
+                <ChartContainer config={WEATHER_CONFIG} className="h-[280px] w-full">
+                  <BarChart data={weather}>
+                    <CartesianGrid vertical={false} />
+                    <XAxis dataKey="weather" tickLine={false} />
+                    <YAxis allowDecimals={false} tickLine={false} width={32} />
+                    <ChartTooltip content={<ChartTooltipContent />} />
+                    <ChartLegend content={<ChartLegendContent />} />
+                    <Bar dataKey="am" fill="var(--color-am)" radius={4} />
+                    <Bar dataKey="pm" fill="var(--color-pm)" radius={4} />
+                  </BarChart>
+                </ChartContainer>
+              </ChartCard>
+            </div>
+
+            <div className="grid lg:grid-cols-2 gap-4">
+              <ChartCard
+                title="Weekly Plan Reliability"
+                icon={<ListChecks className="w-5 h-5 text-primary" />}
+                isEmpty={reliability.weeks.length === 0}
+              >
+                <ChartContainer config={RELIABILITY_CONFIG} className="h-[240px] w-full">
+                  <BarChart data={reliability.weeks}>
+                    <CartesianGrid vertical={false} />
+                    <XAxis dataKey="label" tickLine={false} />
+                    <YAxis domain={[0, 100]} tickLine={false} width={32} unit="%" />
+                    <ChartTooltip content={<ChartTooltipContent />} />
+                    <Bar dataKey="reliability" fill="var(--color-reliability)" radius={4} />
+                  </BarChart>
+                </ChartContainer>
+                {reliability.reasons.length > 0 && (
+                  <div className="mt-4 text-sm">
+                    <p className="font-medium text-foreground mb-1">Top slippage reasons</p>
+                    <ul className="space-y-0.5 text-muted-foreground">
+                      {reliability.reasons.slice(0, 5).map(({ reason, count }) => (
+                        <li key={reason} className="flex justify-between gap-4">
+                          <span>{reason}</span>
+                          <span>{count}</span>
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+              </ChartCard>
+
+              <ChartCard
+                title="Extension of Time Record"
+                icon={<Timer className="w-5 h-5 text-warning" />}
+                isEmpty={extensionOfTime.rows.length === 0}
+              >
+                <div className="overflow-x-auto">
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="text-muted-foreground">
+                        <th className="text-left px-3 py-2 font-medium">Date</th>
+                        <th className="text-left px-3 py-2 font-medium">Cause</th>
+                        <th className="text-right px-3 py-2 font-medium">Rainfall</th>
+                        <th className="text-right px-3 py-2 font-medium">Hours lost</th>
+                        <th className="text-right px-3 py-2 font-medium">Cumulative</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {extensionOfTime.rows.map((row, i) => (
+                        <tr key={`${row.date}-${i}`} className="border-t border-table-border">
+                          <td className="px-3 py-2">{shortDate(row.date)}</td>
+                          <td className="px-3 py-2">{row.cause}</td>
+                          <td className="px-3 py-2 text-right">{row.rainfall ? `${row.rainfall} mm` : ""}</td>
+                          <td className="px-3 py-2 text-right">{formatHours(row.hours)}</td>
+                          <td className="px-3 py-2 text-right">{formatHours(row.cumulativeHours)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                    <tfoot>
+                      <tr className="border-t border-table-border font-semibold text-foreground">
+                        <td className="px-3 py-2" colSpan={3}>
+                          {extensionOfTime.byCause
+                            .map(({ cause, hours }) => `${cause} ${formatHours(hours)}`)
+                            .join(" · ")}
+                        </td>
+                        <td className="px-3 py-2 text-right">{formatHours(extensionOfTime.totalHours)}</td>
+                        <td className="px-3 py-2 text-right">
+                          {Number(extensionOfTime.totalDays.toFixed(2))} days
+                          <span className="block text-xs font-normal text-muted-foreground">
+                            at {WORKING_HOURS_PER_DAY} h per day
+                          </span>
+                        </td>
+                      </tr>
+                    </tfoot>
+                  </table>
+                </div>
+              </ChartCard>
+            </div>
+          </>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default Dashboard;
@@ -1,20 +1,33 @@
-import React, { useCallback, useEffect, useRef, useState } from "react";
+import React, { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import ReportHeader from "@/components/ReportHeader";
 import ProjectInfo from "@/components/ProjectInfo";
+import WeatherLogSection from "@/components/WeatherLogSection";
 import ActivitySection from "@/components/ActivitySection";
+import PlanReviewSection from "@/components/PlanReviewSection";
 import ResourcesSection from "@/components/ResourcesSection";
 import ReportActions from "@/components/ReportActions";
 import PDFPreviewModal from "@/components/PDFPreviewModal";
 import ReferenceSection from "@/components/ReferenceSection";
+import ReviewComments from "@/components/ReviewComments";
+import AmendDialog from "@/components/AmendDialog";
+import VersionHistoryPanel from "@/components/VersionHistoryPanel";
+import RecalculateTotalsDialog from "@/components/RecalculateTotalsDialog";
 import FileNameDialog from "@/components/FileNameDialog";
+import SignatureSection from "@/components/SignatureSection";
+import StartFromDialog from "@/components/StartFromDialog";
 import { Button } from "@/components/ui/button";
 import {
   DropdownMenu,
   DropdownMenuContent,
   DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
 import {
+  CopyPlus,
   Eye,
   FileDown,
   FileSpreadsheet,
@@ -23,210 +36,116 @@ import {
 } from "lucide-react";
 import { ResourceRow } from "@/components/ResourceTable";
 import {
+  activityOverflow,
   exportToPDF,
   exportToExcel,
   exportToZIP,
   exportToWord,
+  exportCombinedExcelLocally,
+  exportReferenceExcelLocally,
 } from "@/lib/exportUtils";
+import {
+  EXCEL_ENGINE_LABELS,
+  ExcelEngine,
+  getExcelEngine,
+  runExcelExport,
+  setExcelEngine,
+} from "@/lib/excelEngine";
 import { useToast } from "@/hooks/use-toast";
 import {
   generatePythonExcel,
   generateReferenceExcel,
   generateCombinedExcel,
+  amendReportInDB,
+  loadReportFromDB,
+  ReportConflictError,
+  uploadReferencePhoto,
 } from "@/integrations/reportsApi";
-import { API_ENDPOINTS } from "@/config/api";
-
-// Helper function to get auth headers
-const getAuthHeaders = () => {
-  const token = localStorage.getItem("token");
-  return {
-    "Content-Type": "application/json",
-    ...(token ? { Authorization: `Bearer ${token}` } : {}),
-  };
-};
-
-// API functions
-const saveReportToDB = async (reportData: ReportData) => {
-  console.log(
-    "DEBUG FRONTEND: saveReportToDB called with endpoint:",
-    API_ENDPOINTS.DAILY_REPORTS.SAVE
-  );
-  console.log("DEBUG FRONTEND: saveReportToDB auth headers:", getAuthHeaders());
-
-  try {
-    const response = await fetch(API_ENDPOINTS.DAILY_REPORTS.SAVE, {
-      method: "POST",
-      headers: getAuthHeaders(),
-      body: JSON.stringify(reportData),
-    });
-
-    console.log(
-      "DEBUG FRONTEND: saveReportToDB response status:",
-      response.status
-    );
-    console.log("DEBUG FRONTEND: saveReportToDB response ok:", response.ok);
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error(
-        "DEBUG FRONTEND: saveReportToDB error response:",
-        errorText
-      );
-      const error = await response
-        .json()
-        .catch(() => ({ message: "Failed to save report" }));
-      throw new Error(error.message || "Failed to save report");
-    }
-
-    const result = await response.json();
-    console.log("DEBUG FRONTEND: saveReportToDB success:", result);
-    return result;
-  } catch (error) {
-    console.error("DEBUG FRONTEND: saveReportToDB exception:", error);
-    throw error;
-  }
-};
-
-const submitReportToDB = async (projectName: string, reportDate: Date) => {
-  const dateStr = reportDate.toISOString().split("T")[0];
-  const response = await fetch(API_ENDPOINTS.DAILY_REPORTS.SUBMIT, {
-    method: "POST",
-    headers: getAuthHeaders(),
-    body: JSON.stringify({ projectName, date: dateStr }),
-  });
-  if (!response.ok) {
-    const error = await response
-      .json()
-      .catch(() => ({ message: "Failed to submit report" }));
-    throw new Error(error.message || "Failed to submit report");
-  }
-  return response.json();
-};
-
-// FIXED: Removed duplicate "daily-reports" from path
-const loadReportFromDB = async (reportDate: Date, projectName?: string) => {
-  try {
-    const dateStr = reportDate.toISOString().split("T")[0];
-    const token = localStorage.getItem("token"); // get token from login
-
-    if (!token) {
-      throw new Error("No authentication token found. Please log in.");
-    }
-
-    // Build URL with optional projectName query parameter
-    let url = API_ENDPOINTS.DAILY_REPORTS.GET_BY_DATE(dateStr);
-    if (projectName && projectName.trim()) {
-      url += `?projectName=${encodeURIComponent(projectName)}`;
-    }
-
-    const response = await fetch(url, {
-      method: "GET",
-      headers: {
-        "Content-Type": "application/json",
-        Authorization: `Bearer ${token}`, // send token to backend
-      },
-    });
-
-    // 404 is expected when no report exists for this date - return null silently
-    if (response.status === 404) {
-      return null; // report not found - this is normal for new dates
-    }
-
-    if (!response.ok) {
-      throw new Error(`Failed to load report: ${response.statusText}`);
-    }
-
-    return response.json(); // return report data
-  } catch (err) {
-    // Only log errors that are not 404 (which is expected)
-    if (err instanceof Error && !err.message.includes("404")) {
-      console.error("Error loading report:", err);
-    }
-    // Re-throw only if it's not a handled 404
-    if (err instanceof Error && err.message.includes("404")) {
-      return null;
-    }
-    throw err;
-  }
-};
-
-// Local Storage helpers (for offline drafts)
-const STORAGE_PREFIX = "daily-report:";
-const dateKey = (date: Date | undefined): string => {
-  if (!date) return STORAGE_PREFIX + "unknown";
-  return STORAGE_PREFIX + date.toISOString().slice(0, 10);
-};
+import { getOutbox, sendOrQueue } from "@/integrations/syncQueue";
+import { commentsFor, isLockedStatus } from "@/lib/reviewWorkflow";
+import { getCurrentUser } from "@/lib/currentUser";
+import { missingSignatures, SIGNATURE_ROLE_LABELS } from "@/lib/signatures";
+import { withMetadataCaptions } from "@/lib/photoMetadata";
+import { carryForwardRows, copyReportParts } from "@/lib/reportTemplates";
+import { loadPreviousPlan, PreviousPlan } from "@/lib/planTracking";
+import { describeIssue, resourceIssues, resourceRowId } from "@/lib/resourceValidation";
+import { findCatalogItem, getProjectCatalog } from "@/lib/resourceCatalog";
+import {
+  deleteSectionPhotos,
+  loadReferencePhotos,
+  pruneReferencePhotos,
+  storeReferencePhotos,
+  toDataUrlSections,
+  uploadReferencePhotos,
+} from "@/lib/referencePhotos";
+import { resolveProjectLogos } from "@/integrations/projectsApi";
+import { useProjects } from "@/hooks/useProjects";
+import { Project } from "@/types/project";
+import { CatalogItem, ResourceCatalog } from "@/types/catalog";
+import { useSearchParams } from "react-router-dom";
+import {
+  ReportData,
+  ActivityItem,
+  ActivityMode,
+  Amendment,
+  CopyPart,
+  PlanCheck,
+  ReportStatus,
+  ResourceTableKey,
+  ReportSignature,
+  ReviewComment,
+  ReferenceSection as Section,
+  WeatherDelay,
+  WeatherObservation,
+} from "@/types/report";
+import {
+  listLocalDrafts,
+  loadDraftLocally,
+  localDateString,
+  removeDraftLocally,
+  saveDraftLocally,
+} from "@/lib/storageUtils";
 
-function saveDraftLocally(date: Date | undefined, data: ReportData): void {
-  try {
-    localStorage.setItem(dateKey(date), JSON.stringify(data));
-  } catch (e) {
-    console.error("Failed to save to localStorage:", e);
-  }
-}
-
-function loadDraftLocally(date: Date | undefined): ReportData | null {
-  try {
-    const raw = localStorage.getItem(dateKey(date));
-    return raw ? (JSON.parse(raw) as ReportData) : null;
-  } catch (e) {
-    console.error("Failed to load from localStorage:", e);
-    return null;
-  }
-}
-
-interface Slot {
-  image: File | string | null;
-  [key: string]: unknown;
-}
-
-interface Entry {
-  slots: Slot[];
-  [key: string]: unknown;
-}
-
-interface Section {
-  entries: Entry[];
-  [key: string]: unknown;
-}
-
-interface ReportData {
-  projectName: string;
-  reportDate: string | null;
-  weatherAM?: string;
-  weatherPM?: string;
-  tempAM?: string;
-  tempPM?: string;
-  currentPeriod?: "AM" | "PM";
-  // Backward compatibility properties
-  weather?: string;
-  weatherPeriod?: "AM" | "PM";
-  temperature?: string;
-  activityToday: string;
-  workPlanNextDay: string;
-  managementTeam: ResourceRow[];
-  workingTeam: ResourceRow[];
-  materials: ResourceRow[];
-  machinery: ResourceRow[];
-  // Optional merged-reference data (kept optional so export logic isn't changed yet)
-  referenceSections?: Section[];
-}
+// Remember the last project so the form reopens on it
+const LAST_PROJECT_KEY = "daily-report-last-project";
 
 const Index = () => {
   const { toast } = useToast();
+  const [searchParams] = useSearchParams();
 
   // Project Info
+  const { projects, upsertProject, getProject } = useProjects();
+  const [projectId, setProjectId] = useState<string>(
+    () =>
+      searchParams.get("project") ||
+      localStorage.getItem(LAST_PROJECT_KEY) ||
+      ""
+  );
   const [projectName, setProjectName] = useState("");
-  const [reportDate, setReportDate] = useState<Date | undefined>(new Date());
+  // Opened from the report history (/?date=YYYY-MM-DD) or today by default
+  const [reportDate, setReportDate] = useState<Date | undefined>(() => {
+    const dateParam = searchParams.get("date");
+    return dateParam && /^\d{4}-\d{2}-\d{2}$/.test(dateParam)
+      ? new Date(`${dateParam}T00:00:00`)
+      : new Date();
+  });
   const [weatherAM, setWeatherAM] = useState("");
   const [weatherPM, setWeatherPM] = useState("");
   const [tempAM, setTempAM] = useState("");
   const [tempPM, setTempPM] = useState("");
   const [currentPeriod, setCurrentPeriod] = useState<"AM" | "PM">("AM");
+  const [weatherLog, setWeatherLog] = useState<WeatherObservation[]>([]);
+  const [weatherDelays, setWeatherDelays] = useState<WeatherDelay[]>([]);
 
   // Activities
   const [activityToday, setActivityToday] = useState("");
   const [workPlanNextDay, setWorkPlanNextDay] = useState("");
+  const [activityMode, setActivityMode] = useState<ActivityMode>("text");
+  const [activityItems, setActivityItems] = useState<ActivityItem[]>([]);
+  const [planItems, setPlanItems] = useState<ActivityItem[]>([]);
+  const [planChecks, setPlanChecks] = useState<PlanCheck[]>([]);
+  // The previous report's work plan, checked in planChecks
+  const [previousPlan, setPreviousPlan] = useState<PreviousPlan | null>(null);
 
   // Resources
   const [managementTeam, setManagementTeam] = useState<ResourceRow[]>([]);
@@ -234,13 +153,30 @@ const Index = () => {
   const [materials, setMaterials] = useState<ResourceRow[]>([]);
   const [machinery, setMachinery] = useState<ResourceRow[]>([]);
 
+  // Approval workflow (server-controlled, not part of the saved data)
+  const [reportStatus, setReportStatus] = useState<ReportStatus | undefined>();
+  const [reviewComments, setReviewComments] = useState<ReviewComment[]>([]);
+  const [revision, setRevision] = useState(0);
+  const [amendments, setAmendments] = useState<Amendment[]>([]);
+  const [signatures, setSignatures] = useState<ReportSignature[]>([]);
+  const [showAmendDialog, setShowAmendDialog] = useState(false);
+  const [recalcStart, setRecalcStart] = useState<ReportData | null>(null);
+  const [showHistory, setShowHistory] = useState(false);
+  const [showStartFrom, setShowStartFrom] = useState(false);
+  const isLocked = isLockedStatus(reportStatus);
+  // Read by the scope effect without re-running it
+  const isLockedRef = useRef(isLocked);
+  isLockedRef.current = isLocked;
+
   // Reference Section state
   const [referenceSections, setReferenceSections] = useState<Section[]>([]);
   const [tableTitle, setTableTitle] = useState("SITE PHOTO EVIDENCE");
+  const [photoMetadataInCaptions, setPhotoMetadataInCaptions] = useState(false);
   const [isExportingReference, setIsExportingReference] = useState(false);
 
   // Combined Export state
   const [isExportingCombined, setIsExportingCombined] = useState(false);
+  const [excelEngine, setExcelEngineState] = useState<ExcelEngine>(getExcelEngine);
 
   // UI State
   const [isSaving, setIsSaving] = useState(false);
@@ -250,6 +186,8 @@ const Index = () => {
 
   const [previewUrl, setPreviewUrl] = useState<string | null>(null);
   const [showPreview, setShowPreview] = useState(false);
+  // Whether the open preview includes the reference photo sheet
+  const [previewIsFull, setPreviewIsFull] = useState(false);
 
   // File name dialog state
   const [showFileNameDialog, setShowFileNameDialog] = useState(false);
@@ -257,10 +195,16 @@ const Index = () => {
     "excel" | "combined" | "reference" | null
   >(null);
 
-  // Track previous date to detect changes
-  const lastDateRef = useRef<string | null>(null);
-  // Track if initial load has happened
-  const initialLoadDoneRef = useRef(false);
+  // Track the previous (project, date) scope to detect changes
+  const lastScopeRef = useRef<{
+    projectId: string;
+    projectName: string;
+    date: Date;
+  } | null>(null);
+  // Ignore responses from loads that were superseded by a newer scope
+  const loadIdRef = useRef(0);
+  // Server version the form was loaded from, sent back so the API can detect conflicts
+  const serverUpdatedAtRef = useRef<string | undefined>(undefined);
 
   // Helper to ensure all rows have IDs (for data loaded from DB/localStorage)
   const ensureRowIds = (rows: ResourceRow[]): ResourceRow[] => {
@@ -274,409 +218,232 @@ const Index = () => {
   // Helper to get current report data
   const getReportData = useCallback(
     (): ReportData => ({
+      projectId: projectId || undefined,
       projectName,
       reportDate: reportDate?.toISOString() || null,
       weatherAM,
       weatherPM,
       tempAM,
       tempPM,
+      weatherLog,
+      weatherDelays,
       activityToday,
       workPlanNextDay,
+      activityMode,
+      activityItems,
+      planItems,
+      planChecks,
       managementTeam,
       workingTeam,
       materials,
       machinery,
       // Keep reference sections in the object for future export mapping (no export logic changed yet)
       referenceSections,
+      photoMetadataInCaptions,
+      signatures,
     }),
     [
+      projectId,
       projectName,
       reportDate,
       weatherAM,
       weatherPM,
       tempAM,
       tempPM,
+      weatherLog,
+      weatherDelays,
       activityToday,
       workPlanNextDay,
+      activityMode,
+      activityItems,
+      planItems,
+      planChecks,
       managementTeam,
       workingTeam,
       materials,
       machinery,
       referenceSections,
+      photoMetadataInCaptions,
+      signatures,
     ]
   );
 
-  // Load report on mount - Try DB first, fallback to localStorage (only on first mount)
+  // Fill the form from a DB report or local draft (project and date are the current scope)
+  const fillForm = useCallback((data: ReportData) => {
+    setProjectName((current) => data.projectName || current);
+    // Handle backward compatibility: convert old format to new
+    if (data.weatherAM !== undefined) {
+      setWeatherAM(data.weatherAM || "");
+      setWeatherPM(data.weatherPM || "");
+      setTempAM(data.tempAM || "");
+      setTempPM(data.tempPM || "");
+      setCurrentPeriod(data.currentPeriod || "AM");
+    } else {
+      // Old format: migrate to new format
+      const oldWeather = data.weather || "Sunny";
+      const oldPeriod = data.weatherPeriod || "AM";
+      const oldTemp = data.temperature || "";
+      setWeatherAM(oldPeriod === "AM" ? oldWeather : "");
+      setWeatherPM(oldPeriod === "PM" ? oldWeather : "");
+      setTempAM(oldPeriod === "AM" ? oldTemp : "");
+      setTempPM(oldPeriod === "PM" ? oldTemp : "");
+      setCurrentPeriod("AM");
+    }
+    setWeatherLog(data.weatherLog || []);
+    setWeatherDelays(data.weatherDelays || []);
+    setActivityToday(data.activityToday || "");
+    setWorkPlanNextDay(data.workPlanNextDay || "");
+    setActivityMode(data.activityMode || "text");
+    setActivityItems(data.activityItems || []);
+    setPlanItems(data.planItems || []);
+    setPlanChecks(data.planChecks || []);
+    setManagementTeam(ensureRowIds(data.managementTeam || []));
+    setWorkingTeam(ensureRowIds(data.workingTeam || []));
+    setMaterials(ensureRowIds(data.materials || []));
+    setMachinery(ensureRowIds(data.machinery || []));
+    setReferenceSections(data.referenceSections || []);
+    setPhotoMetadataInCaptions(!!data.photoMetadataInCaptions);
+    setReportStatus(data.status);
+    setReviewComments(data.reviewComments || []);
+    setRevision(data.revision ?? 0);
+    setAmendments(data.amendments || []);
+    setSignatures(data.signatures || []);
+  }, []);
+
+  // Reset everything except the selected project and date
+  const clearForm = useCallback(() => {
+    setWeatherAM("");
+    setWeatherPM("");
+    setTempAM("");
+    setTempPM("");
+    setCurrentPeriod("AM");
+    setWeatherLog([]);
+    setWeatherDelays([]);
+    setActivityToday("");
+    setWorkPlanNextDay("");
+    setActivityMode("text");
+    setActivityItems([]);
+    setPlanItems([]);
+    setPlanChecks([]);
+    setManagementTeam([]);
+    setWorkingTeam([]);
+    setMaterials([]);
+    setMachinery([]);
+    setReferenceSections([]);
+    setPhotoMetadataInCaptions(false);
+    setReportStatus(undefined);
+    setReviewComments([]);
+    setRevision(0);
+    setAmendments([]);
+    setSignatures([]);
+  }, []);
+
+  // Load the report whenever the (project, date) scope changes.
+  // The scope being left is kept as a local draft first.
   useEffect(() => {
-    const loadInitialReport = async () => {
-      if (!reportDate || initialLoadDoneRef.current) return; // Only load on first mount
+    if (!reportDate) return;
+
+    const prev = lastScopeRef.current;
+    const projectChanged = !!prev && prev.projectId !== projectId;
+    const dateChanged =
+      !!prev && localDateString(prev.date) !== localDateString(reportDate);
+    if (prev && !projectChanged && !dateChanged) return;
+
+    // Submitted reports live on the server; don't shadow them with a draft
+    if (prev && !isLockedRef.current) {
+      saveDraftLocally(
+        prev.date,
+        {
+          ...getReportData(),
+          projectId: prev.projectId || undefined,
+          projectName: prev.projectName,
+          reportDate: prev.date.toISOString(),
+        },
+        prev.projectId || undefined
+      );
+    }
+    lastScopeRef.current = { projectId, projectName, date: reportDate };
 
-      initialLoadDoneRef.current = true;
+    const loadId = ++loadIdRef.current;
+    serverUpdatedAtRef.current = undefined;
+    const scopeProjectId = projectId || undefined;
 
+    const loadScope = async () => {
       try {
-        // Try to load from database first
-        const dbReport = await loadReportFromDB(reportDate, projectName);
-
+        // Try database first
+        const dbReport = await loadReportFromDB(reportDate, scopeProjectId);
+        if (loadId !== loadIdRef.current) return;
         if (dbReport) {
-          // Load from database
-          setProjectName(dbReport.projectName || "");
-          setReportDate(
-            dbReport.reportDate ? new Date(dbReport.reportDate) : new Date()
+          const referenceSections = await loadReferencePhotos(
+            dbReport.referenceSections
           );
-          // Handle backward compatibility: convert old format to new
-          if (dbReport.weatherAM !== undefined) {
-            setWeatherAM(dbReport.weatherAM || "");
-            setWeatherPM(dbReport.weatherPM || "");
-            setTempAM(dbReport.tempAM || "");
-            setTempPM(dbReport.tempPM || "");
-            setCurrentPeriod(dbReport.currentPeriod || "AM");
-          } else {
-            // Old format: migrate to new format
-            const oldWeather = dbReport.weather || "Sunny";
-            const oldPeriod = dbReport.weatherPeriod || "AM";
-            const oldTemp = dbReport.temperature || "";
-            if (oldPeriod === "AM") {
-              setWeatherAM(oldWeather);
-              setWeatherPM("");
-              setTempAM(oldTemp);
-              setTempPM("");
-            } else {
-              setWeatherAM("");
-              setWeatherPM(oldWeather);
-              setTempAM("");
-              setTempPM(oldTemp);
-            }
-            setCurrentPeriod("AM");
-          }
-          setActivityToday(dbReport.activityToday || "");
-          setWorkPlanNextDay(dbReport.workPlanNextDay || "");
-          setManagementTeam(ensureRowIds(dbReport.managementTeam || []));
-          setWorkingTeam(ensureRowIds(dbReport.workingTeam || []));
-          setMaterials(ensureRowIds(dbReport.materials || []));
-          setMachinery(ensureRowIds(dbReport.machinery || []));
-        } else {
-          // Fallback to localStorage
-          const localDraft = loadDraftLocally(reportDate);
-          if (localDraft) {
-            setProjectName(localDraft.projectName || "");
-            setReportDate(
-              localDraft.reportDate
-                ? new Date(localDraft.reportDate)
-                : new Date()
-            );
-            // Handle backward compatibility
-            if (localDraft.weatherAM !== undefined) {
-              setWeatherAM(localDraft.weatherAM || "");
-              setWeatherPM(localDraft.weatherPM || "");
-              setTempAM(localDraft.tempAM || "");
-              setTempPM(localDraft.tempPM || "");
-              setCurrentPeriod(localDraft.currentPeriod || "AM");
-            } else {
-              const oldWeather = localDraft.weather || "Sunny";
-              const oldPeriod = localDraft.weatherPeriod || "AM";
-              const oldTemp = localDraft.temperature || "";
-              if (oldPeriod === "AM") {
-                setWeatherAM(oldWeather);
-                setWeatherPM("");
-                setTempAM(oldTemp);
-                setTempPM("");
-              } else {
-                setWeatherAM("");
-                setWeatherPM(oldWeather);
-                setTempAM("");
-                setTempPM(oldTemp);
-              }
-              setCurrentPeriod("AM");
-            }
-            setActivityToday(localDraft.activityToday || "");
-            setWorkPlanNextDay(localDraft.workPlanNextDay || "");
-            setManagementTeam(ensureRowIds(localDraft.managementTeam || []));
-            setWorkingTeam(ensureRowIds(localDraft.workingTeam || []));
-            setMaterials(ensureRowIds(localDraft.materials || []));
-            setMachinery(ensureRowIds(localDraft.machinery || []));
-          }
+          if (loadId !== loadIdRef.current) return;
+          serverUpdatedAtRef.current = dbReport.updatedAt;
+          fillForm({ ...dbReport, referenceSections });
+          return;
         }
       } catch (e) {
         console.error("Failed to load report:", e);
-        // Fallback to localStorage if DB fails
-        const localDraft = loadDraftLocally(reportDate);
-        if (localDraft) {
-          setProjectName(localDraft.projectName || "");
-          setReportDate(
-            localDraft.reportDate ? new Date(localDraft.reportDate) : new Date()
-          );
-          // Handle backward compatibility
-          if (localDraft.weatherAM !== undefined) {
-            setWeatherAM(localDraft.weatherAM || "");
-            setWeatherPM(localDraft.weatherPM || "");
-            setTempAM(localDraft.tempAM || "");
-            setTempPM(localDraft.tempPM || "");
-            setCurrentPeriod(localDraft.currentPeriod || "AM");
-          } else {
-            const oldWeather = localDraft.weather || "Sunny";
-            const oldPeriod = localDraft.weatherPeriod || "AM";
-            const oldTemp = localDraft.temperature || "";
-            if (oldPeriod === "AM") {
-              setWeatherAM(oldWeather);
-              setWeatherPM("");
-              setTempAM(oldTemp);
-              setTempPM("");
-            } else {
-              setWeatherAM("");
-              setWeatherPM(oldWeather);
-              setTempAM("");
-              setTempPM(oldTemp);
-            }
-            setCurrentPeriod("AM");
-          }
-          setActivityToday(localDraft.activityToday || "");
-          setWorkPlanNextDay(localDraft.workPlanNextDay || "");
-          setManagementTeam(ensureRowIds(localDraft.managementTeam || []));
-          setWorkingTeam(ensureRowIds(localDraft.workingTeam || []));
-          setMaterials(ensureRowIds(localDraft.materials || []));
-          setMachinery(ensureRowIds(localDraft.machinery || []));
-        }
+        if (loadId !== loadIdRef.current) return;
       }
-    };
-
-    loadInitialReport();
-  }, [reportDate]); // Include reportDate to satisfy ESLint
 
-  // Handle date change: save current, carry forward between dates, load or clear on first selection
-  useEffect(() => {
-    const newDateStr = reportDate?.toISOString().slice(0, 10) || null;
-    const prevDateStr = lastDateRef.current;
-
-    if (prevDateStr && newDateStr && prevDateStr !== newDateStr) {
-      // Date changed: save current date draft locally and carry forward
-      saveDraftLocally(new Date(prevDateStr), getReportData());
-
-      // Load the target date
-      const loadTargetDate = async () => {
-        try {
-          // Try database first
-          const dbReport = await loadReportFromDB(reportDate!, projectName);
-
-          if (dbReport) {
-            // Found report in database
-            setProjectName(dbReport.projectName || "");
-            // Handle backward compatibility: convert old format to new
-            if (dbReport.weatherAM !== undefined) {
-              setWeatherAM(dbReport.weatherAM || "");
-              setWeatherPM(dbReport.weatherPM || "");
-              setTempAM(dbReport.tempAM || "");
-              setTempPM(dbReport.tempPM || "");
-              setCurrentPeriod(dbReport.currentPeriod || "AM");
-            } else {
-              // Old format: migrate to new format
-              const oldWeather = dbReport.weather || "Sunny";
-              const oldPeriod = dbReport.weatherPeriod || "AM";
-              const oldTemp = dbReport.temperature || "";
-              if (oldPeriod === "AM") {
-                setWeatherAM(oldWeather);
-                setWeatherPM("");
-                setTempAM(oldTemp);
-                setTempPM("");
-              } else {
-                setWeatherAM("");
-                setWeatherPM(oldWeather);
-                setTempAM("");
-                setTempPM(oldTemp);
-              }
-              setCurrentPeriod("AM");
-            }
-            setActivityToday(dbReport.activityToday || "");
-            setWorkPlanNextDay(dbReport.workPlanNextDay || "");
-            setManagementTeam(ensureRowIds(dbReport.managementTeam || []));
-            setWorkingTeam(ensureRowIds(dbReport.workingTeam || []));
-            setMaterials(ensureRowIds(dbReport.materials || []));
-            setMachinery(ensureRowIds(dbReport.machinery || []));
-          } else {
-            // No DB report, try localStorage
-            const localDraft = loadDraftLocally(reportDate);
-
-            if (localDraft) {
-              // Found local draft
-              setProjectName(localDraft.projectName || "");
-              // Handle backward compatibility
-              if (localDraft.weatherAM !== undefined) {
-                setWeatherAM(localDraft.weatherAM || "");
-                setWeatherPM(localDraft.weatherPM || "");
-                setTempAM(localDraft.tempAM || "");
-                setTempPM(localDraft.tempPM || "");
-                setCurrentPeriod(localDraft.currentPeriod || "AM");
-              } else {
-                const oldWeather = localDraft.weather || "Sunny";
-                const oldPeriod = localDraft.weatherPeriod || "AM";
-                const oldTemp = localDraft.temperature || "";
-                if (oldPeriod === "AM") {
-                  setWeatherAM(oldWeather);
-                  setWeatherPM("");
-                  setTempAM(oldTemp);
-                  setTempPM("");
-                } else {
-                  setWeatherAM("");
-                  setWeatherPM(oldWeather);
-                  setTempAM("");
-                  setTempPM(oldTemp);
-                }
-                setCurrentPeriod("AM");
-              }
-              setActivityToday(localDraft.activityToday || "");
-              setWorkPlanNextDay(localDraft.workPlanNextDay || "");
-              setManagementTeam(ensureRowIds(localDraft.managementTeam || []));
-              setWorkingTeam(ensureRowIds(localDraft.workingTeam || []));
-              setMaterials(ensureRowIds(localDraft.materials || []));
-              setMachinery(ensureRowIds(localDraft.machinery || []));
-            } else {
-              // No saved report: prefill from yesterday
-              const yesterday = new Date(reportDate!.getTime() - 86400000);
-              const prevData = loadDraftLocally(yesterday);
-
-              if (prevData) {
-                // Copy prev-day accumulated -> today's prev
-                const mapPrevFromAccum = (rows: ResourceRow[]) =>
-                  ensureRowIds(rows).map((r) => ({
-                    ...r,
-                    prev: r.accumulated,
-                    today: 0,
-                    accumulated: r.accumulated,
-                  }));
-
-                setManagementTeam(
-                  mapPrevFromAccum(prevData.managementTeam || [])
-                );
-                setWorkingTeam(mapPrevFromAccum(prevData.workingTeam || []));
-                setMaterials(mapPrevFromAccum(prevData.materials || []));
-                setMachinery(mapPrevFromAccum(prevData.machinery || []));
-
-                // Reset other fields for new day
-                setProjectName("");
-                setWeatherAM("");
-                setWeatherPM("");
-                setTempAM("");
-                setTempPM("");
-                setCurrentPeriod("AM");
-                setActivityToday("");
-                setWorkPlanNextDay("");
-              }
-            }
-          }
-        } catch (e) {
-          console.error("Failed to load report for new date:", e);
-        }
-      };
-
-      loadTargetDate();
-    } else if (newDateStr && !prevDateStr) {
-      // First date selection: try to load existing data for this date, otherwise clear
-      const loadDataForDate = async () => {
-        try {
-          // Try to load from database first
-          const dbReport = await loadReportFromDB(reportDate!, projectName);
-          if (dbReport) {
-            setProjectName(dbReport.projectName || "");
-            // Handle backward compatibility: convert old format to new
-            if (dbReport.weatherAM !== undefined) {
-              setWeatherAM(dbReport.weatherAM || "");
-              setWeatherPM(dbReport.weatherPM || "");
-              setTempAM(dbReport.tempAM || "");
-              setTempPM(dbReport.tempPM || "");
-              setCurrentPeriod(dbReport.currentPeriod || "AM");
-            } else {
-              // Old format: migrate to new format
-              const oldWeather = dbReport.weather || "Sunny";
-              const oldPeriod = dbReport.weatherPeriod || "AM";
-              const oldTemp = dbReport.temperature || "";
-              if (oldPeriod === "AM") {
-                setWeatherAM(oldWeather);
-                setWeatherPM("");
-                setTempAM(oldTemp);
-                setTempPM("");
-              } else {
-                setWeatherAM("");
-                setWeatherPM(oldWeather);
-                setTempAM("");
-                setTempPM(oldTemp);
-              }
-              setCurrentPeriod("AM");
-            }
-            setActivityToday(dbReport.activityToday || "");
-            setWorkPlanNextDay(dbReport.workPlanNextDay || "");
-            setManagementTeam(ensureRowIds(dbReport.managementTeam || []));
-            setWorkingTeam(ensureRowIds(dbReport.workingTeam || []));
-            setMaterials(ensureRowIds(dbReport.materials || []));
-            setMachinery(ensureRowIds(dbReport.machinery || []));
-            return;
-          }
-
-          // Fallback to localStorage
-          const localDraft = loadDraftLocally(reportDate);
-          if (localDraft) {
-            setProjectName(localDraft.projectName || "");
-            // Handle backward compatibility
-            if (localDraft.weatherAM !== undefined) {
-              setWeatherAM(localDraft.weatherAM || "");
-              setWeatherPM(localDraft.weatherPM || "");
-              setTempAM(localDraft.tempAM || "");
-              setTempPM(localDraft.tempPM || "");
-              setCurrentPeriod(localDraft.currentPeriod || "AM");
-            } else {
-              const oldWeather = localDraft.weather || "Sunny";
-              const oldPeriod = localDraft.weatherPeriod || "AM";
-              const oldTemp = localDraft.temperature || "";
-              if (oldPeriod === "AM") {
-                setWeatherAM(oldWeather);
-                setWeatherPM("");
-                setTempAM(oldTemp);
-                setTempPM("");
-              } else {
-                setWeatherAM("");
-                setWeatherPM(oldWeather);
-                setTempAM("");
-                setTempPM(oldTemp);
-              }
-              setCurrentPeriod("AM");
-            }
-            setActivityToday(localDraft.activityToday || "");
-            setWorkPlanNextDay(localDraft.workPlanNextDay || "");
-            setManagementTeam(ensureRowIds(localDraft.managementTeam || []));
-            setWorkingTeam(ensureRowIds(localDraft.workingTeam || []));
-            setMaterials(ensureRowIds(localDraft.materials || []));
-            setMachinery(ensureRowIds(localDraft.machinery || []));
-            return;
-          }
-        } catch (e) {
-          console.error("Failed to load report for date:", e);
-        }
+      // No DB report, try localStorage
+      const localDraft = loadDraftLocally(reportDate, scopeProjectId, projectName);
+      if (localDraft) {
+        const referenceSections = await loadReferencePhotos(
+          localDraft.referenceSections
+        );
+        if (loadId !== loadIdRef.current) return;
+        fillForm({ ...localDraft, referenceSections });
+        return;
+      }
 
-        // No existing data: clear form to defaults
-        setProjectName("");
-        setWeatherAM("");
-        setWeatherPM("");
-        setTempAM("");
-        setTempPM("");
-        setCurrentPeriod("AM");
-        setActivityToday("");
-        setWorkPlanNextDay("");
-        setManagementTeam([]);
-        setWorkingTeam([]);
-        setMaterials([]);
-        setMachinery([]);
-      };
+      // No saved report on a date change: prefill from yesterday's totals
+      const yesterday = new Date(reportDate.getTime() - 86400000);
+      const prevData = prev ? loadDraftLocally(yesterday, scopeProjectId, projectName) : null;
+      if (prevData) {
+        // Copy prev-day accumulated -> today's prev
+        const mapPrevFromAccum = (rows: ResourceRow[]) =>
+          ensureRowIds(rows).map((r) => ({
+            ...r,
+            prev: r.accumulated,
+            today: 0,
+            accumulated: r.accumulated,
+          }));
+
+        clearForm();
+        setManagementTeam(mapPrevFromAccum(prevData.managementTeam || []));
+        setWorkingTeam(mapPrevFromAccum(prevData.workingTeam || []));
+        setMaterials(mapPrevFromAccum(prevData.materials || []));
+        setMachinery(mapPrevFromAccum(prevData.machinery || []));
+      } else if (!prev || projectChanged) {
+        // Never show another project's data
+        clearForm();
+      }
+    };
 
-      loadDataForDate();
-    }
+    loadScope();
+  }, [reportDate, projectId, projectName, getReportData, fillForm, clearForm]);
 
-    lastDateRef.current = newDateStr;
-  }, [reportDate, getReportData]);
+  useEffect(() => {
+    if (!reportDate) return;
+    let cancelled = false;
+    setPreviousPlan(null);
+    loadPreviousPlan(reportDate, projectId || undefined, projectName)
+      .then((plan) => !cancelled && setPreviousPlan(plan))
+      .catch((e) => console.error("Failed to load the previous work plan:", e));
+    return () => {
+      cancelled = true;
+    };
+  }, [reportDate, projectId, projectName]);
 
   // Save draft to localStorage (silent mode for auto-save)
   const saveDraft = useCallback(
     (silent = false) => {
+      if (isLocked) return;
       setIsSaving(true);
       try {
-        saveDraftLocally(reportDate, getReportData());
+        saveDraftLocally(reportDate, getReportData(), projectId || undefined);
         if (!silent) {
           toast({
             title: "Draft Saved",
@@ -694,9 +461,27 @@ const Index = () => {
       }
       setTimeout(() => setIsSaving(false), 500);
     },
-    [reportDate, getReportData, toast]
+    [reportDate, projectId, isLocked, getReportData, toast]
   );
 
+  // Keep picked photos in IndexedDB; drafts only store their keys
+  useEffect(() => {
+    storeReferencePhotos(referenceSections).catch((e) =>
+      console.error("Failed to store reference photos:", e)
+    );
+  }, [referenceSections]);
+
+  // Local photo copies are only kept while a draft or a queued save still needs them
+  const pruneLocalPhotos = async () => {
+    const outbox = await getOutbox();
+    await pruneReferencePhotos([
+      ...listLocalDrafts().map((d) => d.data.referenceSections ?? []),
+      ...outbox.map((e) =>
+        e.op.type === "save" ? ((e.op.report.referenceSections as Section[]) ?? []) : []
+      ),
+    ]);
+  };
+
   // Auto-save every 30 seconds
   useEffect(() => {
     const interval = setInterval(() => {
@@ -705,11 +490,138 @@ const Index = () => {
     return () => clearInterval(interval);
   }, [saveDraft]);
 
+  const selectedProject = getProject(projectId);
+
+  // Reviewer comments stay pinned until the returned report is resubmitted
+  const pinnedComments = reportStatus === "rejected" ? reviewComments : [];
+
+  const handleSelectProject = (project: Project) => {
+    setProjectId(project.id);
+    setProjectName(project.name);
+    localStorage.setItem(LAST_PROJECT_KEY, project.id);
+  };
+
+  // Keep the name in sync when the selected project is renamed
+  useEffect(() => {
+    if (selectedProject) setProjectName(selectedProject.name);
+  }, [selectedProject]);
+
+  const catalog = useMemo(
+    () => getProjectCatalog(selectedProject),
+    [selectedProject]
+  );
+
+  const handleSaveCatalog = async (next: ResourceCatalog) => {
+    if (!selectedProject) return;
+    try {
+      await upsertProject({ ...selectedProject, catalog: next });
+    } catch (e) {
+      toast({
+        title: "Catalog Not Saved",
+        description: e instanceof Error ? e.message : "Please try again.",
+        variant: "destructive",
+      });
+      throw e;
+    }
+  };
+
+  const handleAddToCatalog = async (
+    key: ResourceTableKey,
+    item: Omit<CatalogItem, "id">
+  ) => {
+    if (findCatalogItem(catalog[key], item.description)) return;
+    try {
+      await handleSaveCatalog({
+        ...catalog,
+        [key]: [...catalog[key], { id: crypto.randomUUID(), ...item }],
+      });
+      toast({
+        title: "Added to Catalog",
+        description: `"${item.description}" is now suggested for ${selectedProject?.name}.`,
+      });
+    } catch {
+      // handleSaveCatalog already reported the failure
+    }
+  };
+
+  // Data shape expected by the client-side export utilities
+  const getExportData = () => ({
+    projectName,
+    reportDate,
+    weatherAM,
+    weatherPM,
+    tempAM,
+    tempPM,
+    weatherLog,
+    weatherDelays,
+    activityToday,
+    workPlanNextDay,
+    managementTeam,
+    workingTeam,
+    materials,
+    machinery,
+    revision,
+    signatures,
+    ...resolveProjectLogos(selectedProject),
+  });
+
+  // Reference photos inlined for the exporters, with capture time/location if requested
+  const getExportSections = () =>
+    toDataUrlSections(
+      photoMetadataInCaptions
+        ? withMetadataCaptions(referenceSections)
+        : referenceSections
+    );
+
+  // Full client-side PDF: the report plus the reference photo sheet
+  const getFullPdfData = async () => ({
+    ...getExportData(),
+    referenceSections: await getExportSections(),
+    referenceTitle: tableTitle,
+  });
+
+  const handleExcelEngineChange = (engine: ExcelEngine) => {
+    setExcelEngine(engine);
+    setExcelEngineState(engine);
+  };
+
+  const browserFallbackNote = (fellBack: boolean) =>
+    fellBack ? " The Python service was unavailable, so it was generated in the browser." : "";
+
+  // Logos in the shape the Python service expects
+  const getPythonLogos = () => {
+    const { cacpmLogo, koicaLogo } = resolveProjectLogos(selectedProject);
+    return { cacpm_logo: cacpmLogo, koica_logo: koicaLogo };
+  };
+
+  // The report sheet as the Python service expects it. The service fills the
+  // ten activity rows itself; the lines past them go on a continuation page.
+  const getPythonReportPayload = () => ({
+    projectName,
+    reportDate: reportDate?.toISOString(),
+    weatherAM,
+    weatherPM,
+    tempAM,
+    tempPM,
+    weatherLog,
+    weatherDelays,
+    activityToday,
+    workPlanNextDay,
+    activityOverflow: activityOverflow({ activityToday, workPlanNextDay }),
+    managementTeam,
+    workingTeam,
+    materials,
+    machinery,
+    revision,
+    signatures,
+    ...getPythonLogos(),
+  });
+
   const validateReport = (): boolean => {
-    if (!projectName.trim()) {
+    if (!projectId) {
       toast({
         title: "Validation Error",
-        description: "Project name is required.",
+        description: "Please select a project.",
         variant: "destructive",
       });
       return false;
@@ -730,6 +642,21 @@ const Index = () => {
       });
       return false;
     }
+    const issues = resourceIssues({ managementTeam, workingTeam, materials, machinery });
+    if (issues.length > 0) {
+      const [first] = issues;
+      toast({
+        title: "Check the Resource Tables",
+        description: `${describeIssue(first)}${
+          issues.length > 1 ? ` (and ${issues.length - 1} more)` : ""
+        }`,
+        variant: "destructive",
+      });
+      const row = document.getElementById(resourceRowId(first.table, first.rowId));
+      row?.scrollIntoView({ behavior: "smooth", block: "center" });
+      row?.querySelector<HTMLElement>("[aria-invalid='true'], input")?.focus({ preventScroll: true });
+      return false;
+    }
     return true;
   };
 
@@ -738,20 +665,7 @@ const Index = () => {
 
     setIsExporting(true);
     try {
-      await exportToPDF({
-        projectName,
-        reportDate,
-        weatherAM,
-        weatherPM,
-        tempAM,
-        tempPM,
-        activityToday,
-        workPlanNextDay,
-        managementTeam,
-        workingTeam,
-        materials,
-        machinery,
-      });
+      await exportToPDF(getExportData());
       toast({
         title: "PDF Exported",
         description: "Your report has been exported as PDF successfully.",
@@ -766,29 +680,15 @@ const Index = () => {
     setIsExporting(false);
   };
 
-  const handlePreview = async () => {
+  const handlePreview = async (full = false) => {
     if (!validateReport()) return;
 
     setIsPreviewing(true);
     try {
-      const url = (await exportToPDF(
-        {
-          projectName,
-          reportDate,
-          weatherAM,
-          weatherPM,
-          tempAM,
-          tempPM,
-          activityToday,
-          workPlanNextDay,
-          managementTeam,
-          workingTeam,
-          materials,
-          machinery,
-        },
-        true
-      )) as string;
+      const data = full ? await getFullPdfData() : getExportData();
+      const url = (await exportToPDF(data, true)) as string;
 
+      setPreviewIsFull(full);
       setPreviewUrl(url);
       setShowPreview(true);
     } catch (e) {
@@ -803,20 +703,7 @@ const Index = () => {
 
   const handleDownloadFromPreview = async () => {
     try {
-      await exportToPDF({
-        projectName,
-        reportDate,
-        weatherAM,
-        weatherPM,
-        tempAM,
-        tempPM,
-        activityToday,
-        workPlanNextDay,
-        managementTeam,
-        workingTeam,
-        materials,
-        machinery,
-      });
+      await exportToPDF(previewIsFull ? await getFullPdfData() : getExportData());
       toast({
         title: "PDF Exported",
         description: "Your report has been exported as PDF successfully.",
@@ -847,27 +734,18 @@ const Index = () => {
     setIsExporting(true);
     try {
       // Prepare payload for Python backend
-      const payload = {
-        projectName,
-        reportDate: reportDate?.toISOString(),
-        weatherAM,
-        weatherPM,
-        tempAM,
-        tempPM,
-        activityToday,
-        workPlanNextDay,
-        managementTeam,
-        workingTeam,
-        materials,
-        machinery,
-      };
+      const payload = getPythonReportPayload();
 
       // Call Python API with custom filename
-      await generatePythonExcel(payload, "report", fileName);
+      const { fellBack } = await runExcelExport(
+        excelEngine,
+        () => generatePythonExcel(payload, "report", fileName),
+        () => exportToExcel(getExportData(), fileName)
+      );
 
       toast({
         title: "Excel Exported",
-        description: "Your report has been exported successfully.",
+        description: `Your report has been exported successfully.${browserFallbackNote(fellBack)}`,
       });
     } catch (error) {
       console.error("Export Error:", error);
@@ -875,7 +753,9 @@ const Index = () => {
         variant: "destructive",
         title: "Export Failed",
         description:
-          "Could not connect to Python server. Ensure it's running on port 5001.",
+          excelEngine === "server"
+            ? "Could not connect to Python server. Ensure it's running on port 5001."
+            : "Could not generate the Excel file. Please try again.",
       });
     } finally {
       setIsExporting(false);
@@ -896,64 +776,17 @@ const Index = () => {
   const handleExportReferenceWithFilename = async (fileName: string) => {
     setIsExportingReference(true);
     try {
-      const toBase64DataUrl = async (img: unknown): Promise<string | null> => {
-        if (!img) return null;
-
-        // Case 1: already a string (blob URL, data URL, http URL, etc.)
-        if (typeof img === "string") {
-          if (!img.startsWith("blob:")) return img;
-
-          const resp = await fetch(img);
-          const blob = await resp.blob();
-
-          return await new Promise<string>((resolve, reject) => {
-            const reader = new FileReader();
-            reader.onloadend = () => resolve(String(reader.result));
-            reader.onerror = reject;
-            reader.readAsDataURL(blob);
-          });
-        }
-
-        // Case 2: File object (common)
-        if (img instanceof File) {
-          return await new Promise<string>((resolve, reject) => {
-            const reader = new FileReader();
-            reader.onloadend = () => resolve(String(reader.result));
-            reader.onerror = reject;
-            reader.readAsDataURL(img);
-          });
-        }
+      const processedSections = await getExportSections();
 
-        // Case 3: unknown object shape (skip it safely)
-        return null;
-      };
-
-      const processImages = async (sectionsArr: Section[]) => {
-        return await Promise.all(
-          sectionsArr.map(async (sec: Section) => {
-            const newEntries = await Promise.all(
-              (sec.entries ?? []).map(async (entry: Entry) => {
-                const newSlots = await Promise.all(
-                  (entry.slots ?? []).map(async (slot: Slot) => ({
-                    ...slot,
-                    image: await toBase64DataUrl(slot.image),
-                  }))
-                );
-                return { ...entry, slots: newSlots };
-              })
-            );
-            return { ...sec, entries: newEntries };
-          })
-        );
-      };
-
-      const processedSections = await processImages(referenceSections);
-
-      await generateReferenceExcel(processedSections, tableTitle, fileName);
+      const { fellBack } = await runExcelExport(
+        excelEngine,
+        () => generateReferenceExcel(processedSections, tableTitle, fileName),
+        () => exportReferenceExcelLocally(processedSections, tableTitle, fileName)
+      );
 
       toast({
         title: "Reference Excel Exported",
-        description: "Reference section exported successfully.",
+        description: `Reference section exported successfully.${browserFallbackNote(fellBack)}`,
       });
     } catch (e) {
       console.error("Reference Export Error:", e);
@@ -961,7 +794,9 @@ const Index = () => {
         variant: "destructive",
         title: "Export Failed",
         description:
-          "Could not generate reference Excel. Ensure Python server is running.",
+          excelEngine === "server"
+            ? "Could not generate reference Excel. Ensure Python server is running."
+            : "Could not generate reference Excel. Please try again.",
       });
     } finally {
       setIsExportingReference(false);
@@ -989,102 +824,58 @@ const Index = () => {
         "DEBUG FRONTEND: About to save report to DB before combined export"
       );
 
-      // Step 1: Save report to database first (same logic as submit)
-      const rawData = getReportData();
-      const cleanedData = {
-        ...rawData,
-        managementTeam: cleanResourceRows(rawData.managementTeam),
-        workingTeam: cleanResourceRows(rawData.workingTeam),
-        materials: cleanResourceRows(rawData.materials),
-        machinery: cleanResourceRows(rawData.machinery),
-      };
-
-      // Save to database
-      await saveReportToDB(cleanedData);
+      // Step 1: Save report to database first (same logic as submit).
+      // Submitted reports are exported as they are.
+      if (!isLocked) {
+        const cleanedData = await prepareReportForServer();
+
+        // Save to database, or queue it when offline so the export still works
+        const saved = await sendOrQueue({
+          type: "save",
+          report: { ...cleanedData, baseUpdatedAt: serverUpdatedAtRef.current },
+        });
+        if (saved.queued) {
+          toast({
+            title: "Saved Offline",
+            description: "The report will be saved to the server when you reconnect.",
+          });
+        } else {
+          serverUpdatedAtRef.current =
+            (saved.result as { updatedAt?: string })?.updatedAt ??
+            serverUpdatedAtRef.current;
+        }
+      }
 
       // DEBUG: Confirm save completed
       console.log(
         "DEBUG FRONTEND: Save to DB completed successfully, proceeding with export"
       );
 
-      const toBase64DataUrl = async (img: unknown): Promise<string | null> => {
-        if (!img) return null;
-
-        // Case 1: already a string (blob URL, data URL, http URL, etc.)
-        if (typeof img === "string") {
-          if (!img.startsWith("blob:")) return img;
-
-          const resp = await fetch(img);
-          const blob = await resp.blob();
-
-          return await new Promise<string>((resolve, reject) => {
-            const reader = new FileReader();
-            reader.onloadend = () => resolve(String(reader.result));
-            reader.onerror = reject;
-            reader.readAsDataURL(blob);
-          });
-        }
-
-        // Case 2: File object (common)
-        if (img instanceof File) {
-          return await new Promise<string>((resolve, reject) => {
-            const reader = new FileReader();
-            reader.onloadend = () => resolve(String(reader.result));
-            reader.onerror = reject;
-            reader.readAsDataURL(img);
-          });
-        }
-
-        // Case 3: unknown object shape (skip it safely)
-        return null;
-      };
-
-      const processImages = async (sectionsArr: Section[]) => {
-        return await Promise.all(
-          sectionsArr.map(async (sec: Section) => {
-            const newEntries = await Promise.all(
-              (sec.entries ?? []).map(async (entry: Entry) => {
-                const newSlots = await Promise.all(
-                  (entry.slots ?? []).map(async (slot: Slot) => ({
-                    ...slot,
-                    image: await toBase64DataUrl(slot.image),
-                  }))
-                );
-                return { ...entry, slots: newSlots };
-              })
-            );
-            return { ...sec, entries: newEntries };
-          })
-        );
-      };
-
-      const processedSections = await processImages(referenceSections);
-
-      const reportPayload = {
-        projectName,
-        reportDate: reportDate?.toISOString(),
-        weatherAM,
-        weatherPM,
-        tempAM,
-        tempPM,
-        activityToday,
-        workPlanNextDay,
-        managementTeam,
-        workingTeam,
-        materials,
-        machinery,
-      };
-
-      await generateCombinedExcel(
-        reportPayload,
-        processedSections,
-        tableTitle,
-        fileName
+      const processedSections = await getExportSections();
+
+      const reportPayload = getPythonReportPayload();
+
+      const { fellBack } = await runExcelExport(
+        excelEngine,
+        () =>
+          generateCombinedExcel(
+            reportPayload,
+            processedSections,
+            tableTitle,
+            fileName
+          ),
+        () =>
+          exportCombinedExcelLocally(
+            getExportData(),
+            processedSections,
+            tableTitle,
+            fileName
+          )
       );
 
       toast({
         title: "Combined Excel Exported",
-        description: "Report saved to database and exported successfully.",
+        description: `Report saved to database and exported successfully.${browserFallbackNote(fellBack)}`,
       });
     } catch (e) {
       console.error("Combined Export Error:", e);
@@ -1099,25 +890,34 @@ const Index = () => {
     }
   };
 
+  const handleExportCombinedPDF = async () => {
+    if (!validateReport()) return;
+
+    setIsExportingCombined(true);
+    try {
+      await exportToPDF(await getFullPdfData());
+      toast({
+        title: "Combined PDF Exported",
+        description: "Report and reference photos exported as one PDF.",
+      });
+    } catch (e) {
+      console.error("Combined PDF Error:", e);
+      toast({
+        title: "Export Failed",
+        description: "Could not export combined PDF. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsExportingCombined(false);
+    }
+  };
+
   const handleExportDocs = async () => {
     if (!validateReport()) return;
 
     setIsExporting(true);
     try {
-      await exportToWord({
-        projectName,
-        reportDate,
-        weatherAM,
-        weatherPM,
-        tempAM,
-        tempPM,
-        activityToday,
-        workPlanNextDay,
-        managementTeam,
-        workingTeam,
-        materials,
-        machinery,
-      });
+      await exportToWord(getExportData());
       toast({
         title: "Word Document Exported",
         description:
@@ -1138,20 +938,7 @@ const Index = () => {
 
     setIsExporting(true);
     try {
-      await exportToZIP({
-        projectName,
-        reportDate,
-        weatherAM,
-        weatherPM,
-        tempAM,
-        tempPM,
-        activityToday,
-        workPlanNextDay,
-        managementTeam,
-        workingTeam,
-        materials,
-        machinery,
-      });
+      await exportToZIP(getExportData());
 
       toast({
         title: "Export Completed",
@@ -1169,21 +956,11 @@ const Index = () => {
   };
 
   const handleClear = () => {
-    setProjectName("");
     setReportDate(new Date());
-    setWeatherAM("");
-    setWeatherPM("");
-    setTempAM("");
-    setTempPM("");
-    setCurrentPeriod("AM");
-    setActivityToday("");
-    setWorkPlanNextDay("");
-    setManagementTeam([]);
-    setWorkingTeam([]);
-    setMaterials([]);
-    setMachinery([]);
-    // Clear localStorage for current date
-    localStorage.removeItem(dateKey(reportDate));
+    clearForm();
+    // Clear localStorage for current project and date
+    removeDraftLocally(reportDate, projectId || undefined);
+    pruneLocalPhotos().catch((e) => console.error("Failed to prune reference photos:", e));
     toast({
       title: "Data Cleared",
       description: "All form data has been cleared.",
@@ -1210,36 +987,186 @@ const Index = () => {
       }));
   };
 
+  // Clean empty rows and swap local photos for uploaded URLs before saving.
+  // A submit locks the report, so it stops here unless every photo made it.
+  const prepareReportForServer = async (forSubmit = false) => {
+    const rawData = getReportData();
+    const { sections, failed } = await uploadReferencePhotos(
+      rawData.referenceSections || [],
+      {
+        projectId: projectId || undefined,
+        reportDate: reportDate ? localDateString(reportDate) : undefined,
+      },
+      uploadReferencePhoto
+    );
+    if (failed > 0 && forSubmit) {
+      throw new Error(
+        `${failed} photo(s) could not be uploaded. Submit again once you are back online.`
+      );
+    }
+    if (failed > 0) {
+      toast({
+        title: "Photos Not Uploaded",
+        description: `${failed} photo(s) are kept on this device and will be uploaded on the next save.`,
+      });
+    }
+
+    return {
+      ...rawData,
+      managementTeam: cleanResourceRows(rawData.managementTeam),
+      workingTeam: cleanResourceRows(rawData.workingTeam),
+      materials: cleanResourceRows(rawData.materials),
+      machinery: cleanResourceRows(rawData.machinery),
+      referenceSections: sections,
+    };
+  };
+
+  const handleAmend = async (reason: string) => {
+    try {
+      const amended = await amendReportInDB(
+        { projectId, projectName, reportDate: localDateString(reportDate!) },
+        reason
+      );
+      const nextRevision = amended?.revision ?? revision + 1;
+      setRevision(nextRevision);
+      setAmendments(
+        amended?.amendments ?? [
+          ...amendments,
+          { revision: nextRevision, reason, amendedAt: new Date().toISOString() },
+        ]
+      );
+      setReportStatus(amended?.status ?? "draft");
+      // The new revision has to be signed off again
+      setSignatures([]);
+      serverUpdatedAtRef.current = amended?.updatedAt ?? serverUpdatedAtRef.current;
+      toast({
+        title: `Amending Rev. ${nextRevision}`,
+        description: "The report is editable again. Sign and submit it when you're done.",
+      });
+      return true;
+    } catch (e) {
+      toast({
+        title: "Amend Failed",
+        description: e instanceof Error ? e.message : "Could not amend report.",
+        variant: "destructive",
+      });
+      return false;
+    }
+  };
+
+  // "Start from…": only the chosen parts are replaced
+  const handleStartFrom = (
+    source: Partial<ReportData>,
+    parts: CopyPart[],
+    from: string
+  ) => {
+    const copied = copyReportParts(source, parts);
+    if (parts.includes("projectInfo")) {
+      setWeatherAM(copied.weatherAM || "");
+      setWeatherPM(copied.weatherPM || "");
+      setTempAM(copied.tempAM || "");
+      setTempPM(copied.tempPM || "");
+      setCurrentPeriod(copied.currentPeriod || "AM");
+    }
+    if (parts.includes("activities")) {
+      setActivityToday(copied.activityToday || "");
+      setActivityMode(copied.activityMode || "text");
+      setActivityItems(copied.activityItems || []);
+    }
+    if (parts.includes("resources")) {
+      setManagementTeam(copied.managementTeam || []);
+      setWorkingTeam(copied.workingTeam || []);
+      setMaterials(copied.materials || []);
+      setMachinery(copied.machinery || []);
+    }
+    if (parts.includes("referenceTitles")) {
+      setReferenceSections(copied.referenceSections || []);
+    }
+    toast({
+      title: "Report Prefilled",
+      description: from ? `Copied from ${from}.` : "Copied the selected parts.",
+    });
+  };
+
+  // The chain is seeded from what is stored, so unsaved edits are saved first
+  const handleRecalculateTotals = async () => {
+    if (isLocked) {
+      setRecalcStart(getReportData());
+      return;
+    }
+    try {
+      const cleanedData = await prepareReportForServer();
+      const saved = await sendOrQueue({
+        type: "save",
+        report: { ...cleanedData, baseUpdatedAt: serverUpdatedAtRef.current },
+      });
+      if (!saved.queued) {
+        serverUpdatedAtRef.current =
+          (saved.result as { updatedAt?: string })?.updatedAt ??
+          serverUpdatedAtRef.current;
+      }
+      setRecalcStart(cleanedData);
+    } catch (e) {
+      toast({
+        title: "Save Failed",
+        description:
+          e instanceof ReportConflictError
+            ? `${e.message} Reload the report before recalculating.`
+            : e instanceof Error
+              ? e.message
+              : "Could not save the report.",
+        variant: "destructive",
+      });
+    }
+  };
+
   const handleSubmit = async () => {
-    if (!validateReport()) return;
+    if (isLocked || !validateReport()) return;
+
+    const missing = missingSignatures(signatures);
+    if (missing.length > 0) {
+      toast({
+        title: "Signatures Required",
+        description: `Capture the ${missing
+          .map((role) => SIGNATURE_ROLE_LABELS[role])
+          .join(" and ")} signature before submitting.`,
+        variant: "destructive",
+      });
+      return;
+    }
 
     setIsSubmitting(true);
     try {
-      // Prepare report data and clean empty rows
-      const rawData = getReportData();
-      const cleanedData = {
-        ...rawData,
-        managementTeam: cleanResourceRows(rawData.managementTeam),
-        workingTeam: cleanResourceRows(rawData.workingTeam),
-        materials: cleanResourceRows(rawData.materials),
-        machinery: cleanResourceRows(rawData.machinery),
-      };
+      // Prepare report data, clean empty rows and upload photos
+      const cleanedData = await prepareReportForServer(true);
 
-      // Step 1: Save the report data to database
-      await saveReportToDB(cleanedData);
+      // Step 1: Save the report data to database (queued while offline)
+      const saved = await sendOrQueue({
+        type: "save",
+        report: { ...cleanedData, baseUpdatedAt: serverUpdatedAtRef.current },
+      });
 
       // Step 2: Mark it as submitted (changes status)
-      await submitReportToDB(
-        cleanedData.projectName,
-        new Date(cleanedData.reportDate!)
-      );
+      const submitted = await sendOrQueue({
+        type: "submit",
+        projectId,
+        projectName: cleanedData.projectName,
+        reportDate: localDateString(reportDate!),
+      });
+      const queued = saved.queued || submitted.queued;
+      setReportStatus("submitted");
 
-      // Step 3: Clear localStorage after successful submission
-      localStorage.removeItem(dateKey(reportDate));
+      // Step 3: Clear localStorage after successful submission. Every photo is
+      // on the server by now, so the local copies go too.
+      removeDraftLocally(reportDate, projectId);
+      deleteSectionPhotos(cleanedData.referenceSections)
+        .then(pruneLocalPhotos)
+        .catch((e) => console.error("Failed to remove local reference photos:", e));
 
       // Step 4: Prepare next day's data (Running Total / Carry-Forward)
       const nextDay = new Date(reportDate!.getTime() + 86400000);
       const carryForwardData = {
+        projectId,
         projectName: cleanedData.projectName,
         reportDate: nextDay.toISOString(),
         weatherAM: "",
@@ -1248,42 +1175,34 @@ const Index = () => {
         tempPM: "",
         activityToday: "",
         workPlanNextDay: "",
-        managementTeam: cleanedData.managementTeam.map((r) => ({
-          ...r,
-          prev: r.accumulated, // ✅ Carry forward accumulated to prev
-          today: 0,
-          accumulated: r.accumulated,
-        })),
-        workingTeam: cleanedData.workingTeam.map((r) => ({
-          ...r,
-          prev: r.accumulated,
-          today: 0,
-          accumulated: r.accumulated,
-        })),
-        materials: cleanedData.materials.map((r) => ({
-          ...r,
-          prev: r.accumulated,
-          today: 0,
-          accumulated: r.accumulated,
-        })),
-        machinery: cleanedData.machinery.map((r) => ({
-          ...r,
-          prev: r.accumulated,
-          today: 0,
-          accumulated: r.accumulated,
-        })),
+        activityMode: cleanedData.activityMode,
+        // ✅ Carry forward accumulated to prev
+        managementTeam: carryForwardRows(cleanedData.managementTeam),
+        workingTeam: carryForwardRows(cleanedData.workingTeam),
+        materials: carryForwardRows(cleanedData.materials),
+        machinery: carryForwardRows(cleanedData.machinery),
       };
 
       // Save next day's template locally
-      saveDraftLocally(nextDay, carryForwardData);
+      saveDraftLocally(nextDay, carryForwardData, projectId);
 
       toast({
-        title: "Report Submitted",
-        description:
-          "Your report has been submitted successfully. Tomorrow's report is ready with carried-forward totals.",
+        title: queued ? "Submission Queued" : "Report Submitted",
+        description: queued
+          ? "You are offline. The report will be submitted automatically when you reconnect."
+          : "Your report has been submitted successfully. Tomorrow's report is ready with carried-forward totals.",
         duration: 5000,
       });
     } catch (e: unknown) {
+      if (e instanceof ReportConflictError) {
+        toast({
+          title: "Report Changed on Server",
+          description: `${e.message} Reload the report to see the latest version before submitting.`,
+          variant: "destructive",
+        });
+        setIsSubmitting(false);
+        return;
+      }
       const errorMessage =
         e instanceof Error
           ? e.message
@@ -1299,12 +1218,15 @@ const Index = () => {
 
   return (
     <div className="min-h-screen bg-background">
-      <ReportHeader />
+      <ReportHeader project={selectedProject} />
 
       <main className="max-w-7xl mx-auto px-4 sm:px-6 py-6 space-y-6">
         <ProjectInfo
+          projects={projects}
+          projectId={projectId}
           projectName={projectName}
-          setProjectName={setProjectName}
+          onSelectProject={handleSelectProject}
+          onSaveProject={upsertProject}
           reportDate={reportDate}
           setReportDate={setReportDate}
           weatherAM={weatherAM}
@@ -1317,18 +1239,90 @@ const Index = () => {
           setTempPM={setTempPM}
           currentPeriod={currentPeriod}
           setCurrentPeriod={setCurrentPeriod}
+          readOnly={isLocked}
+        />
+
+        <WeatherLogSection
+          weatherLog={weatherLog}
+          setWeatherLog={setWeatherLog}
+          weatherDelays={weatherDelays}
+          setWeatherDelays={setWeatherDelays}
+          readOnly={isLocked}
         />
 
+        {isLocked && (
+          <div className="section-card p-4 border-success/40">
+            <h2 className="font-semibold text-foreground">
+              {reportStatus === "approved" ? "Approved" : "Submitted"} · Rev.{" "}
+              {revision}
+            </h2>
+            <p className="text-sm text-muted-foreground">
+              This report is read-only. Use Amend to create a new revision.
+            </p>
+          </div>
+        )}
+
+        {!isLocked && revision > 0 && amendments.length > 0 && (
+          <div className="section-card p-4 border-warning/40">
+            <h2 className="font-semibold text-foreground">
+              Amending · Rev. {revision}
+            </h2>
+            <p className="text-sm text-muted-foreground">
+              {amendments[amendments.length - 1].reason}
+            </p>
+          </div>
+        )}
+
+        {reportStatus === "rejected" && (
+          <div className="section-card p-4 space-y-3 border-warning/40">
+            <div>
+              <h2 className="font-semibold text-foreground">
+                Returned for changes
+              </h2>
+              <p className="text-sm text-muted-foreground">
+                Address the reviewer comments next to each section, then
+                submit the report again.
+              </p>
+            </div>
+            <ReviewComments comments={commentsFor(pinnedComments, "general")} />
+          </div>
+        )}
+
         {/* Report section label for clarity */}
-        <div className="mb-2 mt-2">
+        <div className="mb-2 mt-2 flex items-center justify-between">
           <h2 className="text-sm font-semibold text-foreground/80">Report</h2>
+          {!isLocked && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setShowStartFrom(true)}
+            >
+              <CopyPlus className="w-4 h-4 mr-2" />
+              Start from…
+            </Button>
+          )}
         </div>
 
+        <PlanReviewSection
+          previousPlan={previousPlan}
+          planChecks={planChecks}
+          setPlanChecks={setPlanChecks}
+          readOnly={isLocked}
+        />
+
         <ActivitySection
           activityToday={activityToday}
           setActivityToday={setActivityToday}
           workPlanNextDay={workPlanNextDay}
           setWorkPlanNextDay={setWorkPlanNextDay}
+          activityMode={activityMode}
+          setActivityMode={setActivityMode}
+          activityItems={activityItems}
+          setActivityItems={setActivityItems}
+          planItems={planItems}
+          setPlanItems={setPlanItems}
+          reviewComments={commentsFor(pinnedComments, "activities")}
+          readOnly={isLocked}
         />
 
         <ResourcesSection
@@ -1340,10 +1334,23 @@ const Index = () => {
           setMaterials={setMaterials}
           machinery={machinery}
           setMachinery={setMachinery}
+          reviewComments={pinnedComments}
+          readOnly={isLocked}
+          projectName={selectedProject?.name}
+          catalog={catalog}
+          onAddToCatalog={selectedProject ? handleAddToCatalog : undefined}
+          onSaveCatalog={selectedProject ? handleSaveCatalog : undefined}
+        />
+
+        <SignatureSection
+          signatures={signatures}
+          setSignatures={setSignatures}
+          defaultName={getCurrentUser()?.name}
+          readOnly={isLocked}
         />
 
         <ReportActions
-          onPreview={handlePreview}
+          onPreview={() => handlePreview()}
           onExportPDF={handleExportPDF}
           onExportExcel={handleExportExcel}
           onExportDocs={handleExportDocs}
@@ -1353,6 +1360,44 @@ const Index = () => {
           isPreviewing={isPreviewing}
           isExporting={isExporting}
           isSubmitting={isSubmitting}
+          isLocked={isLocked}
+          onAmend={() => setShowAmendDialog(true)}
+          onShowHistory={() => setShowHistory(true)}
+          onRecalculateTotals={
+            reportDate ? handleRecalculateTotals : undefined
+          }
+        />
+
+        <RecalculateTotalsDialog
+          onClose={() => setRecalcStart(null)}
+          startReport={recalcStart}
+          startDate={reportDate ? localDateString(reportDate) : ""}
+          projectId={projectId || undefined}
+          projectName={projectName}
+        />
+
+        <VersionHistoryPanel
+          open={showHistory}
+          onOpenChange={setShowHistory}
+          reportDate={reportDate}
+          projectId={projectId || undefined}
+        />
+
+        <StartFromDialog
+          open={showStartFrom}
+          onClose={() => setShowStartFrom(false)}
+          reportDate={reportDate}
+          projectId={projectId || undefined}
+          projectName={projectName}
+          getCurrentReport={getReportData}
+          onApply={handleStartFrom}
+        />
+
+        <AmendDialog
+          open={showAmendDialog}
+          onClose={() => setShowAmendDialog(false)}
+          nextRevision={revision + 1}
+          onConfirm={handleAmend}
         />
 
         {/* Reference section (renders below Report content) */}
@@ -1368,6 +1413,11 @@ const Index = () => {
               isExporting={isExportingReference}
               tableTitle={tableTitle}
               setTableTitle={setTableTitle}
+              reviewComments={commentsFor(pinnedComments, "reference")}
+              readOnly={isLocked}
+              reportDate={reportDate}
+              photoMetadataInCaptions={photoMetadataInCaptions}
+              setPhotoMetadataInCaptions={setPhotoMetadataInCaptions}
             />
           </div>
         </div>
@@ -1382,12 +1432,15 @@ const Index = () => {
               Sheet 2
             </div>
             <div className="flex items-center gap-3">
-              {/* DISABLED: Preview Combined button - commented out to disable
-              <Button variant="outline" className="min-w-[140px]">
+              <Button
+                variant="outline"
+                className="min-w-[140px]"
+                onClick={() => handlePreview(true)}
+                disabled={isPreviewing}
+              >
                 <Eye className="w-4 h-4 mr-2" />
-                Preview Combined
+                {isPreviewing ? "Loading..." : "Preview Combined"}
               </Button>
-              */}
               <DropdownMenu>
                 <DropdownMenuTrigger asChild>
                   <Button
@@ -1401,12 +1454,13 @@ const Index = () => {
                   </Button>
                 </DropdownMenuTrigger>
                 <DropdownMenuContent align="end">
-                  {/* DISABLED: Export Combined PDF - commented out
-                  <DropdownMenuItem>
+                  <DropdownMenuItem
+                    onClick={handleExportCombinedPDF}
+                    disabled={isExportingCombined}
+                  >
                     <FileText className="w-4 h-4 mr-2" />
                     Export Combined PDF
                   </DropdownMenuItem>
-                  */}
                   <DropdownMenuItem
                     onClick={handleExportCombinedExcel}
                     disabled={isExportingCombined}
@@ -1414,6 +1468,20 @@ const Index = () => {
                     <FileSpreadsheet className="w-4 h-4 mr-2" />
                     Export Combined Excel
                   </DropdownMenuItem>
+                  <DropdownMenuSeparator />
+                  <DropdownMenuLabel className="text-xs font-normal text-muted-foreground">
+                    Generate Excel with
+                  </DropdownMenuLabel>
+                  <DropdownMenuRadioGroup
+                    value={excelEngine}
+                    onValueChange={(v) => handleExcelEngineChange(v as ExcelEngine)}
+                  >
+                    {(Object.keys(EXCEL_ENGINE_LABELS) as ExcelEngine[]).map((engine) => (
+                      <DropdownMenuRadioItem key={engine} value={engine}>
+                        {EXCEL_ENGINE_LABELS[engine]}
+                      </DropdownMenuRadioItem>
+                    ))}
+                  </DropdownMenuRadioGroup>
                   {/* DISABLED: Export Combined Docs - commented out
                   <DropdownMenuItem>
                     <FileType className="w-4 h-4 mr-2" />
@@ -1441,6 +1509,7 @@ const Index = () => {
             }
           }}
           pdfUrl={previewUrl}
+          onDownload={handleDownloadFromPreview}
         />
 
         <FileNameDialog
@@ -19,6 +19,7 @@ import {
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { useToast } from "@/hooks/use-toast";
 import { API_ENDPOINTS } from "@/config/api";
+import { storeCurrentUser } from "@/lib/currentUser";
 
 const loginSchema = z.object({
   email: z.string().email("Please enter a valid email address"),
@@ -75,6 +76,7 @@ const Login = () => {
 
       // Store token securely
       localStorage.setItem("token", result.token);
+      storeCurrentUser(result.user);
       if (data.rememberMe) {
         localStorage.setItem("rememberMe", "true");
       }
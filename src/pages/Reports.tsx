@@ -0,0 +1,266 @@
+import { useEffect, useMemo, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { format } from "date-fns";
+import { CalendarDays, FileText, Loader2 } from "lucide-react";
+
+import ReportHeader from "@/components/ReportHeader";
+import { Calendar } from "@/components/ui/calendar";
+import { Badge } from "@/components/ui/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { useProjects } from "@/hooks/useProjects";
+import { listReportsFromDB } from "@/integrations/reportsApi";
+import { listLocalDrafts, localDateString } from "@/lib/storageUtils";
+import { ReportStatus, ReportSummary } from "@/types/report";
+
+type HistoryStatus = "local" | ReportStatus;
+
+interface HistoryRow {
+  date: string; // YYYY-MM-DD
+  projectId?: string;
+  projectName: string;
+  status: HistoryStatus;
+  updatedAt?: string;
+}
+
+const STATUS_LABELS: Record<HistoryStatus, string> = {
+  local: "Local draft",
+  draft: "Saved draft",
+  submitted: "Submitted",
+  reviewed: "Reviewed",
+  approved: "Approved",
+  rejected: "Returned",
+};
+
+const STATUS_CLASSES: Record<HistoryStatus, string> = {
+  local: "bg-warning/15 text-warning border-warning/30",
+  draft: "bg-primary/10 text-primary border-primary/30",
+  submitted: "bg-success/15 text-success border-success/30",
+  reviewed: "bg-success/15 text-success border-success/30",
+  approved: "bg-success/30 text-success border-success/50 font-semibold",
+  rejected: "bg-destructive/10 text-destructive border-destructive/30",
+};
+
+// Calendar groups: anything past "submitted" is shown as submitted
+const CALENDAR_GROUP: Record<HistoryStatus, "local" | "draft" | "submitted" | "rejected"> = {
+  local: "local",
+  draft: "draft",
+  submitted: "submitted",
+  reviewed: "submitted",
+  approved: "submitted",
+  rejected: "rejected",
+};
+
+const toDay = (dateStr: string) => new Date(`${dateStr}T00:00:00`);
+
+const Reports = () => {
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const { getProject } = useProjects();
+  const [serverReports, setServerReports] = useState<ReportSummary[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [month, setMonth] = useState<Date>(new Date());
+
+  // Drafts only change while the report form is open, so read them once
+  const localDrafts = useMemo(() => listLocalDrafts(), []);
+
+  useEffect(() => {
+    const loadReports = async () => {
+      try {
+        setServerReports(await listReportsFromDB());
+      } catch (e) {
+        console.error("Failed to load report history:", e);
+        toast({
+          title: "Could not load reports",
+          description:
+            e instanceof Error
+              ? e.message
+              : "Showing local drafts only. Please try again later.",
+          variant: "destructive",
+        });
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    loadReports();
+  }, [toast]);
+
+  // Server rows win over a local draft for the same day and project
+  const rows = useMemo<HistoryRow[]>(() => {
+    const merged = new Map<string, HistoryRow>();
+
+    localDrafts.forEach(({ date, projectId, data }) => {
+      const scope = projectId || data.projectName || "";
+      merged.set(`${date}|${scope}`, {
+        date,
+        projectId,
+        projectName: data.projectName || "",
+        status: "local",
+        updatedAt: data.updatedAt,
+      });
+    });
+
+    serverReports.forEach((r) => {
+      if (!r.reportDate) return;
+      merged.set(`${r.reportDate}|${r.projectId || r.projectName}`, {
+        date: r.reportDate,
+        projectId: r.projectId,
+        projectName: r.projectName,
+        status: r.status,
+        updatedAt: r.updatedAt,
+      });
+    });
+
+    return Array.from(merged.values()).sort(
+      (a, b) =>
+        b.date.localeCompare(a.date) ||
+        a.projectName.localeCompare(b.projectName)
+    );
+  }, [localDrafts, serverReports]);
+
+  const daysByStatus = useMemo(() => {
+    const days: Record<"local" | "draft" | "submitted" | "rejected", Date[]> = {
+      local: [],
+      draft: [],
+      submitted: [],
+      rejected: [],
+    };
+    rows.forEach((row) => days[CALENDAR_GROUP[row.status]].push(toDay(row.date)));
+    return days;
+  }, [rows]);
+
+  const openReport = (date: string, projectId?: string) =>
+    navigate(
+      `/?date=${date}${
+        projectId ? `&project=${encodeURIComponent(projectId)}` : ""
+      }`
+    );
+
+  return (
+    <div className="min-h-screen bg-background">
+      <ReportHeader />
+
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 py-6">
+        <div className="grid lg:grid-cols-[auto_1fr] gap-6">
+          <div className="section-card p-4 h-fit animate-fade-in">
+            <div className="flex items-center gap-2 mb-2 px-2">
+              <CalendarDays className="w-5 h-5 text-primary" />
+              <h2 className="text-lg font-semibold text-foreground">
+                Calendar
+              </h2>
+            </div>
+            <Calendar
+              mode="single"
+              month={month}
+              onMonthChange={setMonth}
+              onDayClick={(day) => openReport(localDateString(day))}
+              modifiers={{
+                local: daysByStatus.local,
+                draft: daysByStatus.draft,
+                submitted: daysByStatus.submitted,
+                rejected: daysByStatus.rejected,
+              }}
+              modifiersClassNames={{
+                local: "ring-2 ring-inset ring-warning",
+                draft: "ring-2 ring-inset ring-primary",
+                submitted: "bg-success/20 font-semibold",
+                rejected: "ring-2 ring-inset ring-destructive",
+              }}
+            />
+            <div className="space-y-1.5 px-3 pt-2 border-t text-xs text-muted-foreground">
+              <div className="flex items-center gap-2">
+                <span className="w-3 h-3 rounded-sm ring-2 ring-inset ring-warning" />
+                Draft on this device
+              </div>
+              <div className="flex items-center gap-2">
+                <span className="w-3 h-3 rounded-sm ring-2 ring-inset ring-primary" />
+                Saved to server
+              </div>
+              <div className="flex items-center gap-2">
+                <span className="w-3 h-3 rounded-sm bg-success/20" />
+                Submitted
+              </div>
+              <div className="flex items-center gap-2">
+                <span className="w-3 h-3 rounded-sm ring-2 ring-inset ring-destructive" />
+                Returned for changes
+              </div>
+            </div>
+          </div>
+
+          <div className="section-card overflow-hidden animate-fade-in">
+            <div className="bg-table-header px-4 py-3 border-b border-table-border flex items-center gap-2">
+              <FileText className="w-5 h-5 text-primary" />
+              <h2 className="font-semibold text-foreground">All Reports</h2>
+              {isLoading && (
+                <Loader2 className="w-4 h-4 ml-auto animate-spin text-muted-foreground" />
+              )}
+            </div>
+
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Project</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Last Modified</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rows.length === 0 ? (
+                  <TableRow>
+                    <TableCell
+                      colSpan={4}
+                      className="text-center py-8 text-muted-foreground"
+                    >
+                      {isLoading ? "Loading reports..." : "No reports yet."}
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  rows.map((row) => (
+                    <TableRow
+                      key={`${row.date}-${row.projectId || row.projectName}-${row.status}`}
+                      className="cursor-pointer"
+                      onClick={() => openReport(row.date, row.projectId)}
+                    >
+                      <TableCell className="font-medium">
+                        {format(toDay(row.date), "PPP")}
+                      </TableCell>
+                      <TableCell>
+                        {getProject(row.projectId)?.name ||
+                          row.projectName ||
+                          "—"}
+                      </TableCell>
+                      <TableCell>
+                        <Badge
+                          variant="outline"
+                          className={STATUS_CLASSES[row.status]}
+                        >
+                          {STATUS_LABELS[row.status]}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className="text-muted-foreground">
+                        {row.updatedAt
+                          ? format(new Date(row.updatedAt), "PPp")
+                          : "—"}
+                      </TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        </div>
+      </main>
+    </div>
+  );
+};
+
+export default Reports;
@@ -0,0 +1,273 @@
+import { useEffect, useMemo, useState } from "react";
+import { useNavigate, useSearchParams } from "react-router-dom";
+import { format } from "date-fns";
+import { ArrowLeft, ClipboardCheck, Loader2, Undo2 } from "lucide-react";
+
+import ReportHeader from "@/components/ReportHeader";
+import ReportReadOnly from "@/components/ReportReadOnly";
+import ReviewComments from "@/components/ReviewComments";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { useProjects } from "@/hooks/useProjects";
+import {
+  listReportsFromDB,
+  loadReportFromDB,
+  reviewReportInDB,
+} from "@/integrations/reportsApi";
+import { getCurrentUser } from "@/lib/currentUser";
+import {
+  canReview,
+  commentsFor,
+  REVIEW_STEPS,
+  REVIEW_TARGET_LABELS,
+} from "@/lib/reviewWorkflow";
+import {
+  ReportData,
+  ReportSummary,
+  ReviewAction,
+  ReviewComment,
+  ReviewTarget,
+} from "@/types/report";
+
+const toDay = (dateStr: string) => new Date(`${dateStr}T00:00:00`);
+
+const Review = () => {
+  const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const { toast } = useToast();
+  const { getProject } = useProjects();
+  const user = useMemo(() => getCurrentUser(), []);
+  const step = user ? REVIEW_STEPS[user.role] : undefined;
+
+  const date = searchParams.get("date");
+  const projectId = searchParams.get("project") || undefined;
+
+  const [queue, setQueue] = useState<ReportSummary[]>([]);
+  const [report, setReport] = useState<ReportData | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isActing, setIsActing] = useState(false);
+  const [drafts, setDrafts] = useState<Partial<Record<ReviewTarget, string>>>({});
+
+  useEffect(() => {
+    if (!step) {
+      setIsLoading(false);
+      return;
+    }
+
+    const load = async () => {
+      setIsLoading(true);
+      try {
+        if (date) {
+          setReport(await loadReportFromDB(toDay(date), projectId));
+          setDrafts({});
+        } else {
+          const reports = await listReportsFromDB();
+          setQueue(reports.filter((r) => r.status === step.status));
+        }
+      } catch (e) {
+        toast({
+          title: "Could not load reports",
+          description: e instanceof Error ? e.message : "Please try again later.",
+          variant: "destructive",
+        });
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    load();
+  }, [date, projectId, step, toast]);
+
+  const newComments = (): ReviewComment[] =>
+    (Object.entries(drafts) as [ReviewTarget, string][])
+      .filter(([, text]) => text.trim())
+      .map(([target, text]) => ({
+        target,
+        text: text.trim(),
+        authorName: user?.name,
+        role: user?.role,
+        createdAt: new Date().toISOString(),
+      }));
+
+  const handleAction = async (action: ReviewAction) => {
+    if (!report || !date) return;
+    const comments = newComments();
+
+    if (action === "reject" && comments.length === 0) {
+      toast({
+        title: "Comment Required",
+        description: "Explain what needs to change before returning the report.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsActing(true);
+    try {
+      await reviewReportInDB(
+        action,
+        { projectId, projectName: report.projectName, reportDate: date },
+        comments
+      );
+      toast({
+        title:
+          action === "reject"
+            ? "Returned to Author"
+            : action === "approve"
+            ? "Report Approved"
+            : "Report Reviewed",
+        description: `${report.projectName} — ${format(toDay(date), "PPP")}`,
+      });
+      navigate("/review");
+    } catch (e) {
+      toast({
+        title: "Action Failed",
+        description: e instanceof Error ? e.message : "Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsActing(false);
+    }
+  };
+
+  const renderCommentBox = (target: ReviewTarget) => (
+    <div className="space-y-2">
+      <ReviewComments comments={commentsFor(report?.reviewComments, target)} />
+      {canReview(user?.role, report?.status) && (
+        <Textarea
+          value={drafts[target] ?? ""}
+          onChange={(e) =>
+            setDrafts((prev) => ({ ...prev, [target]: e.target.value }))
+          }
+          placeholder={`Comment on ${REVIEW_TARGET_LABELS[target].toLowerCase()}...`}
+          className="min-h-[60px] text-sm"
+        />
+      )}
+    </div>
+  );
+
+  return (
+    <div className="min-h-screen bg-background">
+      <ReportHeader />
+
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 py-6 space-y-6">
+        {!step ? (
+          <div className="section-card p-8 text-center text-muted-foreground">
+            Your account does not have reviewer or approver access.
+          </div>
+        ) : isLoading ? (
+          <div className="flex justify-center py-12">
+            <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : date ? (
+          report ? (
+            <>
+              <div className="flex flex-wrap items-center justify-between gap-3">
+                <Button variant="ghost" onClick={() => navigate("/review")}>
+                  <ArrowLeft className="w-4 h-4 mr-2" />
+                  Back to queue
+                </Button>
+                {canReview(user?.role, report.status) ? (
+                  <div className="flex gap-3">
+                    <Button
+                      variant="outline"
+                      onClick={() => handleAction("reject")}
+                      disabled={isActing}
+                    >
+                      <Undo2 className="w-4 h-4 mr-2" />
+                      Return to Author
+                    </Button>
+                    <Button
+                      onClick={() => handleAction(step.action)}
+                      disabled={isActing}
+                    >
+                      <ClipboardCheck className="w-4 h-4 mr-2" />
+                      {step.label}
+                    </Button>
+                  </div>
+                ) : (
+                  <p className="text-sm text-muted-foreground">
+                    This report is {report.status ?? "draft"} and is not
+                    waiting for you.
+                  </p>
+                )}
+              </div>
+              <ReportReadOnly report={report} renderFooter={renderCommentBox} />
+            </>
+          ) : (
+            <div className="section-card p-8 text-center text-muted-foreground">
+              Report not found.
+            </div>
+          )
+        ) : (
+          <div className="section-card overflow-hidden animate-fade-in">
+            <div className="bg-table-header px-4 py-3 border-b border-table-border flex items-center gap-2">
+              <ClipboardCheck className="w-5 h-5 text-primary" />
+              <h2 className="font-semibold text-foreground">
+                Waiting for {user?.role === "approver" ? "approval" : "review"}
+              </h2>
+            </div>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Project</TableHead>
+                  <TableHead>Last Modified</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {queue.length === 0 ? (
+                  <TableRow>
+                    <TableCell
+                      colSpan={3}
+                      className="text-center py-8 text-muted-foreground"
+                    >
+                      Nothing to review.
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  queue.map((r) => (
+                    <TableRow
+                      key={`${r.reportDate}-${r.projectId || r.projectName}`}
+                      className="cursor-pointer"
+                      onClick={() =>
+                        navigate(
+                          `/review?date=${r.reportDate}${
+                            r.projectId
+                              ? `&project=${encodeURIComponent(r.projectId)}`
+                              : ""
+                          }`
+                        )
+                      }
+                    >
+                      <TableCell className="font-medium">
+                        {format(toDay(r.reportDate), "PPP")}
+                      </TableCell>
+                      <TableCell>
+                        {getProject(r.projectId)?.name || r.projectName || "—"}
+                      </TableCell>
+                      <TableCell className="text-muted-foreground">
+                        {r.updatedAt ? format(new Date(r.updatedAt), "PPp") : "—"}
+                      </TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default Review;
@@ -0,0 +1,307 @@
+import { useEffect, useMemo, useState } from "react";
+import { useSearchParams } from "react-router-dom";
+import { format } from "date-fns";
+import {
+  CalendarDays,
+  FileDown,
+  FileSpreadsheet,
+  FileText,
+  FileType,
+  Loader2,
+} from "lucide-react";
+
+import ReportHeader from "@/components/ReportHeader";
+import { Button } from "@/components/ui/button";
+import { Calendar } from "@/components/ui/calendar";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { useToast } from "@/hooks/use-toast";
+import { useProjects } from "@/hooks/useProjects";
+import { resolveProjectLogos } from "@/integrations/projectsApi";
+import { DatedReport, loadSubmittedReports } from "@/lib/dashboardStats";
+import {
+  exportSummaryToExcel,
+  exportSummaryToPDF,
+  exportSummaryToWord,
+} from "@/lib/exportUtils";
+import {
+  buildProgressSummary,
+  formatSummaryRange,
+  PERIOD_LABELS,
+  periodRange,
+  SummaryPeriod,
+} from "@/lib/progressSummary";
+import { REVIEW_TARGET_LABELS } from "@/lib/reviewWorkflow";
+import { RESOURCE_TABLE_KEYS } from "@/lib/reportDiff";
+
+const Summary = () => {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const { toast } = useToast();
+  const { projects, getProject } = useProjects();
+  const projectId = searchParams.get("project") || projects[0]?.id;
+  const project = getProject(projectId);
+
+  const [period, setPeriod] = useState<SummaryPeriod>("weekly");
+  const [anchor, setAnchor] = useState<Date>(new Date());
+  const [reports, setReports] = useState<DatedReport[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+
+  const { from, to } = periodRange(period, anchor);
+
+  useEffect(() => {
+    if (!projectId) return;
+
+    let cancelled = false;
+    setIsLoading(true);
+    loadSubmittedReports(projectId, from, to)
+      .then((loaded) => !cancelled && setReports(loaded))
+      .catch((e) => {
+        if (cancelled) return;
+        toast({
+          title: "Could not load reports",
+          description: e instanceof Error ? e.message : "Please try again later.",
+          variant: "destructive",
+        });
+      })
+      .finally(() => !cancelled && setIsLoading(false));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [projectId, from, to, toast]);
+
+  const summary = useMemo(
+    () =>
+      buildProgressSummary(reports, {
+        period,
+        projectName: project?.name || "",
+        from,
+        to,
+      }),
+    [reports, period, project, from, to]
+  );
+
+  const handleExport = async (kind: "pdf" | "excel" | "word") => {
+    setIsExporting(true);
+    try {
+      if (kind === "pdf") {
+        await exportSummaryToPDF(summary, resolveProjectLogos(project));
+      } else if (kind === "excel") {
+        await exportSummaryToExcel(summary);
+      } else {
+        await exportSummaryToWord(summary);
+      }
+    } catch (e) {
+      toast({
+        title: "Export Failed",
+        description: e instanceof Error ? e.message : "Could not export summary.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <ReportHeader project={project} />
+
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 py-6 space-y-6">
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <h2 className="text-lg font-semibold text-foreground flex items-center gap-2">
+            <FileText className="w-5 h-5 text-primary" />
+            Progress Summary
+          </h2>
+          <div className="flex flex-wrap items-center gap-2">
+            <Select
+              value={projectId}
+              onValueChange={(id) => setSearchParams({ project: id })}
+            >
+              <SelectTrigger className="w-[240px]">
+                <SelectValue placeholder="Select project..." />
+              </SelectTrigger>
+              <SelectContent>
+                {projects.map((p) => (
+                  <SelectItem key={p.id} value={p.id}>
+                    {p.code ? `${p.code} — ${p.name}` : p.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Tabs value={period} onValueChange={(v) => setPeriod(v as SummaryPeriod)}>
+              <TabsList>
+                {(Object.keys(PERIOD_LABELS) as SummaryPeriod[]).map((p) => (
+                  <TabsTrigger key={p} value={p}>
+                    {PERIOD_LABELS[p]}
+                  </TabsTrigger>
+                ))}
+              </TabsList>
+            </Tabs>
+            <Popover>
+              <PopoverTrigger asChild>
+                <Button variant="outline" className="min-w-[240px] justify-start">
+                  <CalendarDays className="w-4 h-4 mr-2" />
+                  {formatSummaryRange({ from, to })}
+                </Button>
+              </PopoverTrigger>
+              <PopoverContent className="w-auto p-0" align="end">
+                <Calendar
+                  mode="single"
+                  selected={anchor}
+                  onSelect={(day) => day && setAnchor(day)}
+                  defaultMonth={anchor}
+                  weekStartsOn={1}
+                />
+              </PopoverContent>
+            </Popover>
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button disabled={!projectId || isLoading || isExporting}>
+                  <FileDown className="w-4 h-4 mr-2" />
+                  {isExporting ? "Exporting..." : "Export"}
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end">
+                <DropdownMenuItem onClick={() => handleExport("pdf")}>
+                  <FileText className="w-4 h-4 mr-2" />
+                  PDF
+                </DropdownMenuItem>
+                <DropdownMenuItem onClick={() => handleExport("excel")}>
+                  <FileSpreadsheet className="w-4 h-4 mr-2" />
+                  Excel
+                </DropdownMenuItem>
+                <DropdownMenuItem onClick={() => handleExport("word")}>
+                  <FileType className="w-4 h-4 mr-2" />
+                  Word
+                </DropdownMenuItem>
+              </DropdownMenuContent>
+            </DropdownMenu>
+          </div>
+        </div>
+
+        {!projectId ? (
+          <div className="section-card p-8 text-center text-muted-foreground">
+            Create a project to generate summaries.
+          </div>
+        ) : isLoading ? (
+          <div className="flex justify-center py-12">
+            <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <>
+            <div className="grid sm:grid-cols-3 gap-4">
+              {[
+                { label: "Daily reports", value: summary.reportCount },
+                { label: "Days with activities", value: summary.activities.length },
+                { label: "Weather days lost", value: summary.weatherDaysLost },
+              ].map(({ label, value }) => (
+                <div key={label} className="section-card p-4">
+                  <p className="text-sm text-muted-foreground">{label}</p>
+                  <p className="text-2xl font-bold text-foreground">{value}</p>
+                </div>
+              ))}
+            </div>
+
+            <div className="section-card p-6 space-y-3">
+              <h3 className="font-semibold text-foreground">Working Activities</h3>
+              {summary.activities.length === 0 ? (
+                <p className="text-sm text-muted-foreground">
+                  No submitted reports in this period.
+                </p>
+              ) : (
+                summary.activities.map(({ date, text }) => (
+                  <div key={date}>
+                    <p className="text-sm font-medium">
+                      {format(new Date(`${date}T00:00:00`), "EEEE, PP")}
+                    </p>
+                    <p className="whitespace-pre-wrap text-sm text-muted-foreground">
+                      {text}
+                    </p>
+                  </div>
+                ))
+              )}
+            </div>
+
+            <div className="grid lg:grid-cols-2 gap-4">
+              {RESOURCE_TABLE_KEYS.map((key) => {
+                const showUnit = key === "materials" || key === "machinery";
+                return (
+                  <div key={key} className="section-card overflow-hidden">
+                    <div className="bg-table-header px-4 py-3 border-b border-table-border">
+                      <h3 className="font-semibold text-foreground">
+                        {REVIEW_TARGET_LABELS[key]}
+                      </h3>
+                    </div>
+                    <table className="w-full text-sm">
+                      <thead>
+                        <tr className="bg-muted/50 text-muted-foreground">
+                          <th className="text-left px-4 py-2 font-medium">Description</th>
+                          {showUnit && <th className="text-center px-4 py-2 font-medium">Unit</th>}
+                          <th className="text-center px-4 py-2 font-medium">Period Total</th>
+                          <th className="text-center px-4 py-2 font-medium">Accum</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {summary.resources[key].length === 0 ? (
+                          <tr>
+                            <td colSpan={showUnit ? 4 : 3} className="text-center py-6 text-muted-foreground">
+                              No entries.
+                            </td>
+                          </tr>
+                        ) : (
+                          summary.resources[key].map((row) => (
+                            <tr key={row.description} className="border-t border-table-border">
+                              <td className="px-4 py-2">{row.description}</td>
+                              {showUnit && <td className="text-center px-4 py-2">{row.unit}</td>}
+                              <td className="text-center px-4 py-2">{row.total}</td>
+                              <td className="text-center px-4 py-2 font-medium">{row.accumulated}</td>
+                            </tr>
+                          ))
+                        )}
+                      </tbody>
+                    </table>
+                  </div>
+                );
+              })}
+            </div>
+
+            {summary.materialsByUnit.length > 0 && (
+              <div className="section-card p-6">
+                <h3 className="font-semibold text-foreground mb-2">
+                  Delivered Materials by Unit
+                </h3>
+                <ul className="text-sm space-y-1">
+                  {summary.materialsByUnit.map(({ unit, quantity }) => (
+                    <li key={unit}>
+                      <span className="font-medium">{quantity}</span> {unit}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default Summary;
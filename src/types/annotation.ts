@@ -0,0 +1,28 @@
+// Shapes drawn on a reference photo, in pixels of the rotated (uncropped) photo
+export interface AnnotationPoint {
+  x: number;
+  y: number;
+}
+
+export type Annotation =
+  | { kind: "arrow" | "rect" | "circle"; from: AnnotationPoint; to: AnnotationPoint; color: string; width: number }
+  | { kind: "freehand"; points: AnnotationPoint[]; color: string; width: number }
+  | { kind: "text"; at: AnnotationPoint; text: string; color: string; size: number }
+  // Pixelated to hide faces, plates or documents
+  | { kind: "blur"; from: AnnotationPoint; to: AnnotationPoint };
+
+export type AnnotationTool = Annotation["kind"] | "crop";
+
+export interface PhotoCrop {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Everything needed to re-render the annotated photo from the original
+export interface PhotoEdits {
+  rotation: 0 | 90 | 180 | 270;
+  crop?: PhotoCrop;
+  annotations: Annotation[];
+}
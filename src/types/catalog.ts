@@ -0,0 +1,11 @@
+import { ResourceTableKey } from "@/types/report";
+
+export interface CatalogItem {
+  id: string;
+  description: string;
+  unit?: string;
+  category?: string;
+}
+
+// Per-project list of known trades, materials and equipment for each resource table
+export type ResourceCatalog = Record<ResourceTableKey, CatalogItem[]>;
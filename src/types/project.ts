@@ -0,0 +1,14 @@
+import { ResourceCatalog } from "@/types/catalog";
+
+export interface Project {
+  id: string;
+  name: string;
+  code: string;
+  client: string;
+  location: string;
+  // Data URLs; fall back to the globally uploaded header logos when empty
+  cacpmLogo?: string | null;
+  koicaLogo?: string | null;
+  // Suggestions for the resource tables; defaults are used when missing
+  catalog?: ResourceCatalog;
+}
@@ -1,15 +1,215 @@
 import { ResourceRow } from "@/components/ResourceTable";
+import { UserRole } from "@/types/user";
+import { PhotoEdits } from "@/types/annotation";
+
+export interface ReferenceSlot {
+  id?: string;
+  image: File | string | null;
+  caption?: string;
+  // Key of the local copy in IndexedDB; `image` then holds the uploaded URL, if any
+  photoId?: string;
+  // Read from the photo's EXIF data when it is picked
+  takenAt?: string;
+  location?: PhotoLocation;
+  // Unannotated photo when `image` holds the annotated copy, and how it was edited
+  original?: File | string | null;
+  originalPhotoId?: string;
+  edits?: PhotoEdits;
+  [key: string]: unknown;
+}
+
+export interface PhotoLocation {
+  lat: number;
+  lng: number;
+}
+
+export interface ReferenceEntry {
+  id?: string;
+  slots: ReferenceSlot[];
+  [key: string]: unknown;
+}
+
+// Photos per entry: one full width, a row of two or three, or a 2x2 grid
+export type ReferenceLayout = "1-up" | "2-up" | "3-up" | "2x2";
+
+export interface ReferenceSection {
+  id?: string;
+  title?: string;
+  // Sections saved before layouts existed are 2-up
+  layout?: ReferenceLayout;
+  entries: ReferenceEntry[];
+  [key: string]: unknown;
+}
+
+// One weather reading during the day
+export interface WeatherObservation {
+  id: string;
+  time: string; // HH:mm
+  condition: string;
+  temperature?: number | null; // °C
+  rainfall?: number | null; // mm since the previous reading
+  wind?: string;
+}
+
+// Hours of work stopped by the weather, the basis for extension-of-time claims
+export interface WeatherDelay {
+  id: string;
+  hours: number;
+  cause: string;
+  from?: string; // HH:mm
+  to?: string; // HH:mm
+}
+
+// One line of the structured activity log
+export interface ActivityItem {
+  id: string;
+  code: string; // WBS or BOQ item
+  location: string; // block / floor / grid
+  description: string;
+  crew: string;
+  percentComplete?: number | null;
+}
+
+// "text" keeps the free-form textareas; "structured" edits activity lines
+export type ActivityMode = "text" | "structured";
+
+export type PlanStatus = "done" | "partial" | "slipped";
+
+// One line of the previous report's work plan, checked against today's work
+export interface PlanCheck {
+  id: string;
+  item: string;
+  status?: PlanStatus;
+  // Why a partial or slipped item did not get done
+  reason?: string;
+}
 
 export interface ReportData {
+  projectId?: string;
   projectName: string;
   reportDate: string | null;
-  weather: string;
-  weatherPeriod: "AM" | "PM";
-  temperature: string;
+  weatherAM?: string;
+  weatherPM?: string;
+  tempAM?: string;
+  tempPM?: string;
+  currentPeriod?: "AM" | "PM";
+  // Backward compatibility properties
+  weather?: string;
+  weatherPeriod?: "AM" | "PM";
+  temperature?: string;
+  // Detailed log next to the AM/PM summary
+  weatherLog?: WeatherObservation[];
+  weatherDelays?: WeatherDelay[];
   activityToday: string;
   workPlanNextDay: string;
+  // In structured mode activityToday/workPlanNextDay hold the lines rendered as text
+  activityMode?: ActivityMode;
+  activityItems?: ActivityItem[];
+  planItems?: ActivityItem[];
+  planChecks?: PlanCheck[];
   managementTeam: ResourceRow[];
   workingTeam: ResourceRow[];
   materials: ResourceRow[];
   machinery: ResourceRow[];
-}
\ No newline at end of file
+  // Optional merged-reference data (kept optional so export logic isn't changed yet)
+  referenceSections?: ReferenceSection[];
+  // Print each photo's capture time and location next to its caption in exports
+  photoMetadataInCaptions?: boolean;
+  // Set when the draft is written to localStorage
+  updatedAt?: string;
+  // Approval workflow, filled in by the server
+  status?: ReportStatus;
+  reviewComments?: ReviewComment[];
+  revision?: number;
+  amendments?: Amendment[];
+  signatures?: ReportSignature[];
+}
+
+// Parts of an earlier report or template that "Start from…" can copy
+export type CopyPart = "projectInfo" | "activities" | "resources" | "referenceTitles";
+
+// Named starting point saved in the browser
+export interface ReportTemplate {
+  id: string;
+  name: string;
+  projectId?: string;
+  projectName?: string;
+  createdAt: string;
+  data: Partial<ReportData>;
+}
+
+// People who sign off a daily report before it is submitted
+export type SignatureRole = "siteEngineer" | "clientSupervisor";
+
+export interface ReportSignature {
+  role: SignatureRole;
+  name: string;
+  // Job title printed under the name
+  position?: string;
+  // PNG data URL, drawn on the signature pad or uploaded
+  image: string;
+  signedAt: string;
+}
+
+// Why a submitted report was reopened; each one bumps the revision number
+export interface Amendment {
+  revision: number;
+  reason: string;
+  amendedAt: string;
+  amendedBy?: string;
+}
+
+// The four resource tables of a report
+export type ResourceTableKey =
+  | "managementTeam"
+  | "workingTeam"
+  | "materials"
+  | "machinery";
+
+export type ReportStatus =
+  | "draft"
+  | "submitted"
+  | "reviewed"
+  | "approved"
+  | "rejected";
+
+// Part of the report a reviewer comment is pinned to
+export type ReviewTarget =
+  | "general"
+  | "activities"
+  | "managementTeam"
+  | "workingTeam"
+  | "materials"
+  | "machinery"
+  | "reference";
+
+export interface ReviewComment {
+  id?: string;
+  target: ReviewTarget;
+  text: string;
+  authorName?: string;
+  role?: UserRole;
+  createdAt?: string;
+}
+
+export type ReviewAction = "review" | "approve" | "reject";
+
+// Snapshot the server keeps for every save of a report
+export interface ReportVersion {
+  id: string;
+  version: number;
+  savedAt: string;
+  savedBy?: string;
+  revision?: number;
+  snapshot: ReportData;
+}
+
+// Lightweight row returned by the report list endpoint
+export interface ReportSummary {
+  id?: string;
+  projectId?: string;
+  projectName: string;
+  reportDate: string;
+  status: ReportStatus;
+  updatedAt?: string;
+}
@@ -0,0 +1,9 @@
+// Authors write reports; reviewers check submitted ones and pass them to approvers
+export type UserRole = "author" | "reviewer" | "approver";
+
+export interface CurrentUser {
+  id?: string;
+  name: string;
+  email: string;
+  role: UserRole;
+}
@@ -0,0 +1,27 @@
+// One reading from a station logger or weather service
+export interface StationReading {
+  time: Date;
+  temperature?: number | null;
+  condition?: string;
+  rainfall?: number | null;
+}
+
+// The morning/afternoon values of the report form
+export interface DailyWeather {
+  weatherAM: string;
+  weatherPM: string;
+  tempAM: string;
+  tempPM: string;
+}
+
+export interface WeatherQuery {
+  date: string; // YYYY-MM-DD
+  site: string;
+}
+
+// A place daily weather can be filled from; resolves null when it has no readings for the day
+export interface WeatherSource {
+  id: string;
+  label: string;
+  fetchDay: (query: WeatherQuery) => Promise<DailyWeather | null>;
+}
@@ -1,7 +1,11 @@
+import { ReferenceSection } from "@/types/report";
+import { DEFAULT_REFERENCE_LAYOUT } from "@/lib/referenceLayouts";
+
 export function createReferenceSection() {
   return {
     id: crypto.randomUUID(),
     title: "New Section",
+    layout: DEFAULT_REFERENCE_LAYOUT,
     entries: [
       {
         id: crypto.randomUUID(),
@@ -20,4 +24,38 @@ export const validateReferenceSections = (sections: any[]) => {
       section.title.trim() &&
       section.entries.some((entry: any) => entry.slots && entry.slots.some((slot: any) => slot.image || (slot.caption && slot.caption.trim())))
   );
-};
\ No newline at end of file
+};
+// dataTransfer types for reordering, kept apart from file drops
+export const REFERENCE_DRAG_TYPES = {
+  section: "application/x-reference-section",
+  entry: "application/x-reference-entry",
+  slot: "application/x-reference-slot",
+};
+
+// Move the item with `id` to `toIndex`, keeping the others in order
+export const moveItem = <T extends { id: string }>(items: T[], id: string, toIndex: number): T[] => {
+  const from = items.findIndex((item) => item.id === id);
+  if (from === -1 || from === toIndex || toIndex < 0 || toIndex >= items.length) return items;
+  const next = [...items];
+  const [item] = next.splice(from, 1);
+  next.splice(toIndex, 0, item);
+  return next;
+};
+
+// Swap two slots anywhere in the reference area. The photo, caption and metadata
+// move together with the slot id, so the photo stored under that id follows.
+export const swapSlots = (sections: ReferenceSection[], fromId: string, toId: string): ReferenceSection[] => {
+  const all = sections.flatMap((section) => (section.entries ?? []).flatMap((entry) => entry.slots ?? []));
+  const from = all.find((slot) => slot.id === fromId);
+  const to = all.find((slot) => slot.id === toId);
+  if (!from || !to || from === to) return sections;
+
+  return sections.map((section) => ({
+    ...section,
+    entries: (section.entries ?? []).map((entry) =>
+      entry.slots
+        ? { ...entry, slots: entry.slots.map((slot) => (slot.id === fromId ? to : slot.id === toId ? from : slot)) }
+        : entry
+    ),
+  }));
+};